@@ -1,2 +1,41 @@
 // PLACEHOLDER - Overwritten by GitHub Action during deployment
-export const config = { tiers: [] };
+// Local dev: paid tiers have no stripePriceId, so STRIPE_PRICE_ID_PRO and
+// STRIPE_PRICE_ID_DEVELOPER from .dev.vars are used (see .dev.vars.example)
+import type { Config } from './configLoader';
+
+export const config: Config = {
+  tiers: [
+    {
+      id: 'free',
+      name: 'Free',
+      price: 0,
+      limit: 7,
+      features: ['Will', 'it', 'work'],
+      popular: false,
+      stripePriceId: null,
+      entitlements: { export_csv: false, max_file_mb: 5 },
+    },
+    {
+      id: 'pro',
+      name: 'Pro',
+      price: 29,
+      limit: 11,
+      features: ['Fingers', 'Crossed'],
+      popular: true,
+      stripePriceId: null,
+      rateLimit: { perMinute: 200, burst: 40 },
+      entitlements: { export_csv: true, max_file_mb: 50 },
+    },
+    {
+      id: 'developer',
+      name: 'Developer',
+      price: 50,
+      limit: 'unlimited',
+      features: ['hope', 'it', 'works'],
+      popular: false,
+      stripePriceId: null,
+      rateLimit: { perMinute: 500, burst: 100 },
+      entitlements: { export_csv: true, max_file_mb: 'unlimited' },
+    },
+  ],
+};
@@ -13,7 +13,7 @@
  * 2. GitHub Action creates Stripe products (gets price IDs)
  * 3. GitHub Action writes config.json to api/src/config/config.json
  * 4. This file loads config.json and transforms it to Worker format
- * 5. All API endpoints use these tiers instead of hardcoded TIER_CONFIG
+ * 5. tierRegistry.ts builds the single tier registry every API endpoint uses
  *
  * CONFIG STRUCTURE (from GitHub Action):
  * {
@@ -34,35 +34,76 @@
  *       limit: 100,
  *       features: ["Everything", "Priority support"],
  *       popular: true,
- *       stripePriceId: "price_1234abcd"
+ *       stripePriceId: "price_1234abcd",
+ *       yearlyPrice: 290,                          // optional: annual billing
+ *       yearlyStripePriceId: "price_9876zyxw",
+ *       trialDays: 14,                             // optional: free trial on first checkout
+ *       entitlements: { export_csv: true, max_file_mb: 50 },  // optional: feature flags / caps
+ *       rateLimit: { perMinute: 200, burst: 40 },  // optional
+ *       overage: {                                  // optional: bill past the limit
+ *         stripePriceId: "price_5678efgh",          // metered price
+ *         meterEventName: "api_requests"            // Stripe Billing Meter event
+ *       }
  *     }
- *   ]
+ *   ],
+ *   operations: [                                  // optional: credit cost per /api/data operation
+ *     { id: "summarize", name: "Summarize", credits: 5, maxSize: 20 }
+ *   ],
+ *   allowPromotionCodes: true                      // optional: promo code field on Stripe Checkout
  * }
  *
  * ============================================================================
  */
 
-import { TierConfig } from '../types';
+import { BillingInterval, Env, TierConfig, TierEntitlements, TierOverage, TierRateLimit, UsagePeriodType } from '../types';
 
 /**
  * Tier configuration from config.json (generated by GitHub Action)
  */
-interface ConfigTier {
+export interface ConfigTier {
   id: string;
   name: string;
   price: number;
   limit: number | 'unlimited';
   features: string[];
   popular: boolean;
-  stripePriceId: string | null;
+  stripePriceId: string | null;         // Monthly price
+  yearlyPrice?: number;                 // Optional annual price (total per year)
+  yearlyStripePriceId?: string | null;  // Annual price ID (env fallback: STRIPE_PRICE_ID_<TIER>_YEARLY)
+  trialDays?: number;                   // Optional free trial for first-time subscribers (days)
+  rateLimit?: Partial<TierRateLimit>;  // Optional per-tier rate limits (defaults in tiers.ts)
+  usagePeriod?: UsagePeriodType;       // Optional usage reset period (default "month")
+  overage?: TierOverage;               // Optional metered billing past the limit (default: hard cap)
+  usageAlerts?: number[];              // Optional email alerts at these % of the limit (default in tiers.ts)
+  entitlements?: Record<string, boolean | number | 'unlimited'>;  // Optional feature flags / caps (services/entitlements.ts)
 }
 
-interface Config {
+/**
+ * Operation from config.json (credit cost per unit of size - see operationCatalog.ts)
+ */
+export interface ConfigOperation {
+  id: string;
+  name: string;
+  credits: number;
+  maxSize?: number;  // Optional largest size per request (default MAX_OPERATION_SIZE)
+}
+
+/**
+ * Full app configuration
+ *
+ * Same shape for the bundled config.ts and for per-tenant configs stored in KV
+ * (see services/tenant.ts).
+ */
+export interface Config {
   tiers: ConfigTier[];
   branding?: any;
   product?: any;
   apiUrl?: string;
   clerkPublishableKey?: string;
+  userId?: string;            // Platform user ID that owns this config (tenant ID)
+  allowedOrigins?: string[];  // Tenant-specific CORS origins (KV tenants only)
+  allowPromotionCodes?: boolean;  // Show Stripe's promotion code field on Checkout
+  operations?: ConfigOperation[];  // Credit cost per /api/data operation (default: 1 credit per request)
 }
 
 /**
@@ -73,12 +114,11 @@ interface Config {
  *
  * @returns {Promise<Config>} Configuration object
  */
-async function loadConfig(): Promise<Config> {
+export async function loadConfig(): Promise<Config> {
   try {
     // Import config.ts (TypeScript module written by GitHub Action)
     // Wrangler automatically bundles all TypeScript imports
     const configModule = await import('./config');
-    console.log('[ConfigLoader] Loaded config:', configModule.config);
     return configModule.config;
   } catch (error) {
     console.error('[ConfigLoader] FAILED to load config.ts:', error);
@@ -104,12 +144,27 @@ function transformTiers(tiers: ConfigTier[]): Record<string, TierConfig> {
       name: tier.name,
       price: tier.price,
       limit: tier.limit === 'unlimited' ? Infinity : tier.limit,
+      entitlements: resolveEntitlements(tier.entitlements),
     };
   }
 
   return tierConfig;
 }
 
+/**
+ * Normalize a tier's entitlements ("unlimited" caps become Infinity)
+ *
+ * @param {ConfigTier['entitlements']} entitlements - Entitlements from config.json
+ * @returns {TierEntitlements} Entitlements with numeric caps
+ */
+export function resolveEntitlements(entitlements: ConfigTier['entitlements']): TierEntitlements {
+  const resolved: TierEntitlements = {};
+  for (const [key, value] of Object.entries(entitlements || {})) {
+    resolved[key] = value === 'unlimited' ? Infinity : value;
+  }
+  return resolved;
+}
+
 /**
  * Get tier configuration
  *
@@ -130,27 +185,55 @@ export async function getTierConfig(): Promise<Record<string, TierConfig>> {
  * Falls back to environment variables if config doesn't have price IDs.
  *
  * @param {Env} env - Worker environment (for fallback to env vars)
- * @returns {Promise<Record<string, string>>} Map of tier ID to Stripe price ID
+ * @param {Config} config - Bundled config (loaded once per request by the caller)
+ * @param {BillingInterval} interval - "month" (stripePriceId) or "year" (yearlyStripePriceId)
+ * @returns {Record<string, string>} Map of tier ID to Stripe price ID
  */
-export async function getPriceIdMap(env: any): Promise<Record<string, string>> {
-  const config = await loadConfig();
+export function getPriceIdMap(env: Env, config: Config, interval: BillingInterval = 'month'): Record<string, string> {
   const priceIdMap: Record<string, string> = {};
 
   for (const tier of config.tiers) {
     const key = tier.id || tier.name;
-    if (tier.stripePriceId) {
+    const configPriceId = interval === 'year' ? tier.yearlyStripePriceId : tier.stripePriceId;
+    const hasPrice = interval === 'year' ? !!tier.yearlyPrice : tier.price > 0;
+    if (configPriceId) {
       // Use price ID from config.json (generated by GitHub Action)
-      priceIdMap[key] = tier.stripePriceId;
-    } else if (tier.price > 0) {
+      priceIdMap[key] = configPriceId;
+    } else if (hasPrice) {
       // Fallback to environment variable for local dev (skip free tier)
-      const envKey = `STRIPE_PRICE_ID_${key.toUpperCase()}`;
-      priceIdMap[key] = env[envKey] || '';
+      priceIdMap[key] = getEnvString(env, priceIdEnvKey(key, interval)) || '';
     }
   }
 
   return priceIdMap;
 }
 
+/**
+ * Env var name used as the price ID fallback for a tier
+ * (e.g. STRIPE_PRICE_ID_PRO, STRIPE_PRICE_ID_PRO_PLUS_YEARLY for "pro-plus")
+ *
+ * Env var names can't contain dashes, so they become underscores.
+ *
+ * @param {string} tierId - Tier ID
+ * @param {BillingInterval} interval - "month" or "year" (_YEARLY suffix)
+ * @returns {string} Env var name
+ */
+export function priceIdEnvKey(tierId: string, interval: BillingInterval = 'month'): string {
+  return `STRIPE_PRICE_ID_${tierId.toUpperCase().replace(/-/g, '_')}${interval === 'year' ? '_YEARLY' : ''}`;
+}
+
+/**
+ * String env var by name (undefined if unset or not a string, e.g. a binding)
+ *
+ * @param {Env} env - Worker environment
+ * @param {string} key - Env var name
+ * @returns {string | undefined} Value
+ */
+export function getEnvString(env: Env, key: string): string | undefined {
+  const value = (env as unknown as Record<string, unknown>)[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
 /**
  * Get all tiers (for API endpoint)
  *
@@ -166,18 +249,13 @@ export async function getAllTiers(): Promise<ConfigTier[]> {
 /**
  * USAGE EXAMPLES:
  *
- * // Replace old TIER_CONFIG usage:
- * import { getTierConfig } from './config/configLoader';
- * const TIER_CONFIG = await getTierConfig();
- * const userLimit = TIER_CONFIG[plan].limit;
- *
- * // Replace old PRICE_ID_MAP usage:
- * import { getPriceIdMap } from './config/configLoader';
- * const priceIdMap = await getPriceIdMap(env);
- * const stripePriceId = priceIdMap[tier];
+ * Routes should NOT call these directly - use the tier registry instead,
+ * which adds validation and explicit unknown-plan handling:
  *
- * // Get all tiers for /api/tiers endpoint:
- * import { getAllTiers } from './config/configLoader';
- * const tiers = await getAllTiers();
- * return Response.json({ tiers });
+ * import { getTierRegistry, findTier } from './config/tierRegistry';
+ * const registry = getTierRegistry(env, await loadConfig());
+ * const tier = findTier(registry, plan);
+ * if (!tier) { ...unknown plan... }
+ * const userLimit = tier.limit;
+ * const stripePriceId = tier.stripePriceId;
  */
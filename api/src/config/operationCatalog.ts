@@ -0,0 +1,138 @@
+/**
+ * ============================================================================
+ * OPERATION CATALOG - What each /api/data operation costs in credits
+ * ============================================================================
+ *
+ * Tier limits are in CREDITS. Every request to /api/data names an operation
+ * and a size, and consumes credits = operation credits × size:
+ *
+ *   POST /api/data  { "operation": "summarize", "size": 3 }
+ *
+ * CONFIG (optional "operations" in config.ts or a tenant config):
+ * {
+ *   operations: [
+ *     { id: "lookup",    name: "Lookup",    credits: 1 },
+ *     { id: "summarize", name: "Summarize", credits: 5, maxSize: 20 }  // e.g. per page
+ *   ]
+ * }
+ *
+ * Without "operations" the catalog has a single "default" operation costing
+ * 1 credit - one request = one credit, exactly as before.
+ *
+ * The first operation is used when the body names none (and size defaults
+ * to 1), so clients that POST an empty body keep working.
+ *
+ * ============================================================================
+ */
+
+import { Config, ConfigOperation } from './configLoader';
+import { TIER_ID_PATTERN } from './tierRegistry';
+
+/**
+ * Catalog used when the config has no "operations"
+ */
+const DEFAULT_OPERATIONS: ConfigOperation[] = [
+	{ id: 'default', name: 'Request', credits: 1 },
+];
+
+/**
+ * Largest size a single request may ask for (operations can set a lower maxSize)
+ */
+export const MAX_OPERATION_SIZE = 10000;
+
+/**
+ * An operation as seen by the Worker (maxSize resolved)
+ */
+export interface Operation {
+	id: string;
+	name: string;
+	credits: number;   // Credits per unit of size
+	maxSize: number;
+}
+
+/**
+ * All configured operations
+ */
+export interface OperationCatalog {
+	operations: Operation[];
+	byId: Record<string, Operation>;
+	defaultOperation: Operation;  // Used when the request names no operation
+}
+
+/**
+ * Build the operation catalog from config.ts or a tenant config
+ */
+export function getOperationCatalog(config: Config): OperationCatalog {
+	const configured = config.operations?.length ? config.operations : DEFAULT_OPERATIONS;
+
+	const operations = configured.map((op): Operation => ({
+		id: op.id,
+		name: op.name || op.id,
+		credits: op.credits,
+		maxSize: op.maxSize ?? MAX_OPERATION_SIZE,
+	}));
+
+	const byId: Record<string, Operation> = {};
+	for (const op of operations) {
+		byId[op.id] = op;
+	}
+
+	return { operations, byId, defaultOperation: operations[0] };
+}
+
+/**
+ * Look up an operation by ID (undefined for unknown operations)
+ */
+export function findOperation(catalog: OperationCatalog, operationId: string): Operation | undefined {
+	return Object.prototype.hasOwnProperty.call(catalog.byId, operationId) ? catalog.byId[operationId] : undefined;
+}
+
+/**
+ * Credits a request costs
+ */
+export function getOperationCost(operation: Operation, size: number): number {
+	return operation.credits * size;
+}
+
+/**
+ * Validate the "operations" of a config
+ *
+ * Runs alongside validateTierRegistry on every tenant load (services/tenant.ts).
+ *
+ * CHECKS:
+ * - IDs match TIER_ID_PATTERN and are unique
+ * - credits are positive integers
+ * - maxSize (if set) is an integer between 1 and MAX_OPERATION_SIZE
+ *
+ * @returns Object with validation status and list of problems
+ */
+export function validateOperationCatalog(config: Config): { valid: boolean; errors: string[] } {
+	const errors: string[] = [];
+	if (config.operations === undefined) {
+		return { valid: true, errors };
+	}
+	if (!Array.isArray(config.operations)) {
+		errors.push('operations must be a list');
+		return { valid: false, errors };
+	}
+
+	const seen = new Set<string>();
+	for (const op of config.operations) {
+		if (!op.id || !TIER_ID_PATTERN.test(op.id)) {
+			errors.push(`Invalid operation ID "${op.id}" (must match ${TIER_ID_PATTERN})`);
+		}
+		if (seen.has(op.id)) {
+			errors.push(`Duplicate operation ID "${op.id}"`);
+		}
+		seen.add(op.id);
+
+		if (!Number.isInteger(op.credits) || op.credits < 1) {
+			errors.push(`Operation "${op.id}" has invalid credits: ${JSON.stringify(op.credits)} (positive integer)`);
+		}
+		if (op.maxSize !== undefined && (!Number.isInteger(op.maxSize) || op.maxSize < 1 || op.maxSize > MAX_OPERATION_SIZE)) {
+			errors.push(`Operation "${op.id}" has invalid maxSize: ${JSON.stringify(op.maxSize)} (1-${MAX_OPERATION_SIZE})`);
+		}
+	}
+
+	return { valid: errors.length === 0, errors };
+}
@@ -0,0 +1,394 @@
+/**
+ * ============================================================================
+ * TIER REGISTRY - Single source of truth for plans
+ * ============================================================================
+ *
+ * Every route that needs to know about plans goes through this module:
+ * - /api/tiers (public pricing)
+ * - /api/data and /api/usage (limits)
+ * - /api/entitlements and requireEntitlement() (feature flags / caps)
+ * - /api/create-checkout (Stripe price IDs)
+ * - /webhook/stripe (validating the purchased tier)
+ *
+ * It wraps configLoader (config.ts written by the GitHub Action) and adds:
+ * - Lookup by tier ID with an explicit "unknown plan" result (no silent 0 limit)
+ * - Stripe price ID resolution (config.ts first, STRIPE_PRICE_ID_* env fallback)
+ * - A consistency check that runs on every request (like validateEnv)
+ *
+ * WHY THIS EXISTS:
+ * Usage limits used to come from a hardcoded TIER_CONFIG while checkout read
+ * config.ts. A tier injected by the deploy action (e.g. "starter") could be
+ * purchased but got a limit of 0, locking the user out right after paying.
+ *
+ * HOW TO ADD A NEW TIER:
+ * 1. Add it to config.ts (or let the GitHub Action inject it)
+ * 2. Give it a stripePriceId, or set STRIPE_PRICE_ID_<TIER_ID> for local dev
+ * 3. Nothing else - every route reads the registry
+ *
+ * ============================================================================
+ */
+
+import { BillingInterval, Env, TierConfig, TierOverage, TierRateLimit, UsagePeriodType } from '../types';
+import { getEnvString, getPriceIdMap, priceIdEnvKey, resolveEntitlements, Config, ConfigTier } from './configLoader';
+import { RATE_LIMIT_PER_MINUTE, RATE_LIMIT_BURST, DEFAULT_USAGE_ALERTS } from './tiers';
+
+/**
+ * Valid usagePeriod values
+ */
+const USAGE_PERIODS: UsagePeriodType[] = ['week', 'month', 'quarter', 'year'];
+
+/**
+ * Longest free trial Stripe accepts (subscription_data.trial_period_days)
+ */
+const MAX_TRIAL_DAYS = 730;
+
+/**
+ * Highest usage alert threshold (% of the limit - past 100 only on metered tiers)
+ */
+const MAX_USAGE_ALERT_PERCENT = 1000;
+
+/**
+ * Valid tier IDs: lowercase letters, digits, dashes and underscores
+ *
+ * Tier IDs end up in Clerk metadata, JWT claims, Stripe metadata and env var
+ * names (STRIPE_PRICE_ID_<ID>), so keep them boring.
+ */
+export const TIER_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+/**
+ * Valid entitlement keys: snake_case (e.g. export_csv, max_file_mb)
+ */
+export const ENTITLEMENT_KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Where a config comes from
+ *
+ * - bundled: config.ts (STRIPE_PRICE_ID_* env fallback allowed)
+ * - tenant:  per-tenant config from KV (no env fallback)
+ */
+export type ConfigSource = 'bundled' | 'tenant';
+
+/**
+ * A tier as seen by the Worker (limits normalized, price ID resolved)
+ */
+export interface RegisteredTier extends TierConfig {
+	id: string;
+	features: string[];
+	popular: boolean;
+	stripePriceId: string | null;  // Monthly price, resolved from config.ts or env fallback
+	yearlyPrice: number | null;    // Annual price (null = monthly billing only)
+	yearlyStripePriceId: string | null;
+	trialDays: number | null;      // Free trial on first checkout (null = no trial)
+	rateLimit: TierRateLimit;      // Tier's rateLimit merged over defaults from tiers.ts
+	usagePeriod: UsagePeriodType;  // How often usage resets (default "month")
+	overage: TierOverage | null;   // Metered billing past the limit (null = hard cap)
+	usageAlerts: number[];         // Email alert thresholds, % of the limit, ascending ([] = none)
+}
+
+/**
+ * All configured tiers, sorted by price (lowest first)
+ */
+export interface TierRegistry {
+	tiers: RegisteredTier[];
+	byId: Record<string, RegisteredTier>;
+	defaultTier: RegisteredTier | undefined;  // Free tier (price 0) or cheapest tier
+}
+
+/**
+ * Build the tier registry from config.ts or a tenant config
+ *
+ * Tenant configs (loaded from KV) must carry their own price IDs - the
+ * STRIPE_PRICE_ID_* env fallback belongs to the bundled config only, otherwise
+ * one storefront could end up selling another storefront's prices.
+ *
+ * @param env - Worker environment (for STRIPE_PRICE_ID_* fallbacks)
+ * @param config - config.ts (loadConfig) or a tenant config from KV
+ * @param source - Where config came from (default: bundled config.ts)
+ * @returns Registry with lookup map and default tier
+ */
+export function getTierRegistry(env: Env, config: Config, source: ConfigSource = 'bundled'): TierRegistry {
+	const configTiers = config.tiers;
+	const priceIdMap = source === 'tenant' ? tenantPriceIdMap(config, 'month') : getPriceIdMap(env, config, 'month');
+	const yearlyPriceIdMap = source === 'tenant' ? tenantPriceIdMap(config, 'year') : getPriceIdMap(env, config, 'year');
+
+	const tiers = configTiers
+		.map((tier: ConfigTier): RegisteredTier => {
+			const id = tier.id || tier.name;
+			return {
+				id,
+				name: tier.name,
+				price: tier.price,
+				limit: tier.limit === 'unlimited' ? Infinity : tier.limit,
+				features: tier.features || [],
+				popular: !!tier.popular,
+				stripePriceId: priceIdMap[id] || null,
+				yearlyPrice: tier.yearlyPrice || null,
+				yearlyStripePriceId: tier.yearlyPrice ? yearlyPriceIdMap[id] || null : null,
+				trialDays: tier.price > 0 && tier.trialDays ? tier.trialDays : null,
+				rateLimit: resolveRateLimit(tier.rateLimit),
+				usagePeriod: tier.usagePeriod || 'month',
+				overage: tier.overage || null,
+				usageAlerts: tier.limit === 'unlimited'
+					? []
+					: [...new Set(tier.usageAlerts ?? DEFAULT_USAGE_ALERTS)].sort((a, b) => a - b),
+				entitlements: resolveEntitlements(tier.entitlements),
+			};
+		})
+		.sort((a, b) => a.price - b.price);
+
+	const byId: Record<string, RegisteredTier> = {};
+	for (const tier of tiers) {
+		byId[tier.id] = tier;
+	}
+
+	return {
+		tiers,
+		byId,
+		defaultTier: tiers.find((t) => t.price === 0) || tiers[0],
+	};
+}
+
+/**
+ * Merge a tier's optional rateLimit over the defaults from tiers.ts
+ *
+ * Also used for plans that aren't in the registry, so rate limiting never
+ * depends on the plan being valid.
+ */
+export function resolveRateLimit(rateLimit?: Partial<TierRateLimit>): TierRateLimit {
+	return {
+		perMinute: rateLimit?.perMinute ?? RATE_LIMIT_PER_MINUTE,
+		burst: rateLimit?.burst ?? RATE_LIMIT_BURST,
+	};
+}
+
+/**
+ * Look up a tier by ID
+ *
+ * Returns undefined for unknown plans - callers must handle that explicitly
+ * instead of falling back to a limit of 0.
+ */
+export function findTier(registry: TierRegistry, tierId: string | undefined | null): RegisteredTier | undefined {
+	if (!tierId) return undefined;
+	return registry.byId[tierId];
+}
+
+/**
+ * Reverse lookup: Stripe price ID → tier (monthly or yearly price)
+ *
+ * Uses the same price IDs the registry was built from (config.ts, else
+ * getPriceIdMap's STRIPE_PRICE_ID_* fallback; tenant configs only their own).
+ * Metered overage prices are not tiers and return undefined.
+ */
+export function findTierByPriceId(
+	registry: TierRegistry,
+	priceId: string | undefined | null
+): RegisteredTier | undefined {
+	if (!priceId) return undefined;
+	return registry.tiers.find((t) => t.stripePriceId === priceId || t.yearlyStripePriceId === priceId);
+}
+
+/**
+ * Stripe price ID for a tier and billing interval (null if not offered)
+ */
+export function getTierPriceId(tier: RegisteredTier, interval: BillingInterval): string | null {
+	return interval === 'year' ? tier.yearlyStripePriceId : tier.stripePriceId;
+}
+
+/**
+ * Price per billing interval (null if not offered)
+ */
+export function getTierPrice(tier: RegisteredTier, interval: BillingInterval): number | null {
+	return interval === 'year' ? tier.yearlyPrice : tier.price;
+}
+
+/**
+ * Human-readable message for an unknown plan (used in 4xx/5xx responses and logs)
+ */
+export function unknownTierMessage(registry: TierRegistry, tierId: string): string {
+	const known = registry.tiers.map((t) => t.id).join(', ') || '(none)';
+	return `Plan "${tierId}" is not configured. Known plans: ${known}`;
+}
+
+/**
+ * Validate the tier registry against the environment
+ *
+ * Cloudflare Workers have no startup phase, so this runs on every request while
+ * resolving the tenant (see services/tenant.ts). A misconfigured deploy fails
+ * loudly on the first request instead of silently locking users out.
+ *
+ * CHECKS:
+ * - At least one tier is configured
+ * - Tier IDs match TIER_ID_PATTERN and are unique
+ * - Limits are non-negative numbers (or "unlimited")
+ * - Rate limits (if set) are positive integers
+ * - usagePeriod (if set) is week, month, quarter or year
+ * - overage (if set) is on a paid tier with a numeric limit (the included
+ *   amount) and has a metered price ID and meter event name
+ * - Every paid tier has a Stripe price ID
+ * - yearlyPrice (if set) is on a paid tier and has a yearly price ID
+ * - trialDays (if set) is on a paid tier and between 1 and 730 (Stripe's max)
+ * - usageAlerts (if set) are whole percentages between 1 and 1000
+ * - entitlements (if set) have snake_case keys and true/false, a
+ *   non-negative number or "unlimited" as values - the same key is a
+ *   boolean on every tier or a number on every tier
+ * - config.ts and STRIPE_PRICE_ID_* env vars agree (same price ID if both set)
+ *
+ * WARNINGS (logged, the Worker keeps serving):
+ * - An env price ID for a tier that config.ts doesn't know about (e.g. a
+ *   leftover STRIPE_PRICE_ID_ENTERPRISE) - unused, so pricing isn't affected
+ *
+ * Tenant configs skip the env checks (no env fallback for tenants), so every
+ * paid tenant tier must have its own stripePriceId.
+ *
+ * @param env - Worker environment
+ * @param config - config.ts (loadConfig) or a tenant config from KV
+ * @param source - Where config came from (default: bundled config.ts)
+ * @returns Object with validation status, problems (errors) and warnings
+ */
+export function validateTierRegistry(
+	env: Env,
+	config: Config,
+	source: ConfigSource = 'bundled'
+): { valid: boolean; errors: string[]; warnings: string[] } {
+	const errors: string[] = [];
+	const warnings: string[] = [];
+	const isTenant = source === 'tenant';
+	const configTiers = config.tiers || [];
+
+	if (configTiers.length === 0) {
+		errors.push(
+			isTenant
+				? 'No tiers configured for this tenant'
+				: 'No tiers configured in config/config.ts (copy config.sample.json for local dev)'
+		);
+		return { valid: false, errors, warnings };
+	}
+
+	const seen = new Set<string>();
+	const entitlementKinds: Record<string, string> = {};
+	for (const tier of configTiers) {
+		const id = tier.id || tier.name;
+
+		if (!id || !TIER_ID_PATTERN.test(id)) {
+			errors.push(`Invalid tier ID "${id}" (must match ${TIER_ID_PATTERN})`);
+		}
+		if (seen.has(id)) {
+			errors.push(`Duplicate tier ID "${id}"`);
+		}
+		seen.add(id);
+
+		if (tier.limit !== 'unlimited' && (typeof tier.limit !== 'number' || tier.limit < 0)) {
+			errors.push(`Tier "${id}" has invalid limit: ${JSON.stringify(tier.limit)}`);
+		}
+
+		if (tier.usagePeriod && !USAGE_PERIODS.includes(tier.usagePeriod)) {
+			errors.push(`Tier "${id}" has invalid usagePeriod: ${JSON.stringify(tier.usagePeriod)}`);
+		}
+
+		if (tier.yearlyPrice !== undefined && tier.yearlyPrice !== null) {
+			if (typeof tier.yearlyPrice !== 'number' || tier.yearlyPrice <= 0 || tier.price <= 0) {
+				errors.push(`Tier "${id}" has invalid yearlyPrice: ${JSON.stringify(tier.yearlyPrice)} (paid tiers only)`);
+			}
+		}
+
+		if (tier.trialDays !== undefined && tier.trialDays !== null) {
+			if (!Number.isInteger(tier.trialDays) || tier.trialDays < 1 || tier.trialDays > MAX_TRIAL_DAYS || tier.price <= 0) {
+				errors.push(`Tier "${id}" has invalid trialDays: ${JSON.stringify(tier.trialDays)} (paid tiers, 1-${MAX_TRIAL_DAYS})`);
+			}
+		}
+
+		if (tier.usageAlerts !== undefined) {
+			const alerts = Array.isArray(tier.usageAlerts) ? tier.usageAlerts : [tier.usageAlerts];
+			if (alerts.some((p) => !Number.isInteger(p) || p < 1 || p > MAX_USAGE_ALERT_PERCENT)) {
+				errors.push(`Tier "${id}" has invalid usageAlerts: ${JSON.stringify(tier.usageAlerts)} (percentages, 1-${MAX_USAGE_ALERT_PERCENT})`);
+			}
+		}
+
+		for (const [key, value] of Object.entries(tier.entitlements || {})) {
+			const kind = typeof value === 'boolean' ? 'boolean' : 'number';
+			if (!ENTITLEMENT_KEY_PATTERN.test(key)) {
+				errors.push(`Tier "${id}" has invalid entitlement key "${key}" (must match ${ENTITLEMENT_KEY_PATTERN})`);
+			} else if (typeof value !== 'boolean' && value !== 'unlimited' && (typeof value !== 'number' || !(value >= 0))) {
+				errors.push(`Tier "${id}" has invalid entitlement ${key}: ${JSON.stringify(value)} (true/false, a number >= 0 or "unlimited")`);
+			} else if (entitlementKinds[key] && entitlementKinds[key] !== kind) {
+				errors.push(`Entitlement "${key}" is a ${entitlementKinds[key]} on one tier and a ${kind} on tier "${id}"`);
+			} else {
+				entitlementKinds[key] = kind;
+			}
+		}
+
+		if (tier.overage) {
+			if (tier.price <= 0 || typeof tier.limit !== 'number') {
+				errors.push(`Tier "${id}" has overage but is not a paid tier with a numeric limit`);
+			}
+			if (!tier.overage.stripePriceId || !tier.overage.meterEventName) {
+				errors.push(`Tier "${id}" overage needs stripePriceId and meterEventName`);
+			}
+		}
+
+		for (const [field, value] of Object.entries(tier.rateLimit || {})) {
+			if (!Number.isInteger(value) || (value as number) < 1) {
+				errors.push(`Tier "${id}" has invalid rateLimit.${field}: ${JSON.stringify(value)}`);
+			}
+		}
+
+		if (isTenant) {
+			if (tier.price > 0 && !tier.stripePriceId) {
+				errors.push(`Paid tier "${id}" has no stripePriceId`);
+			}
+			if (tier.yearlyPrice && !tier.yearlyStripePriceId) {
+				errors.push(`Tier "${id}" has a yearlyPrice but no yearlyStripePriceId`);
+			}
+			continue;
+		}
+
+		const envYearlyPriceId = getEnvString(env, priceIdEnvKey(id, 'year'));
+		if (tier.yearlyPrice && !tier.yearlyStripePriceId && !envYearlyPriceId) {
+			errors.push(`Tier "${id}" has a yearlyPrice but no yearly price ID (config.ts or ${priceIdEnvKey(id, 'year')})`);
+		}
+		if (tier.yearlyStripePriceId && envYearlyPriceId && tier.yearlyStripePriceId !== envYearlyPriceId) {
+			errors.push(
+				`Tier "${id}" yearly price ID mismatch: config.ts has ${tier.yearlyStripePriceId}, ${priceIdEnvKey(id, 'year')} has ${envYearlyPriceId}`
+			);
+		}
+
+		const envPriceId = getEnvString(env, priceIdEnvKey(id));
+		if (tier.price > 0 && !tier.stripePriceId && !envPriceId) {
+			errors.push(`Paid tier "${id}" has no Stripe price ID (config.ts or ${priceIdEnvKey(id)})`);
+		}
+		if (tier.stripePriceId && envPriceId && tier.stripePriceId !== envPriceId) {
+			errors.push(
+				`Tier "${id}" price ID mismatch: config.ts has ${tier.stripePriceId}, ${priceIdEnvKey(id)} has ${envPriceId}`
+			);
+		}
+	}
+
+	if (isTenant) {
+		return { valid: errors.length === 0, errors, warnings };
+	}
+
+	// Env price IDs for tiers that don't exist in config.ts
+	for (const key of Object.keys(env)) {
+		if (!key.startsWith('STRIPE_PRICE_ID_') || !getEnvString(env, key)) continue;
+		const tierId = key.slice('STRIPE_PRICE_ID_'.length).replace(/_YEARLY$/, '').toLowerCase();
+		if (!configTiers.some((t) => priceIdEnvKey(t.id || t.name) === key || priceIdEnvKey(t.id || t.name, 'year') === key)) {
+			warnings.push(`${key} is set but tier "${tierId}" is not in config.ts (ignored)`);
+		}
+	}
+
+	return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Price ID map for a tenant config (config values only, no env fallback)
+ */
+function tenantPriceIdMap(config: Config, interval: BillingInterval): Record<string, string> {
+	const priceIdMap: Record<string, string> = {};
+	for (const tier of config.tiers) {
+		const priceId = interval === 'year' ? tier.yearlyStripePriceId : tier.stripePriceId;
+		if (priceId) {
+			priceIdMap[tier.id || tier.name] = priceId;
+		}
+	}
+	return priceIdMap;
+}
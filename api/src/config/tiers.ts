@@ -1,83 +1,63 @@
 /**
  * ============================================================================
- * PRICING TIER CONFIGURATION
+ * RATE LIMIT + BILLING CONFIGURATION
  * ============================================================================
  *
- * Defines limits, pricing, and Stripe price IDs for all subscription tiers
+ * Tier definitions (names, prices, limits, Stripe price IDs) live in config.ts
+ * and are served by the tier registry - see config/tierRegistry.ts.
+ * This file only holds settings that are not part of the tier config.
  */
 
-import { Env, TierConfig } from '../types';
-
 /**
- * Tier configuration - defines limits and pricing for all tiers
+ * DEFAULT rate limits (used when a tier has no "rateLimit" in config.ts)
+ *
+ * WHAT THIS PREVENTS:
+ * - Abuse (scrapers, bots)
+ * - DDoS attempts from authenticated users
+ * - Accidental infinite loops in client code
  *
- * HOW TO ADD A NEW TIER:
- * 1. Add tier name to PlanTier type in types.ts
- * 2. Add configuration here with name, price, and limit
- * 3. Create Stripe price in dashboard for new tier
- * 4. Add price ID mapping to PRICE_ID_MAP below
- * 5. Update frontend tier displays (Landing.tsx, ChoosePlanPage.tsx, Dashboard.tsx)
+ * HOW TO SET PER-TIER RATE LIMITS:
+ * Add "rateLimit" to the tier in config.ts (either field may be omitted):
+ *   {
+ *     id: "pro",
+ *     ...
+ *     rateLimit: { perMinute: 300, burst: 50 }
+ *   }
  *
- * EXAMPLE:
- * starter: {
- *   name: 'Starter',
- *   price: 19,
- *   limit: 50  // 50 requests/month
- * }
+ * HOW TO CHANGE THE DEFAULTS:
+ * - Modify these constants
+ * - Example: export const RATE_LIMIT_PER_MINUTE = 200; // 200 req/min
  */
-export const TIER_CONFIG: Record<string, TierConfig> = {
-	free: {
-		name: 'Free',
-		price: 0,
-		limit: 6          // 6 requests/month
-	},
-	pro: {
-		name: 'Pro',
-		price: 29,
-		limit: 10         // 10 requests/month
-	},
-	developer: {
-		name: 'Developer',
-		price: 50,
-		limit: Infinity   // Unlimited requests
-	}
-};
+export const RATE_LIMIT_PER_MINUTE = 100;
 
 /**
- * Map tier names to Stripe Price IDs from environment variables
- *
- * WHY THIS EXISTS:
- * - Price IDs are secrets (set via wrangler secret put)
- * - Different environments (dev/prod) use different price IDs
- * - This maps tier name → env variable → actual Stripe price ID
- *
- * HOW TO ADD NEW TIER PRICE ID:
- * 1. Add mapping here: tierName: (env) => env.STRIPE_PRICE_ID_TIERNAME
- * 2. Add env variable to Env interface in types.ts
- * 3. Set secret: wrangler secret put STRIPE_PRICE_ID_TIERNAME
- *
- * NOTE: Free tier doesn't need a price ID (no payment required)
+ * Default burst limit (requests per burst window)
  */
-export const PRICE_ID_MAP: Record<string, (env: Env) => string> = {
-	pro: (env) => env.STRIPE_PRICE_ID_PRO || '',
-	developer: (env) => env.STRIPE_PRICE_ID_DEVELOPER || ''
-};
+export const RATE_LIMIT_BURST = 20;
 
 /**
- * Rate limit (requests per minute, applies to ALL users)
+ * Burst window length in seconds
+ */
+export const RATE_LIMIT_BURST_WINDOW_SECONDS = 10;
+
+/**
+ * DEFAULT grace period for failed payments (days)
  *
- * WHAT THIS PREVENTS:
- * - Abuse (scrapers, bots)
- * - DDoS attempts from authenticated users
- * - Accidental infinite loops in client code
+ * A subscriber whose subscription goes past_due/unpaid keeps their paid plan
+ * for this many days after the first failed payment, then gets the free
+ * tier's limits until the invoice is paid - see services/billing.ts.
  *
- * HOW TO CHANGE:
- * - Modify this constant
- * - Example: export const RATE_LIMIT_PER_MINUTE = 200; // 200 req/min
+ * Override per deploy with the BILLING_GRACE_PERIOD_DAYS env var.
+ */
+export const BILLING_GRACE_PERIOD_DAYS = 7;
+
+/**
+ * DEFAULT usage alert thresholds (% of the tier's limit)
  *
- * HOW TO MAKE PER-TIER RATE LIMITS:
- * 1. Change to object: { free: 60, pro: 200, developer: 500 }
- * 2. Update checkRateLimit in services/rateLimit.ts to accept plan parameter
- * 3. Use: const limit = RATE_LIMIT_PER_MINUTE[plan]
+ * The billing owner gets one email per threshold per usage period - see
+ * services/usageAlerts.ts. Thresholds below 100 also send the
+ * usage.threshold_reached webhook (services/webhooks.ts). Set "usageAlerts" on a tier in config.ts to
+ * override (e.g. [50, 90, 100]), or [] to turn alerts off for that tier.
+ * Unlimited tiers never get alerts.
  */
-export const RATE_LIMIT_PER_MINUTE = 100;
+export const DEFAULT_USAGE_ALERTS = [80, 100];
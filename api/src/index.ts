@@ -4,13 +4,19 @@
  * ============================================================================
  *
  * A stateless, JWT-only SaaS API with:
- * - Clerk authentication (JWT validation)
+ * - Clerk authentication (JWT validation) or per-user API keys (scripts, CI)
  * - Stripe subscription billing with webhook handling
- * - Usage tracking with monthly billing periods (stored in KV)
- * - Rate limiting (100 req/min per user)
+ * - Usage tracking in credits with monthly billing periods (atomic Durable Object counters, mirrored to KV)
+ * - Per-tier rate limiting with RateLimit-* response headers
+ * - Metered overage billing (Stripe Billing Meters, reported by a cron trigger)
  * - Dynamic CORS handling for multiple deployment environments
+ * - Multi-tenant: one Worker serves many storefronts (X-Platform-User-Id)
+ * - Team plans: seat-based subscriptions owned by a Clerk organization
+ * - Outbound webhooks: signed plan/quota events for the storefront's own backend
+ * - Product handler registry: typed product routes with metering built in (products/)
+ * - Entitlements: per-tier feature flags and caps (GET /api/entitlements)
  *
- * ARCHITECTURE: Modular (split into routes, middleware, services, config)
+ * ARCHITECTURE: Modular (split into routes, middleware, services, config, products)
  * - Easier to maintain and extend
  * - Clear separation of concerns
  * - All files bundle into one at deploy time (no performance penalty)
@@ -25,19 +31,73 @@ import { handleStripeWebhook } from './stripe-webhook';
 import { Env, PlanTier } from './types';
 
 // Configuration
-import { TIER_CONFIG, PRICE_ID_MAP, RATE_LIMIT_PER_MINUTE } from './config/tiers';
+import { findTier, resolveRateLimit } from './config/tierRegistry';
 
 // Middleware
 import { getCorsHeaders, handlePreflight } from './middleware/cors';
-import { checkRateLimit } from './middleware/rateLimit';
+import { checkRateLimit, getRateLimitHeaders } from './middleware/rateLimit';
+
+// Product handlers
+import { findProductHandler } from './products';
+
+// Services
+import { resolveTenant, getPreflightOrigins, isTenantOwner, verifyTenantBinding } from './services/tenant';
+import { reportMeteredUsage } from './services/metering';
+import { deliverWebhooks } from './services/webhooks';
+import { withIdempotency } from './services/idempotency';
+import { resolveBillingPlan } from './services/billing';
+import { isApiKey, verifyApiKey } from './services/apiKeys';
+import { canManageOrgBilling, resolveBillingAccount } from './services/organizations';
 
 // Routes
-import { handleDataRequest, handleUsageCheck } from './routes/usage';
+import { handleProductRequest, handleUsageCheck, handleUsageHistory } from './routes/usage';
+import { handleEntitlements } from './routes/entitlements';
 import { handleCreateCheckout, handleCustomerPortal } from './routes/checkout';
+import {
+	handleSubscriptionPreview,
+	handleSubscriptionChange,
+	handleSubscriptionCancel,
+	handleSubscriptionResume,
+	handleSubscriptionSeats,
+} from './routes/subscription';
+import { handleBillingInvoices, handleBillingPaymentMethod } from './routes/billing';
+import { handleListApiKeys, handleCreateApiKey, handleUpdateApiKey, handleRevokeApiKey } from './routes/apiKeys';
+import {
+	handleListWebhookEndpoints,
+	handleCreateWebhookEndpoint,
+	handleDeleteWebhookEndpoint,
+	handleListWebhookDeliveries,
+	handleGetWebhookDelivery,
+} from './routes/webhooks';
 
 // Utilities
 import { validateEnv } from './utils';
 
+// Durable Objects (must be exported from the main module)
+export { UsageCounter } from './services/usageCounter';
+
+/**
+ * Cron schedules (wrangler.toml [triggers])
+ */
+const METERING_CRON = '*/15 * * * *';
+const WEBHOOKS_CRON = '* * * * *';
+
+/**
+ * Routes that manage the billing owner's subscription (org owners/admins only
+ * on team plans - see services/organizations.ts)
+ */
+const BILLING_PATHS = [
+	'/api/create-checkout',
+	'/api/subscription/preview',
+	'/api/subscription/change',
+	'/api/subscription/seats',
+	'/api/subscription/cancel',
+	'/api/subscription/resume',
+	'/api/billing/invoices',
+	'/api/billing/payment-method',
+	'/api/customer-portal',
+];
+
 // ============================================================================
 // MAIN FETCH HANDLER
 // ============================================================================
@@ -47,22 +107,25 @@ export default {
 	 * Main request handler for Cloudflare Worker
 	 *
 	 * FLOW:
-	 * 1. Validate environment variables (fails fast if misconfigured)
-	 * 2. Handle CORS preflight (OPTIONS requests)
-	 * 3. Check health endpoint (no auth required)
-	 * 4. Handle Stripe webhook (signature verification, no JWT)
-	 * 5. Verify JWT token for protected routes
-	 * 6. Check rate limiting (100 req/min per user)
+	 * 1. Validate environment variables (fails fast if misconfigured), serve /health
+	 * 2. Handle CORS preflight (OPTIONS) and Stripe webhook (signature verification, no JWT)
+	 * 3. Resolve tenant from X-Platform-User-Id (config, tier registry, CORS origins)
+	 *    and serve public endpoints (tiers, config)
+	 * 4. Verify JWT token (or API key) for protected routes
+	 * 5. Get plan from JWT claims / key owner's metadata - the active
+	 *    organization's plan if it has one (free limits once a failed-payment
+	 *    grace period expires)
+	 * 6. Check rate limiting (per tier: per-minute + burst windows, RateLimit-* headers)
 	 * 7. Route to appropriate handler
 	 *
 	 * SECURITY:
 	 * - Security headers on all responses (CSP, HSTS, X-Frame-Options, etc)
 	 * - Dynamic CORS validation (no wildcard)
-	 * - JWT verification on every protected request
-	 * - Rate limiting per user
+	 * - JWT (or hashed API key) verification on every protected request
+	 * - Rate limiting per user (per tier)
 	 * - Stripe webhook signature verification
 	 */
-	async fetch(request: Request, env: Env): Promise<Response> {
+	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
 		// ====================================================================
 		// STEP 1: VALIDATE ENVIRONMENT (Fast Fail)
 		// ====================================================================
@@ -82,40 +145,70 @@ export default {
 			);
 		}
 
+		const url = new URL(request.url);
+
+		// Health check endpoint
+		// Served before tenant resolution so a broken tier config doesn't
+		// take the health check down with it
+		if (url.pathname === '/health') {
+			return new Response(JSON.stringify({ status: 'ok' }), {
+				headers: { ...getCorsHeaders(request, env), 'Content-Type': 'application/json' },
+			});
+		}
+
 		// ====================================================================
-		// STEP 2: CORS HANDLING (Dynamic Origin Validation)
+		// STEP 2: CORS PREFLIGHT + STRIPE WEBHOOK (No Tenant Header)
 		// ====================================================================
-		const corsHeaders = getCorsHeaders(request, env);
 
 		// Handle CORS preflight (OPTIONS requests)
+		// Preflights carry no X-Platform-User-Id value - tenant is found by origin
 		if (request.method === 'OPTIONS') {
-			return handlePreflight(corsHeaders);
+			const preflightOrigins = await getPreflightOrigins(request, env);
+			return handlePreflight(getCorsHeaders(request, env, preflightOrigins));
 		}
 
-		const url = new URL(request.url);
+		// Stripe webhook (signature verification inside handler)
+		// Tenant comes from event metadata, not from a header
+		if (url.pathname === '/webhook/stripe' && request.method === 'POST') {
+			return await handleStripeWebhook(request, env);
+		}
 
 		// ====================================================================
-		// STEP 3: PUBLIC ENDPOINTS (No Auth Required)
+		// STEP 3: TENANT RESOLUTION + PUBLIC ENDPOINTS (No Auth Required)
 		// ====================================================================
-
-		// Health check endpoint
-		if (url.pathname === '/health') {
-			return new Response(JSON.stringify({ status: 'ok' }), {
-				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		/**
+		 * X-Platform-User-Id selects the storefront (tiers, branding, price IDs,
+		 * allowed origins). No header = bundled config.ts. The tenant's tier
+		 * config is validated here (fails fast if misconfigured) - see services/tenant.ts
+		 */
+		const tenantResult = await resolveTenant(request, env);
+		if (tenantResult.error) {
+			const { status, ...body } = tenantResult.error;
+			return new Response(JSON.stringify(body), {
+				status,
+				headers: { ...getCorsHeaders(request, env), 'Content-Type': 'application/json' },
 			});
 		}
+		const tenant = tenantResult.tenant;
+		const corsHeaders = getCorsHeaders(request, env, tenant.config.allowedOrigins);
 
 		// Get available tiers (public pricing info)
 		if (url.pathname === '/api/tiers' && request.method === 'GET') {
-			const tiers = Object.entries(TIER_CONFIG)
-				.map(([key, config]) => ({
-					id: key,
-					name: config.name,
-					price: config.price,
-					limit: config.limit === Infinity ? 'unlimited' : config.limit,
-					hasPriceId: !!PRICE_ID_MAP[key],
-				}))
-				.sort((a, b) => a.price - b.price); // Sort by price: lowest to highest
+			// Registry is already sorted by price: lowest to highest
+			const tiers = tenant.registry.tiers.map((tier) => ({
+				id: tier.id,
+				name: tier.name,
+				price: tier.price,
+				yearlyPrice: tier.yearlyPrice,
+				limit: tier.limit === Infinity ? 'unlimited' : tier.limit,
+				usagePeriod: tier.usagePeriod,
+				features: tier.features,
+				popular: tier.popular,
+				hasPriceId: !!tier.stripePriceId,
+				hasYearlyPriceId: !!tier.yearlyStripePriceId,
+				trialDays: tier.trialDays,
+				metered: !!tier.overage,
+			}));
 
 			return new Response(JSON.stringify({ tiers }), {
 				status: 200,
@@ -123,13 +216,17 @@ export default {
 			});
 		}
 
-		// Stripe webhook (signature verification inside handler)
-		if (url.pathname === '/webhook/stripe' && request.method === 'POST') {
-			return await handleStripeWebhook(request, env);
+		// Get tenant's public config (branding, product, tiers)
+		if (url.pathname === '/api/config' && request.method === 'GET') {
+			const { branding, product, tiers } = tenant.config;
+			return new Response(JSON.stringify({ branding, product, tiers }), {
+				status: 200,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			});
 		}
 
 		// ====================================================================
-		// STEP 4: JWT AUTHENTICATION (Protected Routes)
+		// STEP 4: JWT / API KEY AUTHENTICATION (Protected Routes)
 		// ====================================================================
 		const authHeader = request.headers.get('Authorization');
 		if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -146,48 +243,72 @@ export default {
 				publishableKey: env.CLERK_PUBLISHABLE_KEY,
 			});
 
-			// Authenticate the request
-			const { toAuth } = await clerkClient.authenticateRequest(request, {
-				secretKey: env.CLERK_SECRET_KEY,
-				publishableKey: env.CLERK_PUBLISHABLE_KEY,
-			});
-
-			const auth = toAuth();
+			/**
+			 * API keys (Authorization: Bearer sk_live_...) run as the key's owner.
+			 * There is no JWT, so the plan claims come from the owner's Clerk
+			 * publicMetadata (same fields the JWT template reads) - one Clerk
+			 * API call per key request. See services/apiKeys.ts
+			 */
+			const bearerToken = authHeader.slice('Bearer '.length).trim();
+			let userId: string;
+			let sessionClaims: Record<string, unknown> | undefined;
+			let orgId: string | null = null;
+			let orgRole: string | null = null;
+			let apiKeyId: string | null = null;
+
+			if (isApiKey(bearerToken)) {
+				const apiKey = await verifyApiKey(env, tenant, bearerToken);
+				if (!apiKey) {
+					return new Response(JSON.stringify({ error: 'Invalid API key' }), {
+						status: 401,
+						headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+					});
+				}
+				const owner = await clerkClient.users.getUser(apiKey.userId);
+				userId = apiKey.userId;
+				sessionClaims = owner.publicMetadata as Record<string, unknown>;
+				apiKeyId = apiKey.keyId;
+			} else {
+				// Authenticate the request
+				const { toAuth } = await clerkClient.authenticateRequest(request, {
+					secretKey: env.CLERK_SECRET_KEY,
+					publishableKey: env.CLERK_PUBLISHABLE_KEY,
+				});
+
+				const auth = toAuth();
+
+				if (!auth || !auth.userId) {
+					throw new Error('Unauthorized');
+				}
 
-			if (!auth || !auth.userId) {
-				throw new Error('Unauthorized');
+				userId = auth.userId;
+				sessionClaims = auth.sessionClaims as Record<string, unknown>;
+				orgId = auth.orgId || (sessionClaims?.org_id as string) || null;
+				orgRole = auth.orgRole || (sessionClaims?.org_role as string) || null;
 			}
 
-			const userId = auth.userId;
-
-			// ====================================================================
-			// STEP 5: RATE LIMITING (100 req/min per user)
-			// ====================================================================
-			const rateCheck = await checkRateLimit(userId, env);
-			if (!rateCheck.allowed) {
-				return new Response(
-					JSON.stringify({
-						error: 'Rate limit exceeded',
-						message: `Maximum ${RATE_LIMIT_PER_MINUTE} requests per minute`,
-						retryAfter: 60,
-					}),
-					{
-						status: 429,
-						headers: {
-							...corsHeaders,
-							'Content-Type': 'application/json',
-							'Retry-After': '60',
-						},
-					}
-				);
+			// The tenant header is unauthenticated - the user must belong to it
+			// (publicMetadata.tenantId, bound on first use - see services/tenant.ts)
+			const tenantError = await verifyTenantBinding(tenant, userId, sessionClaims, clerkClient);
+			if (tenantError) {
+				const { status, ...body } = tenantError;
+				return new Response(JSON.stringify(body), {
+					status,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
 			}
 
 			// ====================================================================
-			// STEP 6: GET PLAN FROM JWT CLAIMS (SSOT - No extra API call!)
+			// STEP 5: GET PLAN FROM JWT CLAIMS (SSOT - No extra API call!)
 			// ====================================================================
 			/**
 			 * Plan is already in the JWT from Clerk's "pan-api" template
-			 * Template config: { "plan": "{{user.public_metadata.plan}}" }
+			 * Template config: {
+			 *   "plan": "{{user.public_metadata.plan}}",
+			 *   "billingStatus": "{{user.public_metadata.billingStatus}}",
+			 *   "pastDueSince": "{{user.public_metadata.pastDueSince}}",
+			 *   "tenantId": "{{user.public_metadata.tenantId}}"
+			 * }
 			 *
 			 * WHY NOT call clerkClient.users.getUser()?
 			 * - JWT is already verified and decoded
@@ -200,50 +321,224 @@ export default {
 			 * - Stripe webhook updates Clerk publicMetadata
 			 * - User gets new JWT on next sign-in/token refresh
 			 * - New JWT includes updated plan automatically
+			 *
+			 * Team plans: if the active organization has a plan (orgPlan claim),
+			 * the organization is billed and its usage pool is used instead -
+			 * see services/organizations.ts. API keys always use the personal plan.
 			 */
-			let plan = (auth.sessionClaims as any)?.plan;
+			const account = resolveBillingAccount(userId, sessionClaims, orgId, orgRole);
+			let plan = account.claims.plan as PlanTier | undefined;
 
-			// If no plan in JWT, default to first tier (free tier - price=0)
+			// If no plan in JWT, default to the registry's default tier (free tier - price=0)
+			// Unknown plans are NOT defaulted here - usage routes reject them explicitly
 			if (!plan) {
-				const { getAllTiers } = await import('./config/configLoader');
-				const allTiers = await getAllTiers();
-				const freeTier = allTiers.find(t => t.price === 0) || allTiers[0];
-				plan = (freeTier?.id || freeTier?.name) as PlanTier;
+				plan = tenant.registry.defaultTier?.id || 'free';
 				console.log(`ℹ️  No plan in JWT, defaulting to: ${plan}`);
 			}
 
-			console.log(`✅ User ${userId} authenticated with plan: ${plan} (from JWT)`);
+			console.log(
+				`✅ User ${userId} authenticated with plan: ${plan} (${apiKeyId ? `API key ${apiKeyId}` : 'from JWT'}` +
+				`${account.type === 'org' ? `, organization ${account.id} as ${account.orgRole}` : ''})`
+			);
+
+			/**
+			 * Failed payments: past_due/unpaid subscribers keep their plan during
+			 * the grace period, then get the default (free) tier's limits until
+			 * they pay - see services/billing.ts
+			 */
+			const billing = resolveBillingPlan(plan, account.claims, tenant.registry, env);
+			plan = billing.plan;
+
+			// ====================================================================
+			// STEP 6: RATE LIMITING (per tier, per user)
+			// ====================================================================
+			/**
+			 * Limits come from the tier's rateLimit in config.ts (defaults in
+			 * config/tiers.ts). Unknown plans get the defaults - usage routes
+			 * reject them, but they still count against the rate limit.
+			 */
+			const tierRateLimit = findTier(tenant.registry, plan)?.rateLimit || resolveRateLimit();
+			const rateCheck = await checkRateLimit(userId, env, tenant, tierRateLimit);
+			if (!rateCheck.allowed) {
+				return new Response(
+					JSON.stringify({
+						error: 'Rate limit exceeded',
+						message: `Rate limit exceeded (${rateCheck.policy}). Try again in ${rateCheck.reset}s`,
+						retryAfter: rateCheck.reset,
+					}),
+					{
+						status: 429,
+						headers: {
+							...corsHeaders,
+							...getRateLimitHeaders(rateCheck),
+							'Content-Type': 'application/json',
+							'Retry-After': rateCheck.reset.toString(),
+						},
+					}
+				);
+			}
+
+			// Every authenticated response carries RateLimit-* headers
+			const responseHeaders = { ...corsHeaders, ...getRateLimitHeaders(rateCheck) };
 
 			// ====================================================================
 			// STEP 7: ROUTE TO HANDLERS
 			// ====================================================================
 
-			// Process request and track usage
-			if (url.pathname === '/api/data' && request.method === 'POST') {
-				return await handleDataRequest(userId, plan, env, corsHeaders);
+			// Usage is counted against the billing owner (pooled for team plans)
+			// Product routes: /api/data + every registered handler (products/index.ts)
+			// Idempotency-Key retries replay the first response without counting
+			// again - see services/idempotency.ts
+			const productHandler = request.method === 'POST' ? findProductHandler(url.pathname) : undefined;
+			if (productHandler) {
+				return await withIdempotency(request, env, tenant, userId, responseHeaders, () =>
+					handleProductRequest(productHandler, account.id, plan, env, responseHeaders, tenant, request, ctx)
+				);
 			}
 
 			// Get current usage and limits
 			if (url.pathname === '/api/usage' && request.method === 'GET') {
-				return await handleUsageCheck(userId, plan, env, corsHeaders);
+				return await handleUsageCheck(account.id, plan, env, responseHeaders, tenant, billing);
+			}
+
+			// Usage over time (daily buckets or past periods)
+			if (url.pathname === '/api/usage/history' && request.method === 'GET') {
+				return await handleUsageHistory(account.id, plan, env, responseHeaders, tenant, url);
+			}
+
+			// Feature flags / caps of the caller's plan
+			if (url.pathname === '/api/entitlements' && request.method === 'GET') {
+				return await handleEntitlements(plan, responseHeaders, tenant);
+			}
+
+			// Team plans: only owners/admins manage the organization's billing
+			if (BILLING_PATHS.includes(url.pathname) && account.type === 'org' && !canManageOrgBilling(account.orgRole)) {
+				return new Response(
+					JSON.stringify({
+						error: 'Forbidden',
+						message: 'Only organization owners and admins can manage billing',
+					}),
+					{
+						status: 403,
+						headers: { ...responseHeaders, 'Content-Type': 'application/json' },
+					}
+				);
 			}
 
 			// Create Stripe Checkout session (upgrade flow)
 			if (url.pathname === '/api/create-checkout' && request.method === 'POST') {
 				const origin = request.headers.get('Origin') || '';
-				return await handleCreateCheckout(userId, clerkClient, env, corsHeaders, origin, request);
+				return await handleCreateCheckout(account, clerkClient, env, responseHeaders, origin, request, tenant);
+			}
+
+			// Preview a plan change for an existing subscription (proration)
+			if (url.pathname === '/api/subscription/preview' && request.method === 'POST') {
+				return await handleSubscriptionPreview(account.id, clerkClient, env, responseHeaders, request, tenant);
+			}
+
+			// Change the plan of an existing subscription (upgrade now / downgrade at period end)
+			if (url.pathname === '/api/subscription/change' && request.method === 'POST') {
+				return await handleSubscriptionChange(account.id, clerkClient, env, responseHeaders, request, tenant);
+			}
+
+			// Change the seats of a team subscription (org owners/admins)
+			if (url.pathname === '/api/subscription/seats' && request.method === 'POST') {
+				return await handleSubscriptionSeats(account.id, clerkClient, env, responseHeaders, request, tenant);
+			}
+
+			// Cancel at the end of the current period (optional reason + feedback)
+			if (url.pathname === '/api/subscription/cancel' && request.method === 'POST') {
+				return await handleSubscriptionCancel(account.id, clerkClient, env, responseHeaders, request, tenant);
+			}
+
+			// Undo a pending cancellation
+			if (url.pathname === '/api/subscription/resume' && request.method === 'POST') {
+				return await handleSubscriptionResume(account.id, clerkClient, env, responseHeaders);
+			}
+
+			// Invoice / payment history (Billing page)
+			if (url.pathname === '/api/billing/invoices' && request.method === 'GET') {
+				return await handleBillingInvoices(account.id, clerkClient, env, responseHeaders, url);
+			}
+
+			// Card on file (brand + last4)
+			if (url.pathname === '/api/billing/payment-method' && request.method === 'GET') {
+				return await handleBillingPaymentMethod(account.id, clerkClient, env, responseHeaders);
+			}
+
+			// API key management needs a Clerk session (a key can't mint or revoke keys)
+			if (url.pathname === '/api/keys' || url.pathname.startsWith('/api/keys/')) {
+				if (apiKeyId) {
+					return new Response(
+						JSON.stringify({ error: 'Forbidden', message: 'API keys are managed from a signed-in session' }),
+						{
+							status: 403,
+							headers: { ...responseHeaders, 'Content-Type': 'application/json' },
+						}
+					);
+				}
+
+				if (url.pathname === '/api/keys' && request.method === 'GET') {
+					return await handleListApiKeys(userId, env, responseHeaders, tenant);
+				}
+				if (url.pathname === '/api/keys' && request.method === 'POST') {
+					return await handleCreateApiKey(userId, env, responseHeaders, request, tenant);
+				}
+
+				const keyId = decodeURIComponent(url.pathname.slice('/api/keys/'.length));
+				if (keyId && request.method === 'PATCH') {
+					return await handleUpdateApiKey(userId, keyId, env, responseHeaders, request, tenant);
+				}
+				if (keyId && request.method === 'DELETE') {
+					return await handleRevokeApiKey(userId, keyId, env, responseHeaders, tenant);
+				}
+			}
+
+			// Outbound webhook endpoints + delivery log (storefront owner only)
+			if (url.pathname === '/api/webhooks/endpoints' || url.pathname.startsWith('/api/webhooks/endpoints/')) {
+				if (!isTenantOwner(tenant, userId)) {
+					return new Response(
+						JSON.stringify({ error: 'Forbidden', message: 'Only the storefront owner can manage webhooks' }),
+						{
+							status: 403,
+							headers: { ...responseHeaders, 'Content-Type': 'application/json' },
+						}
+					);
+				}
+
+				if (url.pathname === '/api/webhooks/endpoints' && request.method === 'GET') {
+					return await handleListWebhookEndpoints(env, responseHeaders, tenant);
+				}
+				if (url.pathname === '/api/webhooks/endpoints' && request.method === 'POST') {
+					return await handleCreateWebhookEndpoint(userId, env, responseHeaders, request, tenant);
+				}
+
+				// /api/webhooks/endpoints/:id[/deliveries[/:deliveryId]]
+				const [endpointId, section, deliveryId] = url.pathname
+					.slice('/api/webhooks/endpoints/'.length)
+					.split('/')
+					.map(decodeURIComponent);
+				if (endpointId && !section && request.method === 'DELETE') {
+					return await handleDeleteWebhookEndpoint(userId, endpointId, env, responseHeaders, tenant);
+				}
+				if (endpointId && section === 'deliveries' && !deliveryId && request.method === 'GET') {
+					return await handleListWebhookDeliveries(endpointId, env, responseHeaders, tenant, url);
+				}
+				if (endpointId && section === 'deliveries' && deliveryId && request.method === 'GET') {
+					return await handleGetWebhookDelivery(endpointId, deliveryId, env, responseHeaders, tenant);
+				}
 			}
 
 			// Create Stripe Customer Portal session (manage subscription)
 			if (url.pathname === '/api/customer-portal' && request.method === 'POST') {
 				const origin = request.headers.get('Origin') || '';
-				return await handleCustomerPortal(userId, clerkClient, env, corsHeaders, origin);
+				return await handleCustomerPortal(account.id, clerkClient, env, responseHeaders, origin);
 			}
 
 			// 404 - Route not found
 			return new Response(JSON.stringify({ error: 'Not found' }), {
 				status: 404,
-				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				headers: { ...responseHeaders, 'Content-Type': 'application/json' },
 			});
 		} catch (error) {
 			console.error('Token verification failed:', error);
@@ -253,4 +548,32 @@ export default {
 			});
 		}
 	},
+
+	// ========================================================================
+	// SCHEDULED HANDLER (Cron Trigger - see wrangler.toml [triggers])
+	// ========================================================================
+
+	/**
+	 * - Every 15 minutes: report metered overage to Stripe in batches (see services/metering.ts)
+	 * - Every minute: send due outbound webhook deliveries (see services/webhooks.ts)
+	 */
+	async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+		if (controller.cron === METERING_CRON) {
+			ctx.waitUntil(
+				reportMeteredUsage(env).then(({ reported, failed }) => {
+					console.log(`[Metering] ${controller.cron}: reported ${reported} batches, ${failed} failed`);
+				})
+			);
+		}
+
+		if (controller.cron === WEBHOOKS_CRON) {
+			ctx.waitUntil(
+				deliverWebhooks(env).then(({ delivered, retrying, failed }) => {
+					if (delivered || retrying || failed) {
+						console.log(`[Webhooks] ${controller.cron}: ${delivered} delivered, ${retrying} retrying, ${failed} failed`);
+					}
+				})
+			);
+		}
+	},
 };
@@ -8,6 +8,8 @@
 
 import { Env } from '../types';
 import { getSecurityHeaders } from './security';
+import { TENANT_HEADER } from '../services/tenant';
+import { IDEMPOTENCY_HEADER, IDEMPOTENT_REPLAY_HEADER } from '../services/idempotency';
 
 /**
  * CORS STRATEGY: Dynamic origin validation (no wildcard)
@@ -53,6 +55,11 @@ import { getSecurityHeaders } from './security';
  * Option C: Add regex pattern (for wildcard subdomains)
  *   /^https:\/\/[a-z0-9-]+\.myapp\.com$/.test(origin)
  *
+ * Option D: Per-tenant origins (multi-tenant deployments)
+ *   Add allowedOrigins[] to the tenant's KV config - see services/tenant.ts.
+ *   When a tenant defines allowedOrigins they REPLACE the env/default list
+ *   for that tenant's requests (regex patterns stay active).
+ *
  * SECURITY NOTES:
  * ------------------------------------------------
  * - Origins aren't "secrets" (visible in Network tab)
@@ -60,7 +67,11 @@ import { getSecurityHeaders } from './security';
  * - Preview URLs use regex to avoid hardcoding thousands of hashes
  * - Localhost only allowed in dev (remove for production if needed)
  */
-export function getCorsHeaders(request: Request, env: Env): Record<string, string> {
+export function getCorsHeaders(
+	request: Request,
+	env: Env,
+	tenantOrigins?: string[]
+): Record<string, string> {
 	const origin = request.headers.get('Origin') || '';
 
 	// Parse allowed origins from env var OR use defaults
@@ -70,7 +81,9 @@ export function getCorsHeaders(request: Request, env: Env): Record<string, strin
 		'http://localhost:8787',               // Wrangler dev (api)
 	];
 
-	const allowedOrigins = env.ALLOWED_ORIGINS
+	const allowedOrigins = tenantOrigins && tenantOrigins.length > 0
+		? tenantOrigins                                       // Tenant config from KV
+		: env.ALLOWED_ORIGINS
 		? env.ALLOWED_ORIGINS.split(',').map(o => o.trim()) // Parse from env var
 		: defaultAllowedOrigins;                             // Fall back to defaults
 
@@ -92,8 +105,10 @@ export function getCorsHeaders(request: Request, env: Env): Record<string, strin
 	return {
 		// If origin allowed, echo it back. Otherwise, use first allowed origin as safe fallback
 		'Access-Control-Allow-Origin': isAllowedOrigin ? origin : allowedOrigins[0],
-		'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-		'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+		'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+		'Access-Control-Allow-Headers': `Content-Type, Authorization, ${TENANT_HEADER}, ${IDEMPOTENCY_HEADER}`,
+		// Let frontend JS read rate limit info (see middleware/rateLimit.ts) and spot replays
+		'Access-Control-Expose-Headers': `RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy, Retry-After, ${IDEMPOTENT_REPLAY_HEADER}`,
 		'Access-Control-Max-Age': '86400', // Cache preflight for 24 hours
 		...getSecurityHeaders(), // Add security headers to all responses
 	};
@@ -3,58 +3,115 @@
  * RATE LIMITING MIDDLEWARE
  * ============================================================================
  *
- * Per-user rate limiting using Cloudflare KV for distributed state
+ * Per-user, per-tier rate limiting using the user's UsageCounter Durable Object
  */
 
-import { Env } from '../types';
-import { RATE_LIMIT_PER_MINUTE } from '../config/tiers';
+import { Env, TierRateLimit } from '../types';
+import { RATE_LIMIT_BURST_WINDOW_SECONDS } from '../config/tiers';
+import { Tenant } from '../services/tenant';
+import { consumeRateLimit } from '../services/usageCounter';
 
 /**
- * Rate limiting check using KV storage
+ * Result of a rate limit check
+ *
+ * limit/remaining/reset describe the window closest to exhaustion (or the
+ * exceeded window when allowed = false) - that's what RateLimit-* headers report.
+ */
+export interface RateLimitResult {
+	allowed: boolean;
+	limit: number;      // Request quota of the reported window
+	remaining: number;  // Requests left in the reported window
+	reset: number;      // Seconds until the reported window resets
+	policy: string;     // All windows, e.g. "100;w=60, 20;w=10"
+}
+
+/**
+ * Rate limiting check using the user's UsageCounter Durable Object
  *
  * ALGORITHM:
- * - Uses per-minute buckets: ratelimit:{userId}:{minute}
- * - Minute calculated as: Math.floor(Date.now() / 60000)
- * - TTL of 2 minutes ensures cleanup without manual deletion
+ * - Two fixed windows per user, both must have room:
+ *   - Minute: minute:{bucket}   (tier rateLimit.perMinute)
+ *   - Burst:  burst:{bucket}    (tier rateLimit.burst)
+ * - Buckets calculated as: Math.floor(Date.now() / windowMs)
+ * - Check-and-increment happens inside the Durable Object (one per user per
+ *   tenant), so concurrent requests can't both slip under the limit
+ * - Old buckets are dropped automatically (see UsageCounter.rateLimit)
  *
  * HOW TO MODIFY RATE LIMITS:
- * - Change RATE_LIMIT_PER_MINUTE constant in config/tiers.ts
- * - Example: export const RATE_LIMIT_PER_MINUTE = 200; // 200 req/min
- *
- * HOW TO MAKE PER-TIER RATE LIMITS:
- * 1. Change RATE_LIMIT_PER_MINUTE to object in config/tiers.ts:
- *    { free: 60, pro: 200, developer: 500 }
- * 2. Add plan parameter to this function
- * 3. Use: const limit = RATE_LIMIT_PER_MINUTE[plan]
+ * - Per tier: add rateLimit: { perMinute, burst } to the tier in config.ts
+ * - Defaults: RATE_LIMIT_PER_MINUTE / RATE_LIMIT_BURST in config/tiers.ts
  *
  * HOW TO CHANGE TIME WINDOW:
- * - For per-hour: Math.floor(now / 3600000) + TTL 7200
- * - For per-day: Math.floor(now / 86400000) + TTL 172800
+ * - Burst window: RATE_LIMIT_BURST_WINDOW_SECONDS in config/tiers.ts
+ * - For per-hour: add a window with seconds: 3600
  *
  * @param userId - Clerk user ID from JWT
- * @param env - Environment (for KV access)
- * @returns allowed: boolean, remaining: number of requests left
+ * @param env - Environment (for Durable Object access)
+ * @param tenant - Resolved tenant (object namespace)
+ * @param limits - Rate limits of the user's tier
+ * @returns Rate limit result (see RateLimitResult)
  */
 export async function checkRateLimit(
 	userId: string,
-	env: Env
-): Promise<{ allowed: boolean; remaining: number }> {
+	env: Env,
+	tenant: Tenant,
+	limits: TierRateLimit
+): Promise<RateLimitResult> {
 	const now = Date.now();
-	const minute = Math.floor(now / 60000); // Current minute bucket
-	const rateLimitKey = `ratelimit:${userId}:${minute}`;
 
-	// Get current count from KV
-	const currentCount = await env.USAGE_KV.get(rateLimitKey);
-	const count = currentCount ? parseInt(currentCount) : 0;
+	const windows = [
+		{ name: 'minute', seconds: 60, limit: limits.perMinute },
+		{ name: 'burst', seconds: RATE_LIMIT_BURST_WINDOW_SECONDS, limit: limits.burst },
+	].map((w) => {
+		const windowMs = w.seconds * 1000;
+		const bucket = Math.floor(now / windowMs);
+		return {
+			...w,
+			id: `${w.name}:${bucket}`,
+			reset: Math.ceil(((bucket + 1) * windowMs - now) / 1000),
+		};
+	});
+	const policy = windows.map((w) => `${w.limit};w=${w.seconds}`).join(', ');
 
-	// Check if limit exceeded
-	if (count >= RATE_LIMIT_PER_MINUTE) {
-		return { allowed: false, remaining: 0 };
+	// Atomic check-and-increment (counts are BEFORE this request)
+	const { allowed, counts } = await consumeRateLimit(
+		env,
+		tenant,
+		userId,
+		windows.map((w) => ({ id: w.id, limit: w.limit }))
+	);
+	const states = windows.map((w, i) => ({ ...w, count: counts[i] }));
+
+	// Limit exceeded: report the exhausted window that frees up last
+	if (!allowed) {
+		const binding = states
+			.filter((s) => s.count >= s.limit)
+			.reduce((a, b) => (b.reset > a.reset ? b : a));
+		return { allowed: false, limit: binding.limit, remaining: 0, reset: binding.reset, policy };
 	}
 
-	// Increment counter with 2-minute TTL (current + next minute buffer)
-	// This ensures automatic cleanup without manual deletion
-	await env.USAGE_KV.put(rateLimitKey, (count + 1).toString(), { expirationTtl: 120 });
+	// Report the window closest to exhaustion
+	const binding = states.reduce((a, b) => (b.limit - b.count < a.limit - a.count ? b : a));
+	return {
+		allowed: true,
+		limit: binding.limit,
+		remaining: binding.limit - binding.count - 1,
+		reset: binding.reset,
+		policy,
+	};
+}
 
-	return { allowed: true, remaining: RATE_LIMIT_PER_MINUTE - count - 1 };
+/**
+ * Standard RateLimit response headers (IETF draft "RateLimit header fields")
+ *
+ * Added to every authenticated response (see index.ts). Browsers can read
+ * them because CORS exposes them (see middleware/cors.ts).
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+	return {
+		'RateLimit-Limit': result.limit.toString(),
+		'RateLimit-Remaining': result.remaining.toString(),
+		'RateLimit-Reset': result.reset.toString(),
+		'RateLimit-Policy': result.policy,
+	};
 }
@@ -0,0 +1,68 @@
+/**
+ * ============================================================================
+ * POST /api/data - Placeholder product action (operation catalog pricing)
+ * ============================================================================
+ *
+ * The starter's demo endpoint (Dashboard "Try Demo"). Priced by the
+ * operation catalog in config.ts: credits = operation credits × size - see
+ * config/operationCatalog.ts.
+ *
+ * BODY (optional): { operation?, size? }
+ * - operation: ID from the operation catalog (default: the first operation)
+ * - size: positive integer up to the operation's maxSize (default 1)
+ *
+ * Replace handle() with your product logic, or add your own handlers next
+ * to this one (products/index.ts).
+ *
+ * ============================================================================
+ */
+
+import { findOperation, getOperationCost, MAX_OPERATION_SIZE } from '../config/operationCatalog';
+import { defineProductHandler, productError } from './registry';
+
+export const dataHandler = defineProductHandler({
+	id: 'data',
+	route: '/api/data',
+	input: {
+		operation: { type: 'string', maxLength: 64 },
+		size: { type: 'integer', min: 1, max: MAX_OPERATION_SIZE },
+	},
+
+	credits(input, { tenant }) {
+		const { operations } = tenant;
+		const operation = findOperation(operations, input.operation ?? operations.defaultOperation.id);
+		if (!operation) {
+			return productError(
+				400,
+				'Unknown operation',
+				`Known operations: ${operations.operations.map((op) => op.id).join(', ')}`,
+				{ operation: input.operation }
+			);
+		}
+
+		const size = input.size ?? 1;
+		if (size > operation.maxSize) {
+			return productError(400, 'Invalid size', `size must be between 1 and ${operation.maxSize} for "${operation.id}"`);
+		}
+		return getOperationCost(operation, size);
+	},
+
+	async handle(input, ctx) {
+		// ====================================================================
+		// YOUR PRODUCT LOGIC GOES HERE
+		// ====================================================================
+		// The credits have already been reserved. Return productError(...)
+		// or throw to fail the request - the credits are refunded.
+		// Replace this placeholder with your actual business logic:
+		// - Process documents
+		// - Make API calls
+		// - Run AI models
+		// - Generate reports
+		// etc.
+		//
+		// Example:
+		// return await processDocument(ctx.ownerId, ctx.plan, input.operation, input.size);
+		// ====================================================================
+		return { message: 'Request processed successfully' };
+	},
+});
@@ -0,0 +1,32 @@
+/**
+ * ============================================================================
+ * PRODUCT HANDLERS - Every product action this API serves
+ * ============================================================================
+ *
+ * index.ts routes POST requests to these handlers by path; metering,
+ * validation and the response envelope are handled for them - see
+ * products/registry.ts.
+ *
+ * HOW TO ADD A FEATURE:
+ * 1. Create products/<feature>.ts with defineProductHandler()
+ * 2. Add it to PRODUCT_HANDLERS below
+ *
+ * ============================================================================
+ */
+
+import { RegisteredProductHandler } from './registry';
+import { dataHandler } from './data';
+
+/**
+ * Registered handlers (routes must be unique)
+ */
+export const PRODUCT_HANDLERS: RegisteredProductHandler[] = [
+	dataHandler,
+];
+
+/**
+ * Handler for a POST path (undefined if none)
+ */
+export function findProductHandler(path: string): RegisteredProductHandler | undefined {
+	return PRODUCT_HANDLERS.find((handler) => handler.route === path);
+}
@@ -0,0 +1,255 @@
+/**
+ * ============================================================================
+ * PRODUCT HANDLER REGISTRY - Typed product actions with metered usage
+ * ============================================================================
+ *
+ * Each product action (what your SaaS actually does) is a ProductHandler:
+ * - route:   POST path it answers, e.g. "/api/summarize"
+ * - input:   schema of the JSON body (validated before anything is counted)
+ * - strict:  reject body fields the schema doesn't list (default: ignore them)
+ * - credits: cost per call (number, or computed from the input)
+ * - tiers:   tier IDs allowed to use it (omit = every tier)
+ * - entitlements: boolean entitlements it needs (services/entitlements.ts)
+ * - handle:  the product logic - gets the validated, typed input
+ *
+ * The framework (handleProductRequest in routes/usage.ts) does the rest:
+ * auth, tier + entitlement check, input validation, credit reservation, and commit or
+ * rollback (refund) of the credits depending on the outcome. Responses use
+ * the ProductEnvelope below.
+ *
+ * HOW TO ADD A FEATURE:
+ * 1. Write a handler with defineProductHandler() (see products/data.ts)
+ * 2. Add it to PRODUCT_HANDLERS in products/index.ts
+ * 3. Nothing else - no changes to routing or metering
+ *
+ * FAILING A REQUEST:
+ * Return productError(status, error, message) from handle() (or from a
+ * credits function). Throwing works too and becomes a 500. Either way the
+ * reserved credits are refunded.
+ *
+ * ============================================================================
+ */
+
+import { Env, PlanTier } from '../types';
+import { RegisteredTier } from '../config/tierRegistry';
+import { Tenant } from '../services/tenant';
+
+/**
+ * One field of an input schema
+ */
+export type InputField =
+	| { type: 'string'; required?: boolean; maxLength?: number; enum?: readonly string[] }
+	| { type: 'integer'; required?: boolean; min?: number; max?: number }
+	| { type: 'boolean'; required?: boolean };
+
+/**
+ * Input schema: JSON body field name → field
+ */
+export type InputSchema = Record<string, InputField>;
+
+type FieldValue<F extends InputField> =
+	F extends { type: 'string'; enum: readonly (infer E)[] } ? E
+	: F extends { type: 'string' } ? string
+	: F extends { type: 'integer' } ? number
+	: boolean;
+
+/**
+ * Typed input of a schema (optional fields may be undefined)
+ */
+export type InferInput<S extends InputSchema> = {
+	[K in keyof S]: S[K] extends { required: true } ? FieldValue<S[K]> : FieldValue<S[K]> | undefined;
+};
+
+/**
+ * Everything a handler knows about the request
+ */
+export interface ProductContext {
+	env: Env;
+	tenant: Tenant;
+	ownerId: string;        // Billing owner (userId, or orgId for team plans)
+	plan: PlanTier;
+	tier: RegisteredTier;
+	request: Request;
+}
+
+const PRODUCT_ERROR = Symbol('productError');
+
+/**
+ * A failed product request (4xx/5xx) - see productError()
+ */
+export interface ProductError {
+	[PRODUCT_ERROR]: true;
+	status: number;
+	error: string;
+	message: string;
+	details?: Record<string, unknown>;
+}
+
+/**
+ * Fail a product request (the reserved credits are refunded)
+ *
+ * @param status - HTTP status (4xx for caller problems)
+ * @param error - Short error title
+ * @param message - Human-readable explanation
+ * @param details - Extra fields for the response envelope
+ */
+export function productError(
+	status: number,
+	error: string,
+	message: string,
+	details?: Record<string, unknown>
+): ProductError {
+	return { [PRODUCT_ERROR]: true, status, error, message, ...(details && { details }) };
+}
+
+export function isProductError(value: unknown): value is ProductError {
+	return typeof value === 'object' && value !== null && PRODUCT_ERROR in value;
+}
+
+/**
+ * A product action (as written - see defineProductHandler)
+ */
+export interface ProductHandler<S extends InputSchema = InputSchema, O = unknown> {
+	id: string;               // Reported as usage.charged.operation
+	route: string;            // POST path (unique across handlers)
+	input: S;
+	strict?: boolean;         // 400 on fields not in the input schema (default: dropped)
+	credits: number | ((input: InferInput<S>, ctx: ProductContext) => number | ProductError);
+	tiers?: readonly string[];  // Tier IDs allowed to call it (omit = every tier)
+	entitlements?: readonly string[];  // Boolean entitlements the tier needs (403 with upgrade hint)
+	handle(input: InferInput<S>, ctx: ProductContext): Promise<O | ProductError>;
+}
+
+/**
+ * Usage block of a successful response (all amounts in credits)
+ */
+export interface ProductUsage {
+	count: number;
+	limit: number | 'unlimited';
+	plan: PlanTier;
+	unit: 'credits';
+	charged: { operation: string; credits: number };
+	overage?: number;         // Metered tiers only
+}
+
+/**
+ * Response body of every product route
+ */
+export type ProductEnvelope<O> =
+	| { success: true; data: O; usage: ProductUsage }
+	| { success: false; error: string; message: string; details?: Record<string, unknown> };
+
+/**
+ * A request body that passed a handler's schema, bound to the typed handler
+ */
+export interface PreparedProductRequest {
+	credits(ctx: ProductContext): number | ProductError;
+	handle(ctx: ProductContext): Promise<unknown>;
+}
+
+/**
+ * A product action with its input type erased (what the registry holds)
+ *
+ * Handlers with different input types share one list without `any`:
+ * prepare() validates the body and binds the typed input to credits() and
+ * handle(), so they never see input that didn't pass the schema.
+ */
+export interface RegisteredProductHandler {
+	id: string;
+	route: string;
+	tiers?: readonly string[];
+	entitlements?: readonly string[];
+	prepare(body: unknown): PreparedProductRequest | ProductError;
+}
+
+/**
+ * Define a handler (infers the input type from its schema)
+ *
+ * @returns The handler with its input type erased, ready for PRODUCT_HANDLERS
+ */
+export function defineProductHandler<const S extends InputSchema, O>(
+	handler: ProductHandler<S, O>
+): RegisteredProductHandler {
+	const { id, route, tiers, entitlements } = handler;
+	return {
+		id,
+		route,
+		tiers,
+		entitlements,
+		prepare(body) {
+			const input = validateProductInput(handler.input, body, handler.strict);
+			if (isProductError(input)) {
+				return input;
+			}
+			return {
+				credits: (ctx) => typeof handler.credits === 'number' ? handler.credits : handler.credits(input, ctx),
+				handle: (ctx) => handler.handle(input, ctx),
+			};
+		},
+	};
+}
+
+/**
+ * Validate a JSON body against a schema
+ *
+ * Fields the schema doesn't list are dropped, so clients sending extra data
+ * keep working. Strict handlers reject them instead, so typos don't silently
+ * fall back to defaults.
+ *
+ * @param strict - 400 on unknown fields instead of dropping them
+ * @returns The typed input (schema fields only), or a 400 ProductError
+ *          listing every problem
+ */
+export function validateProductInput<S extends InputSchema>(
+	schema: S,
+	body: unknown,
+	strict = false
+): InferInput<S> | ProductError {
+	if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+		return productError(400, 'Invalid input', 'Request body must be a JSON object');
+	}
+
+	const values = body as Record<string, unknown>;
+	const errors: string[] = [];
+	const input: Record<string, unknown> = {};
+
+	if (strict) {
+		for (const key of Object.keys(values)) {
+			if (!Object.prototype.hasOwnProperty.call(schema, key)) {
+				errors.push(`Unknown field "${key}"`);
+			}
+		}
+	}
+
+	for (const [key, field] of Object.entries(schema)) {
+		const value = values[key];
+		if (value === undefined || value === null) {
+			if (field.required) errors.push(`${key} is required`);
+			continue;
+		}
+		input[key] = value;
+
+		if (field.type === 'string') {
+			if (typeof value !== 'string') {
+				errors.push(`${key} must be a string`);
+			} else if (field.maxLength !== undefined && value.length > field.maxLength) {
+				errors.push(`${key} is limited to ${field.maxLength} characters`);
+			} else if (field.enum && !field.enum.includes(value)) {
+				errors.push(`${key} must be one of: ${field.enum.join(', ')}`);
+			}
+		} else if (field.type === 'integer') {
+			if (typeof value !== 'number' || !Number.isInteger(value)) {
+				errors.push(`${key} must be an integer`);
+			} else if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+				errors.push(`${key} must be between ${field.min ?? '-∞'} and ${field.max ?? '∞'}`);
+			}
+		} else if (typeof value !== 'boolean') {
+			errors.push(`${key} must be true or false`);
+		}
+	}
+
+	if (errors.length > 0) {
+		return productError(400, 'Invalid input', errors.join('; '), { errors });
+	}
+	return input as InferInput<S>;
+}
@@ -0,0 +1,196 @@
+/**
+ * ============================================================================
+ * API KEY ROUTES - Create, list, rename and revoke API keys
+ * ============================================================================
+ *
+ * Endpoints for:
+ * - GET    /api/keys       → the user's keys (prefix, name, created, last used)
+ * - POST   /api/keys       → create a key (secret returned ONCE)
+ * - PATCH  /api/keys/:id   → rename a key
+ * - DELETE /api/keys/:id   → revoke a key
+ *
+ * These require a Clerk session - an API key can't manage API keys (see
+ * index.ts). Storage and verification live in services/apiKeys.ts.
+ */
+
+import { Env } from '../types';
+import { Tenant } from '../services/tenant';
+import {
+	ApiKey,
+	MAX_API_KEYS_PER_USER,
+	MAX_API_KEY_NAME_LENGTH,
+	createApiKey,
+	listApiKeys,
+	renameApiKey,
+	revokeApiKey,
+} from '../services/apiKeys';
+
+/**
+ * Key fields returned to the client (the hash stays server-side)
+ */
+function toPublicKey(key: ApiKey & { lastUsedAt?: string | null }) {
+	return {
+		id: key.id,
+		name: key.name,
+		prefix: key.prefix,
+		createdAt: key.createdAt,
+		lastUsedAt: key.lastUsedAt ?? null,
+	};
+}
+
+/**
+ * Read and validate { name } from the body
+ *
+ * @returns The trimmed name, or an error message
+ */
+async function readKeyName(request: Request): Promise<{ name: string; error?: undefined } | { name?: undefined; error: string }> {
+	const body = await request.json().catch(() => ({})) as { name?: unknown };
+	const name = typeof body.name === 'string' ? body.name.trim() : '';
+	if (!name) {
+		return { error: 'name is required' };
+	}
+	if (name.length > MAX_API_KEY_NAME_LENGTH) {
+		return { error: `name is limited to ${MAX_API_KEY_NAME_LENGTH} characters` };
+	}
+	return { name };
+}
+
+/**
+ * Handle GET /api/keys - List the user's keys
+ *
+ * RETURNS: { keys: [{ id, name, prefix, createdAt, lastUsedAt }] }
+ */
+export async function handleListApiKeys(
+	userId: string,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	tenant: Tenant
+): Promise<Response> {
+	const keys = await listApiKeys(env, tenant, userId);
+	return new Response(
+		JSON.stringify({ keys: keys.map(toPublicKey) }),
+		{
+			status: 200,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		}
+	);
+}
+
+/**
+ * Handle POST /api/keys - Create a key
+ *
+ * BODY: { name }
+ *
+ * RETURNS: { key: { id, name, prefix, createdAt, lastUsedAt }, secret }
+ * The secret is never shown again - only its hash is stored.
+ */
+export async function handleCreateApiKey(
+	userId: string,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	request: Request,
+	tenant: Tenant
+): Promise<Response> {
+	const { name, error } = await readKeyName(request);
+	if (error !== undefined) {
+		return new Response(
+			JSON.stringify({ error: 'Invalid name', message: error }),
+			{
+				status: 400,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	}
+
+	const created = await createApiKey(env, tenant, userId, name);
+	if (!created) {
+		return new Response(
+			JSON.stringify({
+				error: 'Too many API keys',
+				message: `You can have up to ${MAX_API_KEYS_PER_USER} API keys. Revoke one first.`,
+			}),
+			{
+				status: 409,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	}
+
+	console.log(`🔑 ${userId} created API key ${created.key.id} (${created.key.prefix}…)`);
+	return new Response(
+		JSON.stringify({ key: toPublicKey(created.key), secret: created.secret }),
+		{
+			status: 201,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		}
+	);
+}
+
+/**
+ * Handle PATCH /api/keys/:id - Rename a key
+ *
+ * BODY: { name }
+ */
+export async function handleUpdateApiKey(
+	userId: string,
+	keyId: string,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	request: Request,
+	tenant: Tenant
+): Promise<Response> {
+	const { name, error } = await readKeyName(request);
+	if (error !== undefined) {
+		return new Response(
+			JSON.stringify({ error: 'Invalid name', message: error }),
+			{
+				status: 400,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	}
+
+	const key = await renameApiKey(env, tenant, userId, keyId, name);
+	if (!key) {
+		return new Response(JSON.stringify({ error: 'API key not found' }), {
+			status: 404,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		});
+	}
+
+	return new Response(
+		JSON.stringify({ key: toPublicKey(key) }),
+		{
+			status: 200,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		}
+	);
+}
+
+/**
+ * Handle DELETE /api/keys/:id - Revoke a key
+ */
+export async function handleRevokeApiKey(
+	userId: string,
+	keyId: string,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	tenant: Tenant
+): Promise<Response> {
+	const revoked = await revokeApiKey(env, tenant, userId, keyId);
+	if (!revoked) {
+		return new Response(JSON.stringify({ error: 'API key not found' }), {
+			status: 404,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		});
+	}
+
+	console.log(`🔑 ${userId} revoked API key ${keyId}`);
+	return new Response(
+		JSON.stringify({ revoked: true, id: keyId }),
+		{
+			status: 200,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		}
+	);
+}
@@ -0,0 +1,191 @@
+/**
+ * ============================================================================
+ * BILLING ROUTES - Invoices and payment method
+ * ============================================================================
+ *
+ * Endpoints for:
+ * - Listing the customer's invoices (payment history)
+ * - Showing the card on file
+ *
+ * Both read the billing owner's stripeCustomerId from Clerk metadata (the
+ * organization for team plans, same as the customer portal in
+ * routes/checkout.ts) and back the frontend's /billing page, so users don't
+ * need the Stripe portal just to download an invoice.
+ */
+
+import type { ClerkClient } from '@clerk/backend';
+import type Stripe from 'stripe';
+import { Env } from '../types';
+import { stripeRequest } from '../services/stripe';
+import { getBillingState } from '../services/billingState';
+
+/**
+ * Invoices per page (default / max)
+ */
+const INVOICES_DEFAULT_LIMIT = 24;
+const INVOICES_MAX_LIMIT = 100;
+
+/**
+ * The billing owner's Stripe customer ID from Clerk metadata (set by the webhook)
+ */
+async function getStripeCustomerId(ownerId: string, clerkClient: ClerkClient): Promise<string | undefined> {
+	return (await getBillingState(clerkClient, ownerId)).stripeCustomerId;
+}
+
+/**
+ * Card details safe to show in the UI
+ */
+function toCardSummary(paymentMethod: Stripe.PaymentMethod | null | undefined) {
+	if (!paymentMethod?.card) return null;
+	return {
+		brand: paymentMethod.card.brand,
+		last4: paymentMethod.card.last4,
+		expMonth: paymentMethod.card.exp_month,
+		expYear: paymentMethod.card.exp_year,
+	};
+}
+
+/**
+ * Handle /api/billing/invoices - The customer's invoices, newest first
+ *
+ * QUERY:
+ * - limit: 1-100 (default 24)
+ * - startingAfter: invoice ID from the previous page
+ *
+ * RETURNS: { invoices: [{ id, number, date, amount, currency, status,
+ *   hostedInvoiceUrl, pdfUrl }], hasMore }
+ * Users who never subscribed get an empty list.
+ */
+export async function handleBillingInvoices(
+	ownerId: string,
+	clerkClient: ClerkClient,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	url: URL
+): Promise<Response> {
+	try {
+		const stripeCustomerId = await getStripeCustomerId(ownerId, clerkClient);
+		if (!stripeCustomerId) {
+			return new Response(
+				JSON.stringify({ invoices: [], hasMore: false }),
+				{
+					status: 200,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				}
+			);
+		}
+
+		const limit = Number(url.searchParams.get('limit') || INVOICES_DEFAULT_LIMIT);
+		if (!Number.isInteger(limit) || limit < 1 || limit > INVOICES_MAX_LIMIT) {
+			return new Response(
+				JSON.stringify({ error: 'Invalid limit', message: `limit must be 1-${INVOICES_MAX_LIMIT}` }),
+				{
+					status: 400,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				}
+			);
+		}
+
+		const params: Record<string, string> = {
+			'customer': stripeCustomerId,
+			'limit': limit.toString(),
+		};
+		const startingAfter = url.searchParams.get('startingAfter');
+		if (startingAfter) params['starting_after'] = startingAfter;
+
+		const list = await stripeRequest<Stripe.ApiList<Stripe.Invoice>>(env, '/v1/invoices', params, 'GET');
+
+		// Drafts aren't final (no number, no PDF) - skip them
+		const invoices = list.data
+			.filter((invoice) => invoice.status !== 'draft')
+			.map((invoice) => ({
+				id: invoice.id,
+				number: invoice.number,
+				date: new Date(invoice.created * 1000).toISOString(),
+				amount: invoice.total,
+				amountPaid: invoice.amount_paid,
+				currency: invoice.currency,
+				status: invoice.status,
+				hostedInvoiceUrl: invoice.hosted_invoice_url || null,
+				pdfUrl: invoice.invoice_pdf || null,
+			}));
+
+		return new Response(
+			JSON.stringify({ invoices, hasMore: list.has_more }),
+			{
+				status: 200,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	} catch (error: any) {
+		console.error('Invoice list error:', error);
+		return new Response(
+			JSON.stringify({ error: error.message || 'Failed to list invoices' }),
+			{
+				status: 500,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	}
+}
+
+/**
+ * Handle /api/billing/payment-method - The card on file
+ *
+ * LOOKUP ORDER:
+ * 1. Customer's default payment method (invoice_settings)
+ * 2. First card attached to the customer (Checkout attaches it without
+ *    always setting the default)
+ *
+ * RETURNS: { paymentMethod: { brand, last4, expMonth, expYear } | null }
+ */
+export async function handleBillingPaymentMethod(
+	ownerId: string,
+	clerkClient: ClerkClient,
+	env: Env,
+	corsHeaders: Record<string, string>
+): Promise<Response> {
+	try {
+		const stripeCustomerId = await getStripeCustomerId(ownerId, clerkClient);
+		let paymentMethod: Stripe.PaymentMethod | null = null;
+
+		if (stripeCustomerId) {
+			const customer = await stripeRequest<Stripe.Customer | Stripe.DeletedCustomer>(
+				env,
+				`/v1/customers/${stripeCustomerId}`,
+				{ 'expand[]': 'invoice_settings.default_payment_method' },
+				'GET'
+			);
+			const defaultMethod = !customer.deleted ? customer.invoice_settings?.default_payment_method : null;
+
+			if (defaultMethod && typeof defaultMethod !== 'string') {
+				paymentMethod = defaultMethod;
+			} else if (!customer.deleted) {
+				const cards = await stripeRequest<Stripe.ApiList<Stripe.PaymentMethod>>(
+					env,
+					`/v1/customers/${stripeCustomerId}/payment_methods`,
+					{ 'type': 'card', 'limit': '1' },
+					'GET'
+				);
+				paymentMethod = cards.data[0] || null;
+			}
+		}
+
+		return new Response(
+			JSON.stringify({ paymentMethod: toCardSummary(paymentMethod) }),
+			{
+				status: 200,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	} catch (error: any) {
+		console.error('Payment method error:', error);
+		return new Response(
+			JSON.stringify({ error: error.message || 'Failed to load payment method' }),
+			{
+				status: 500,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	}
+}
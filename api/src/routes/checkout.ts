@@ -8,18 +8,64 @@
  * - Creating Stripe Customer Portal sessions (manage subscription)
  */
 
-import { Env } from '../types';
-import { getPriceIdMap } from '../config/configLoader';
+import type { ClerkClient } from '@clerk/backend';
+import type Stripe from 'stripe';
+import { BillingInterval, Env } from '../types';
+import { findTier, getTierPriceId, unknownTierMessage } from '../config/tierRegistry';
+import { Tenant } from '../services/tenant';
+import { stripeRequest } from '../services/stripe';
+import { getBillingState } from '../services/billingState';
+import { BillingAccount, canManageOrgBilling } from '../services/organizations';
+
+/**
+ * Look up an active promotion code by its customer-facing code
+ *
+ * Stripe would also reject a bad code when the session is created, but only
+ * as a generic error - checking first lets us return a clear 400.
+ *
+ * @returns The promotion code, or null if it can't be redeemed
+ */
+async function findPromotionCode(env: Env, code: string): Promise<Stripe.PromotionCode | null> {
+	const result = await stripeRequest<Stripe.ApiList<Stripe.PromotionCode>>(
+		env,
+		'/v1/promotion_codes',
+		{ 'code': code, 'active': 'true', 'limit': '1' },
+		'GET'
+	);
+	const promotionCode = result.data[0];
+	if (!promotionCode) return null;
+
+	const now = Math.floor(Date.now() / 1000);
+	if (promotionCode.expires_at && promotionCode.expires_at <= now) return null;
+	if (promotionCode.max_redemptions && promotionCode.times_redeemed >= promotionCode.max_redemptions) return null;
+	return promotionCode;
+}
 
 /**
  * Handle /api/create-checkout - Create Stripe Checkout session
  *
  * WHAT THIS DOES:
- * 1. Gets user email from Clerk
- * 2. Gets target tier from request body (or defaults to first paid tier)
- * 3. Gets Stripe Price ID for target tier
- * 4. Creates Stripe Checkout session
- * 5. Returns checkout URL for redirect
+ * 1. Picks the billing owner: the active organization (team plan, owners/
+ *    admins only, billed per seat) unless the body says account: "personal",
+ *    else the user. Owners that already subscribe get 409 - they switch
+ *    plans with /api/subscription/change instead
+ * 2. Gets target tier + billing interval ("month" default, or "year") from
+ *    request body (tier defaults to first paid tier)
+ * 3. Validates the tier against the registry and gets its Stripe Price ID for
+ *    the interval (plus the metered overage price for metered tiers)
+ * 4. Validates the optional promoCode against Stripe (400 if not redeemable)
+ * 5. Creates Stripe Checkout session (with the tier's free trial for
+ *    first-time subscribers, and the owner's existing Stripe customer for
+ *    returning ones)
+ * 6. Returns checkout URL for redirect
+ *
+ * SEATS (team plans): body seats, default = organization member count (and
+ * never fewer than the members). Billed as the base price's quantity.
+ *
+ * DISCOUNTS:
+ * - promoCode in the body → applied to the session
+ * - otherwise config.allowPromotionCodes → customer can enter one on Stripe
+ *   (Stripe doesn't allow both on one session)
  *
  * STRIPE CHECKOUT FLOW:
  * 1. User clicks "Upgrade to Pro"
@@ -30,46 +76,200 @@ import { getPriceIdMap } from '../config/configLoader';
  * 6. Stripe webhook updates Clerk metadata (see stripe-webhook.ts)
  */
 export async function handleCreateCheckout(
-	userId: string,
-	clerkClient: any,
+	account: BillingAccount,
+	clerkClient: ClerkClient,
 	env: Env,
 	corsHeaders: Record<string, string>,
 	origin: string,
-	request: Request
+	request: Request,
+	tenant: Tenant
 ): Promise<Response> {
+	const { registry } = tenant;
+	const { userId } = account;
 	try {
-		// Get user email from Clerk
-		const user = await clerkClient.users.getUser(userId);
-		const userEmail = user.emailAddresses[0]?.emailAddress || '';
-
 		// Get target tier from request body
 		const body = await request.json().catch((err) => {
 			console.error('❌ Failed to parse request body:', err);
 			return {};
-		}) as { tier?: string };
+		}) as { tier?: string; interval?: string; promoCode?: string; account?: string; seats?: number };
 
-		// Load price IDs from config
-		const priceIdMap = await getPriceIdMap(env);
+		// Team plan for the active organization (unless buying personally)
+		const orgId = body.account !== 'personal' ? account.orgId : null;
+		if (orgId && !canManageOrgBilling(account.orgRole)) {
+			return new Response(
+				JSON.stringify({
+					error: 'Forbidden',
+					message: 'Only organization owners and admins can manage billing',
+				}),
+				{
+					status: 403,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				}
+			);
+		}
+		const ownerId = orgId || userId;
+
+		// Get user email from Clerk (the buyer, also for team plans)
+		const user = await clerkClient.users.getUser(userId);
+		const userEmail = user.emailAddresses[0]?.emailAddress || '';
+		const billingState = await getBillingState(clerkClient, ownerId);
+
+		// Existing subscribers switch plans in place (a new session would be a
+		// second subscription) - see routes/subscription.ts
+		if (billingState.subscriptionId) {
+			return new Response(
+				JSON.stringify({
+					error: 'Already subscribed',
+					message: 'Use /api/subscription/change to switch plans',
+				}),
+				{
+					status: 409,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				}
+			);
+		}
 
 		// Default to first available paid tier (dynamic!)
-		const firstPaidTier = Object.keys(priceIdMap).find(key => key !== 'free') || 'pro';
-		const targetTier = body.tier || firstPaidTier;
+		const firstPaidTier = registry.tiers.find((t) => t.price > 0)?.id;
+		const targetTier = body.tier || firstPaidTier || '';
 
 		console.log(`🎯 Checkout requested for tier: ${targetTier}`);
 
-		// Get the price ID for target tier
-		const priceId = priceIdMap[targetTier] || '';
+		// Validate tier against the registry (client error, not a 500)
+		const tier = findTier(registry, targetTier);
+		if (!tier || tier.price === 0) {
+			const message = tier
+				? `Tier "${targetTier}" is free and does not require checkout`
+				: unknownTierMessage(registry, targetTier);
+			console.error(`❌ ${message}`);
+			return new Response(
+				JSON.stringify({ error: 'Invalid tier', message }),
+				{
+					status: 400,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				}
+			);
+		}
+
+		// Validate billing interval (annual only if the tier has a yearly price)
+		const interval = (body.interval || 'month') as BillingInterval;
+		if ((interval !== 'month' && interval !== 'year') || (interval === 'year' && !tier.yearlyPrice)) {
+			const message = interval === 'year'
+				? `Tier "${targetTier}" has no annual billing`
+				: `Invalid interval "${body.interval}" (use "month" or "year")`;
+			console.error(`❌ ${message}`);
+			return new Response(
+				JSON.stringify({ error: 'Invalid interval', message }),
+				{
+					status: 400,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				}
+			);
+		}
+
+		// Get the price ID for target tier + interval
+		const priceId = getTierPriceId(tier, interval) || '';
 
-		console.log(`💳 Price ID for ${targetTier}: ${priceId}`);
+		console.log(`💳 Price ID for ${targetTier} (${interval}): ${priceId}`);
 
 		if (!priceId) {
-			console.error(`❌ No price ID configured for tier: ${targetTier}`);
-			throw new Error(`No price ID configured for tier: ${targetTier}`);
+			console.error(`❌ No ${interval} price ID configured for tier: ${targetTier}`);
+			throw new Error(`No ${interval} price ID configured for tier: ${targetTier}`);
+		}
+
+		// Seats: team plans only (at least one per member)
+		let seats = 1;
+		if (orgId) {
+			const organization = await clerkClient.organizations.getOrganization({
+				organizationId: orgId,
+				includeMembersCount: true,
+			});
+			const members = organization.membersCount || 1;
+			seats = body.seats ?? members;
+			if (!Number.isInteger(seats) || seats < members) {
+				return new Response(
+					JSON.stringify({
+						error: 'Invalid seats',
+						message: `Seats must be a whole number of at least ${members} (current members)`,
+					}),
+					{
+						status: 400,
+						headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+					}
+				);
+			}
+		}
+
+		// Validate promo code before creating the session
+		const promoCode = body.promoCode?.trim();
+		const promotionCode = promoCode ? await findPromotionCode(env, promoCode) : null;
+		if (promoCode && !promotionCode) {
+			console.error(`❌ Promo code not redeemable: ${promoCode}`);
+			return new Response(
+				JSON.stringify({ error: 'Invalid promo code', message: `Promo code "${promoCode}" is invalid or expired` }),
+				{
+					status: 400,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				}
+			);
 		}
 
 		// Use origin from request for success/cancel URLs (handles changing hash URLs)
 		const frontendUrl = origin || 'https://app.panacea-tech.net';
 
+		const checkoutParams: Record<string, string> = {
+			'success_url': `${frontendUrl}/dashboard?success=true`,
+			'cancel_url': `${frontendUrl}/dashboard?canceled=true`,
+			'client_reference_id': userId,
+			'mode': 'subscription',
+			'line_items[0][price]': priceId,
+			'line_items[0][quantity]': seats.toString(),
+			'metadata[userId]': userId,
+			'metadata[tier]': targetTier,
+			'metadata[interval]': interval,
+			'subscription_data[metadata][userId]': userId,
+			'subscription_data[metadata][tier]': targetTier,
+			'subscription_data[metadata][interval]': interval,
+		};
+
+		// Returning customers check out as their existing Stripe customer (one
+		// customer per owner - see services/billingState.ts), new ones by email
+		if (billingState.stripeCustomerId) {
+			checkoutParams['customer'] = billingState.stripeCustomerId;
+		} else {
+			checkoutParams['customer_email'] = userEmail;
+		}
+
+		// Metered tiers: overage price as a second line item (no quantity - Stripe
+		// bills it from meter events, see services/metering.ts)
+		if (tier.overage) {
+			checkoutParams['line_items[1][price]'] = tier.overage.stripePriceId;
+		}
+
+		// Team plan: the webhook bills the organization (metadata.orgId)
+		if (orgId) {
+			checkoutParams['metadata[orgId]'] = orgId;
+			checkoutParams['subscription_data[metadata][orgId]'] = orgId;
+		}
+
+		// Free trial for first-time subscribers only (a Stripe customer ID means
+		// they've subscribed before)
+		if (tier.trialDays && !billingState.stripeCustomerId) {
+			checkoutParams['subscription_data[trial_period_days]'] = tier.trialDays.toString();
+		}
+
+		if (promotionCode) {
+			checkoutParams['discounts[0][promotion_code]'] = promotionCode.id;
+		} else if (tenant.config.allowPromotionCodes) {
+			checkoutParams['allow_promotion_codes'] = 'true';
+		}
+
+		// Tag session + subscription with the tenant so the webhook can load its tiers
+		if (tenant.id) {
+			checkoutParams['metadata[tenantId]'] = tenant.id;
+			checkoutParams['subscription_data[metadata][tenantId]'] = tenant.id;
+		}
+
 		// Create Stripe checkout session
 		const checkoutSession = await fetch('https://api.stripe.com/v1/checkout/sessions', {
 			method: 'POST',
@@ -77,19 +277,7 @@ export async function handleCreateCheckout(
 				'Authorization': `Bearer ${env.STRIPE_SECRET_KEY}`,
 				'Content-Type': 'application/x-www-form-urlencoded',
 			},
-			body: new URLSearchParams({
-				'success_url': `${frontendUrl}/dashboard?success=true`,
-				'cancel_url': `${frontendUrl}/dashboard?canceled=true`,
-				'customer_email': userEmail,
-				'client_reference_id': userId,
-				'mode': 'subscription',
-				'line_items[0][price]': priceId,
-				'line_items[0][quantity]': '1',
-				'metadata[userId]': userId,
-				'metadata[tier]': targetTier,
-				'subscription_data[metadata][userId]': userId,
-				'subscription_data[metadata][tier]': targetTier,
-			}).toString(),
+			body: new URLSearchParams(checkoutParams).toString(),
 		});
 
 		const session = await checkoutSession.json() as { url?: string; error?: { message: string } };
@@ -121,7 +309,8 @@ export async function handleCreateCheckout(
  * Handle /api/customer-portal - Create Stripe Customer Portal session
  *
  * WHAT THIS DOES:
- * 1. Gets user's Stripe customer ID from Clerk metadata
+ * 1. Gets the billing owner's Stripe customer ID from Clerk metadata (user,
+ *    or organization for team plans)
  * 2. Creates Stripe Customer Portal session
  * 3. Returns portal URL for redirect
  *
@@ -132,16 +321,15 @@ export async function handleCreateCheckout(
  * - Update billing information
  */
 export async function handleCustomerPortal(
-	userId: string,
-	clerkClient: any,
+	ownerId: string,
+	clerkClient: ClerkClient,
 	env: Env,
 	corsHeaders: Record<string, string>,
 	origin: string
 ): Promise<Response> {
 	try {
-		// Get user from Clerk to retrieve Stripe customer ID
-		const user = await clerkClient.users.getUser(userId);
-		const stripeCustomerId = user.publicMetadata?.stripeCustomerId as string;
+		// Get billing owner from Clerk to retrieve Stripe customer ID
+		const { stripeCustomerId } = await getBillingState(clerkClient, ownerId);
 
 		if (!stripeCustomerId) {
 			return new Response(
@@ -0,0 +1,66 @@
+/**
+ * ============================================================================
+ * ENTITLEMENT ROUTES
+ * ============================================================================
+ *
+ * Endpoints for:
+ * - GET /api/entitlements → the caller's feature flags and caps
+ *
+ * Entitlements are configured per tier in config.ts - see services/entitlements.ts.
+ */
+
+import { PlanTier } from '../types';
+import { findTier, unknownTierMessage } from '../config/tierRegistry';
+import { Tenant } from '../services/tenant';
+import {
+	EntitlementUpgrade,
+	PublicEntitlementValue,
+	findEntitlementUpgrade,
+	hasEntitlement,
+	resolveTierEntitlements,
+	toPublicEntitlement,
+} from '../services/entitlements';
+
+/**
+ * Handle GET /api/entitlements - The caller's entitlements
+ *
+ * Lists every entitlement key configured on any tier, so the frontend can
+ * gate UI without knowing the tier config.
+ *
+ * RETURNS: { plan, entitlements: { key: true | false | number | "unlimited" },
+ *   upgrades: { key: { id, name, price } | null } }
+ * upgrades only lists entitlements the plan doesn't have (null = no tier has it).
+ */
+export async function handleEntitlements(
+	plan: PlanTier,
+	corsHeaders: Record<string, string>,
+	tenant: Tenant
+): Promise<Response> {
+	const { registry } = tenant;
+
+	const tier = findTier(registry, plan);
+	if (!tier) {
+		console.error(`❌ ${unknownTierMessage(registry, plan)}`);
+		return new Response(
+			JSON.stringify({ error: 'Unknown plan', plan, message: unknownTierMessage(registry, plan) }),
+			{
+				status: 403,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	}
+
+	const entitlements: Record<string, PublicEntitlementValue> = {};
+	const upgrades: Record<string, EntitlementUpgrade | null> = {};
+	for (const [key, value] of Object.entries(resolveTierEntitlements(registry, tier))) {
+		entitlements[key] = toPublicEntitlement(value);
+		if (!hasEntitlement(tier, key)) {
+			upgrades[key] = findEntitlementUpgrade(registry, tier, key);
+		}
+	}
+
+	return new Response(JSON.stringify({ plan, entitlements, upgrades }), {
+		status: 200,
+		headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+	});
+}
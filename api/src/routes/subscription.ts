@@ -0,0 +1,671 @@
+/**
+ * ============================================================================
+ * SUBSCRIPTION ROUTES - In-app plan switching
+ * ============================================================================
+ *
+ * Endpoints for:
+ * - Previewing a plan change (what the user is charged today)
+ * - Changing the plan of an existing subscription
+ * - Canceling at the end of the period (with an optional reason) and resuming
+ * - Changing the seat count of a team (organization) subscription
+ *
+ * WHY NOT a new Checkout session: Checkout always creates a NEW subscription,
+ * so a Pro user picking Developer ended up paying for both. Existing
+ * subscribers switch by updating their subscription's price instead.
+ *
+ * UPGRADES (more expensive tier):
+ *   Applied immediately. The prorated difference is invoiced and charged
+ *   right away (proration_behavior=always_invoice). The preview and the
+ *   change use the same proration_date, so the user pays what they saw.
+ *
+ * DOWNGRADES (cheaper paid tier):
+ *   Scheduled for the end of the current period with a subscription
+ *   schedule - the user keeps what they paid for, nothing is charged today.
+ *
+ * BILLING INTERVAL (monthly ↔ annual, optional `interval` in the body):
+ *   Defaults to the subscription's current interval. Monthly → annual is
+ *   applied immediately like an upgrade (unused month credited); annual →
+ *   monthly is scheduled for the end of the paid year.
+ *
+ * CANCEL / RESUME:
+ *   cancel_at_period_end - the user keeps the plan until the period ends,
+ *   then Stripe deletes the subscription (webhook downgrades to free).
+ *   Reasons are stored in KV (churn:*) for review. Works without a
+ *   Stripe portal configuration.
+ *
+ * SEATS (team plans):
+ *   The base price's quantity. Adding seats is charged right away (prorated),
+ *   removing seats credits the next invoice. Never fewer than the members.
+ *
+ * Either way Stripe sends customer.subscription.updated when the price
+ * changes and the webhook updates the plan (see stripe-webhook.ts).
+ */
+
+import type { ClerkClient } from '@clerk/backend';
+import type Stripe from 'stripe';
+import { BillingInterval, Env } from '../types';
+import {
+	RegisteredTier,
+	TierRegistry,
+	findTier,
+	findTierByPriceId,
+	getTierPriceId,
+	unknownTierMessage,
+} from '../config/tierRegistry';
+import { Tenant, tenantKey } from '../services/tenant';
+import {
+	BillingState,
+	getBillingState,
+	getSubscriptionPeriod,
+	getSubscriptionSeats,
+	isOrganizationId,
+	updateBillingState,
+} from '../services/billingState';
+import { stripeRequest } from '../services/stripe';
+import { emitWebhookEvent } from '../services/webhooks';
+
+/**
+ * Subscription statuses that can switch plans
+ */
+const CHANGEABLE_STATUSES: Stripe.Subscription.Status[] = ['active', 'trialing', 'past_due'];
+
+/**
+ * Cancellation reasons Stripe accepts (cancellation_details[feedback])
+ */
+const CANCEL_REASONS: Stripe.SubscriptionUpdateParams.CancellationDetails.Feedback[] = [
+	'customer_service',
+	'low_quality',
+	'missing_features',
+	'other',
+	'switched_service',
+	'too_complex',
+	'too_expensive',
+	'unused',
+];
+
+/**
+ * Longest free-text feedback stored with a cancellation
+ */
+const MAX_FEEDBACK_LENGTH = 1000;
+
+/**
+ * A validated plan change
+ */
+interface PlanChange {
+	subscription: Stripe.Subscription;
+	currentTier: RegisteredTier;
+	targetTier: RegisteredTier;
+	currentInterval: BillingInterval;
+	targetInterval: BillingInterval;
+	targetPriceId: string;
+	upgrade: boolean;              // true = immediate + prorated, false = at period end
+	periodEnd: string | null;      // ISO timestamp
+	prorationDate: number;         // Unix seconds
+}
+
+/**
+ * The billing owner's subscription from Clerk metadata (set by the webhook),
+ * if it can still be changed
+ *
+ * @param ownerId - Clerk user ID, or organization ID for team plans
+ * @returns The subscription, or a message saying why there is none
+ */
+async function getActiveSubscription(
+	ownerId: string,
+	clerkClient: ClerkClient,
+	env: Env
+): Promise<{ subscription: Stripe.Subscription; message?: undefined } | { subscription?: undefined; message: string }> {
+	const { subscriptionId } = await getBillingState(clerkClient, ownerId);
+	if (!subscriptionId) {
+		return { message: 'Subscribe through checkout first' };
+	}
+
+	const subscription = await stripeRequest<Stripe.Subscription>(
+		env,
+		`/v1/subscriptions/${subscriptionId}`,
+		{},
+		'GET'
+	);
+	if (!CHANGEABLE_STATUSES.includes(subscription.status)) {
+		return { message: `Subscription is ${subscription.status}` };
+	}
+	return { subscription };
+}
+
+/**
+ * Validate the requested tier against the user's subscription
+ *
+ * @returns The plan change, or a 4xx response
+ */
+async function preparePlanChange(
+	ownerId: string,
+	clerkClient: ClerkClient,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	request: Request,
+	tenant: Tenant
+): Promise<{ change: PlanChange; response?: undefined } | { change?: undefined; response: Response }> {
+	const { registry } = tenant;
+	const fail = (error: string, message: string) => ({
+		response: new Response(JSON.stringify({ error, message }), {
+			status: 400,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		}),
+	});
+
+	const body = await request.json().catch(() => ({})) as { tier?: string; interval?: string; prorationDate?: number };
+
+	const targetTier = findTier(registry, body.tier);
+	if (!targetTier) {
+		return fail('Invalid tier', unknownTierMessage(registry, body.tier || ''));
+	}
+	if (targetTier.price === 0) {
+		return fail('Invalid tier', 'Switching to the free plan cancels your subscription');
+	}
+	if (body.interval && body.interval !== 'month' && body.interval !== 'year') {
+		return fail('Invalid interval', `Invalid interval "${body.interval}" (use "month" or "year")`);
+	}
+
+	const { subscription, message } = await getActiveSubscription(ownerId, clerkClient, env);
+	if (!subscription) {
+		return fail('No active subscription', message);
+	}
+
+	const baseItem = subscription.items.data.find((item) => findTierByPriceId(registry, item.price.id));
+	const currentTier = baseItem && findTierByPriceId(registry, baseItem.price.id);
+	if (!baseItem || !currentTier) {
+		throw new Error(`Subscription ${subscription.id} has no configured tier price`);
+	}
+	const currentInterval: BillingInterval = baseItem.price.id === currentTier.yearlyStripePriceId ? 'year' : 'month';
+	const targetInterval = (body.interval || currentInterval) as BillingInterval;
+
+	if (currentTier.id === targetTier.id && currentInterval === targetInterval) {
+		return fail('Invalid tier', `Already on the ${targetTier.name} plan`);
+	}
+	if (targetInterval === 'year' && !targetTier.yearlyPrice) {
+		return fail('Invalid interval', `The ${targetTier.name} plan has no annual billing`);
+	}
+	const targetPriceId = getTierPriceId(targetTier, targetInterval);
+	if (!targetPriceId) {
+		throw new Error(`No ${targetInterval} price ID configured for tier: ${targetTier.id}`);
+	}
+
+	// Immediate: monthly → annual, or a pricier tier on the same interval
+	const upgrade = currentInterval === targetInterval
+		? targetTier.price > currentTier.price
+		: targetInterval === 'year';
+
+	// Reuse the previewed proration date (if recent) so the charge matches the preview
+	const now = Math.floor(Date.now() / 1000);
+	const prorationDate = body.prorationDate && body.prorationDate <= now && now - body.prorationDate < 3600
+		? body.prorationDate
+		: now;
+
+	return {
+		change: {
+			subscription,
+			currentTier,
+			targetTier,
+			currentInterval,
+			targetInterval,
+			targetPriceId,
+			upgrade,
+			periodEnd: getSubscriptionPeriod(subscription)?.end ?? null,
+			prorationDate,
+		},
+	};
+}
+
+/**
+ * Subscription item updates for the new tier (form params under `prefix`)
+ *
+ * - Base price item → new tier's price
+ * - Metered overage item → added, repriced or removed to match the new tier
+ */
+function buildItemParams(change: PlanChange, registry: TierRegistry, prefix: string): Record<string, string> {
+	const { subscription, targetTier, targetPriceId } = change;
+	const params: Record<string, string> = {};
+
+	const baseItem = subscription.items.data.find((item) => findTierByPriceId(registry, item.price.id));
+	const meteredItem = subscription.items.data.find((item) =>
+		registry.tiers.some((t) => t.overage?.stripePriceId === item.price.id)
+	);
+
+	params[`${prefix}[0][id]`] = baseItem!.id;
+	params[`${prefix}[0][price]`] = targetPriceId;
+
+	if (targetTier.overage) {
+		if (meteredItem) params[`${prefix}[1][id]`] = meteredItem.id;
+		params[`${prefix}[1][price]`] = targetTier.overage.stripePriceId;
+	} else if (meteredItem) {
+		params[`${prefix}[1][id]`] = meteredItem.id;
+		params[`${prefix}[1][deleted]`] = 'true';
+	}
+
+	return params;
+}
+
+/**
+ * Release a pending schedule (a previously scheduled downgrade)
+ *
+ * The new change replaces it - otherwise the old schedule would still switch
+ * the plan at the end of the period.
+ */
+async function releaseSchedule(env: Env, subscription: Stripe.Subscription): Promise<void> {
+	if (!subscription.schedule) return;
+	const scheduleId = typeof subscription.schedule === 'string' ? subscription.schedule : subscription.schedule.id;
+	await stripeRequest(env, `/v1/subscription_schedules/${scheduleId}/release`);
+	console.log(`🗓️ Released schedule ${scheduleId} for subscription ${subscription.id}`);
+}
+
+/**
+ * Handle /api/subscription/preview - What a plan change costs today
+ *
+ * BODY: { tier, interval? } (interval defaults to the current one)
+ *
+ * RETURNS:
+ * - upgrade:       amountDue (cents) charged today, effectiveAt = now
+ * - downgrade:     amountDue 0, effectiveAt = end of the current period
+ * - prorationDate: pass back to /api/subscription/change
+ */
+export async function handleSubscriptionPreview(
+	ownerId: string,
+	clerkClient: ClerkClient,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	request: Request,
+	tenant: Tenant
+): Promise<Response> {
+	try {
+		const prepared = await preparePlanChange(ownerId, clerkClient, env, corsHeaders, request, tenant);
+		if (prepared.response) return prepared.response;
+		const { change } = prepared;
+
+		let amountDue = 0;
+		let currency = change.subscription.currency;
+
+		if (change.upgrade) {
+			// Stripe's upcoming-invoice preview with the same proration settings as the change
+			const invoice = await stripeRequest<Stripe.Invoice>(env, '/v1/invoices/create_preview', {
+				'customer': change.subscription.customer as string,
+				'subscription': change.subscription.id,
+				...buildItemParams(change, tenant.registry, 'subscription_details[items]'),
+				'subscription_details[proration_behavior]': 'always_invoice',
+				'subscription_details[proration_date]': change.prorationDate.toString(),
+			});
+			amountDue = invoice.amount_due;
+			currency = invoice.currency;
+		}
+
+		return new Response(
+			JSON.stringify({
+				tier: change.targetTier.id,
+				currentTier: change.currentTier.id,
+				interval: change.targetInterval,
+				currentInterval: change.currentInterval,
+				upgrade: change.upgrade,
+				amountDue,
+				currency,
+				effectiveAt: change.upgrade ? new Date().toISOString() : change.periodEnd,
+				prorationDate: change.prorationDate,
+			}),
+			{
+				status: 200,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	} catch (error: any) {
+		console.error('Subscription preview error:', error);
+		return new Response(
+			JSON.stringify({ error: error.message || 'Failed to preview plan change' }),
+			{
+				status: 500,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	}
+}
+
+/**
+ * Handle /api/subscription/change - Switch the subscription's plan
+ *
+ * BODY: { tier, interval?, prorationDate? } (prorationDate from the preview)
+ *
+ * RETURNS:
+ * - upgrade:   { changed: true, tier, effectiveAt }
+ * - downgrade: { scheduled: true, tier, effectiveAt } (end of current period)
+ */
+export async function handleSubscriptionChange(
+	ownerId: string,
+	clerkClient: ClerkClient,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	request: Request,
+	tenant: Tenant
+): Promise<Response> {
+	try {
+		const prepared = await preparePlanChange(ownerId, clerkClient, env, corsHeaders, request, tenant);
+		if (prepared.response) return prepared.response;
+		const { change } = prepared;
+		const { subscription, targetTier } = change;
+
+		await releaseSchedule(env, subscription);
+
+		if (change.upgrade) {
+			// Immediate: charge the prorated difference now (fails if the payment fails)
+			await stripeRequest(env, `/v1/subscriptions/${subscription.id}`, {
+				...buildItemParams(change, tenant.registry, 'items'),
+				'proration_behavior': 'always_invoice',
+				'proration_date': change.prorationDate.toString(),
+				'payment_behavior': 'error_if_incomplete',
+				'metadata[tier]': targetTier.id,
+				'metadata[interval]': change.targetInterval,
+			});
+			console.log(`⬆️ Upgraded ${ownerId} from ${change.currentTier.id} (${change.currentInterval}) to ${targetTier.id} (${change.targetInterval})`);
+
+			return new Response(
+				JSON.stringify({ changed: true, tier: targetTier.id, interval: change.targetInterval, effectiveAt: new Date().toISOString() }),
+				{
+					status: 200,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				}
+			);
+		}
+
+		// Downgrade: phase 1 = current plan until period end, phase 2 = new plan
+		const schedule = await stripeRequest<Stripe.SubscriptionSchedule>(env, '/v1/subscription_schedules', {
+			'from_subscription': subscription.id,
+		});
+		const currentPhase = schedule.phases[0];
+
+		const phaseParams: Record<string, string> = {
+			'end_behavior': 'release',
+			'phases[0][start_date]': currentPhase.start_date.toString(),
+			'phases[0][end_date]': currentPhase.end_date.toString(),
+			'phases[1][iterations]': '1',
+			'phases[1][proration_behavior]': 'none',
+			'phases[1][metadata][tier]': targetTier.id,
+			'phases[1][metadata][interval]': change.targetInterval,
+			'phases[1][items][0][price]': change.targetPriceId,
+			'phases[1][items][0][quantity]': getSubscriptionSeats(subscription).toString(),
+		};
+		currentPhase.items.forEach((item, i) => {
+			phaseParams[`phases[0][items][${i}][price]`] = typeof item.price === 'string' ? item.price : item.price.id;
+			if (item.quantity) phaseParams[`phases[0][items][${i}][quantity]`] = item.quantity.toString();
+		});
+		if (targetTier.overage) {
+			phaseParams['phases[1][items][1][price]'] = targetTier.overage.stripePriceId;
+		}
+
+		await stripeRequest(env, `/v1/subscription_schedules/${schedule.id}`, phaseParams);
+		console.log(`🗓️ Scheduled ${ownerId} change from ${change.currentTier.id} (${change.currentInterval}) to ${targetTier.id} (${change.targetInterval}) at ${change.periodEnd}`);
+
+		return new Response(
+			JSON.stringify({ scheduled: true, tier: targetTier.id, interval: change.targetInterval, effectiveAt: change.periodEnd }),
+			{
+				status: 200,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	} catch (error: any) {
+		console.error('Subscription change error:', error);
+		return new Response(
+			JSON.stringify({ error: error.message || 'Failed to change plan' }),
+			{
+				status: 500,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	}
+}
+
+/**
+ * Handle /api/subscription/cancel - Cancel at the end of the current period
+ *
+ * BODY: { reason?, feedback? }
+ * - reason:   one of CANCEL_REASONS (Stripe's cancellation feedback values)
+ * - feedback: free text (max 1000 characters)
+ *
+ * A pending scheduled downgrade is released first (the plan simply ends).
+ *
+ * RETURNS: { cancelAtPeriodEnd: true, endsAt } (ISO, end of current period)
+ */
+export async function handleSubscriptionCancel(
+	ownerId: string,
+	clerkClient: ClerkClient,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	request: Request,
+	tenant: Tenant
+): Promise<Response> {
+	try {
+		const body = await request.json().catch(() => ({})) as { reason?: string; feedback?: string };
+		const reason = body.reason as Stripe.SubscriptionUpdateParams.CancellationDetails.Feedback | undefined;
+		const feedback = typeof body.feedback === 'string' ? body.feedback.trim() : '';
+
+		if (reason && !CANCEL_REASONS.includes(reason)) {
+			return new Response(
+				JSON.stringify({ error: 'Invalid reason', message: `Reason must be one of: ${CANCEL_REASONS.join(', ')}` }),
+				{
+					status: 400,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				}
+			);
+		}
+		if (feedback.length > MAX_FEEDBACK_LENGTH) {
+			return new Response(
+				JSON.stringify({ error: 'Invalid feedback', message: `Feedback is limited to ${MAX_FEEDBACK_LENGTH} characters` }),
+				{
+					status: 400,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				}
+			);
+		}
+
+		const { subscription, message } = await getActiveSubscription(ownerId, clerkClient, env);
+		if (!subscription) {
+			return new Response(
+				JSON.stringify({ error: 'No active subscription', message }),
+				{
+					status: 400,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				}
+			);
+		}
+
+		await releaseSchedule(env, subscription);
+
+		const params: Record<string, string> = { 'cancel_at_period_end': 'true' };
+		if (reason) params['cancellation_details[feedback]'] = reason;
+		if (feedback) params['cancellation_details[comment]'] = feedback;
+		const canceled = await stripeRequest<Stripe.Subscription>(env, `/v1/subscriptions/${subscription.id}`, params);
+		const endsAt = getSubscriptionPeriod(canceled)?.end ?? null;
+
+		// Churn log for review (newest keys sort last)
+		const canceledAt = new Date().toISOString();
+		await env.USAGE_KV.put(
+			tenantKey(tenant, `churn:${canceledAt}:${ownerId}`),
+			JSON.stringify({
+				ownerId,
+				subscriptionId: subscription.id,
+				plan: subscription.metadata?.tier || null,
+				reason: reason || null,
+				feedback: feedback || null,
+				canceledAt,
+				endsAt,
+			}),
+			{ expirationTtl: 31536000 }  // 1 year
+		);
+
+		// Show the end date right away (the webhook writes the same fields)
+		let previous: BillingState | undefined;
+		await updateBillingState(clerkClient, ownerId, (current) => {
+			previous = current;
+			return { cancelAtPeriodEnd: true, currentPeriodEnd: endsAt };
+		});
+		console.log(`🛑 ${ownerId} canceled ${subscription.id} at period end (${endsAt}), reason: ${reason || 'none'}`);
+
+		// Outbound webhook - unless the Stripe webhook got here first and sent it
+		if (previous && !previous.cancelAtPeriodEnd) {
+			await emitWebhookEvent(env, tenant, 'subscription.canceled', {
+				ownerId,
+				plan: previous.plan || null,
+				subscriptionId: subscription.id,
+				endsAt,
+				immediate: false,
+				reason: reason || null,
+			});
+		}
+
+		return new Response(
+			JSON.stringify({ cancelAtPeriodEnd: true, endsAt }),
+			{
+				status: 200,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	} catch (error: any) {
+		console.error('Subscription cancel error:', error);
+		return new Response(
+			JSON.stringify({ error: error.message || 'Failed to cancel subscription' }),
+			{
+				status: 500,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	}
+}
+
+/**
+ * Handle /api/subscription/resume - Undo a pending cancellation
+ *
+ * Only before the period ends - after that the subscription is gone and the
+ * user subscribes again through checkout.
+ *
+ * RETURNS: { cancelAtPeriodEnd: false, renewsAt } (ISO, next renewal)
+ */
+export async function handleSubscriptionResume(
+	ownerId: string,
+	clerkClient: ClerkClient,
+	env: Env,
+	corsHeaders: Record<string, string>
+): Promise<Response> {
+	try {
+		const { subscription, message } = await getActiveSubscription(ownerId, clerkClient, env);
+		if (!subscription || !subscription.cancel_at_period_end) {
+			return new Response(
+				JSON.stringify({
+					error: subscription ? 'Not canceled' : 'No active subscription',
+					message: subscription ? 'Subscription is not scheduled to cancel' : message,
+				}),
+				{
+					status: 400,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				}
+			);
+		}
+
+		const resumed = await stripeRequest<Stripe.Subscription>(env, `/v1/subscriptions/${subscription.id}`, {
+			'cancel_at_period_end': 'false',
+		});
+		const renewsAt = getSubscriptionPeriod(resumed)?.end ?? null;
+
+		await updateBillingState(clerkClient, ownerId, () => ({ cancelAtPeriodEnd: false }));
+		console.log(`▶️ ${ownerId} resumed ${subscription.id}`);
+
+		return new Response(
+			JSON.stringify({ cancelAtPeriodEnd: false, renewsAt }),
+			{
+				status: 200,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	} catch (error: any) {
+		console.error('Subscription resume error:', error);
+		return new Response(
+			JSON.stringify({ error: error.message || 'Failed to resume subscription' }),
+			{
+				status: 500,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	}
+}
+
+/**
+ * Handle /api/subscription/seats - Change the seats of a team subscription
+ *
+ * BODY: { seats } (whole number, at least the organization's member count)
+ *
+ * Not while a plan change is scheduled - the schedule's next phase would
+ * reset the quantity. Try again once it has applied.
+ *
+ * RETURNS: { seats }
+ */
+export async function handleSubscriptionSeats(
+	ownerId: string,
+	clerkClient: ClerkClient,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	request: Request,
+	tenant: Tenant
+): Promise<Response> {
+	const fail = (status: number, error: string, message?: string) => new Response(
+		JSON.stringify({ error, message }),
+		{
+			status,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		}
+	);
+
+	try {
+		if (!isOrganizationId(ownerId)) {
+			return fail(400, 'Not a team plan', 'Seats only apply to organization subscriptions');
+		}
+
+		const body = await request.json().catch(() => ({})) as { seats?: number };
+		const organization = await clerkClient.organizations.getOrganization({
+			organizationId: ownerId,
+			includeMembersCount: true,
+		});
+		const members: number = organization.membersCount || 1;
+		const seats = body.seats;
+		if (typeof seats !== 'number' || !Number.isInteger(seats) || seats < members) {
+			return fail(400, 'Invalid seats', `Seats must be a whole number of at least ${members} (current members)`);
+		}
+
+		const { subscription, message } = await getActiveSubscription(ownerId, clerkClient, env);
+		if (!subscription) {
+			return fail(400, 'No active subscription', message);
+		}
+		if (subscription.schedule) {
+			return fail(409, 'Plan change scheduled', 'Change seats after the scheduled plan change applies');
+		}
+
+		const baseItem = subscription.items.data.find((item) => findTierByPriceId(tenant.registry, item.price.id));
+		if (!baseItem) {
+			return fail(400, 'Unknown plan', 'Subscription has no configured tier price');
+		}
+
+		const currentSeats = baseItem.quantity || 1;
+		if (seats !== currentSeats) {
+			await stripeRequest(env, `/v1/subscriptions/${subscription.id}`, {
+				'items[0][id]': baseItem.id,
+				'items[0][quantity]': seats.toString(),
+				// More seats: charge the difference now. Fewer: credit the next invoice
+				'proration_behavior': seats > currentSeats ? 'always_invoice' : 'create_prorations',
+				'payment_behavior': 'error_if_incomplete',
+			});
+			await updateBillingState(clerkClient, ownerId, () => ({ seats }));
+			console.log(`💺 ${ownerId} seats ${currentSeats} → ${seats}`);
+		}
+
+		return new Response(JSON.stringify({ seats }), {
+			status: 200,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		});
+	} catch (error: any) {
+		console.error('Subscription seats error:', error);
+		return fail(500, error.message || 'Failed to change seats');
+	}
+}
@@ -4,159 +4,284 @@
  * ============================================================================
  *
  * Endpoints for:
- * - Processing requests and tracking usage
+ * - Product routes (registered ProductHandlers - see products/registry.ts):
+ *   validation, credit reservation, commit or refund
  * - Checking current usage and limits
+ * - Usage history (daily buckets, past periods)
  */
 
-import { Env, PlanTier, UsageData } from '../types';
-import { TIER_CONFIG } from '../config/tiers';
-import { getCurrentPeriod, shouldResetUsage } from '../services/kv';
+import { Env, PlanTier } from '../types';
+import { TierRegistry, findTier, unknownTierMessage } from '../config/tierRegistry';
+import { Tenant } from '../services/tenant';
+import { BillingPlan } from '../services/billing';
+import { consumeUsage, getUsage, getUsageHistory, refundUsage } from '../services/usageCounter';
+import { toDateString } from '../services/kv';
+import { emitWebhookEvent, getUsageWebhookEvent } from '../services/webhooks';
+import { sendUsageAlerts } from '../services/usageAlerts';
+import { requireEntitlement } from '../services/entitlements';
+import {
+	ProductContext,
+	ProductEnvelope,
+	ProductError,
+	RegisteredProductHandler,
+	isProductError,
+	productError,
+} from '../products/registry';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Default / max date ranges for /api/usage/history
+ */
+const HISTORY_DEFAULT_DAYS = { day: 30, period: 365 };
+const HISTORY_MAX_DAYS = 366;
 
 /**
- * Handle /api/data - Process request and track usage
+ * Response for a plan that isn't in the tier registry
+ *
+ * WHY NOT a limit of 0: a plan missing from config.ts is a deploy problem,
+ * not the user running out of quota - say so explicitly.
+ */
+function unknownPlanResponse(
+	plan: PlanTier,
+	registry: TierRegistry,
+	corsHeaders: Record<string, string>
+): Response {
+	console.error(`❌ ${unknownTierMessage(registry, plan)}`);
+	return new Response(
+		JSON.stringify({
+			error: 'Unknown plan',
+			plan,
+			message: unknownTierMessage(registry, plan),
+		}),
+		{
+			status: 403,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		}
+	);
+}
+
+/**
+ * Handle a product route (POST /api/data and every other registered
+ * ProductHandler - see products/registry.ts)
  *
  * WHAT THIS DOES:
- * 1. Gets current usage from KV
- * 2. Resets usage if new billing period (for limited tiers)
- * 3. Checks if tier limit exceeded
- * 4. Increments usage counter
- * 5. Returns success response with usage info
+ * 1. Resolves the user's tier from the registry and checks the handler
+ *    allows it and its entitlements (403 Upgrade required otherwise)
+ * 2. Validates the body against the handler's input schema (400)
+ * 3. Computes the credit cost and, atomically (UsageCounter Durable Object,
+ *    one per user):
+ *    - Resets usage if new billing period (for limited tiers)
+ *    - Checks if the credits would exceed the tier limit
+ *    - Reserves the credits
+ * 4. Runs the handler - if it fails, the credits are refunded (rollback)
+ * 5. Sends usage.threshold_reached / usage.limit_reached webhooks and the
+ *    tier's usage alert emails when this request crossed a threshold
+ *    (services/webhooks.ts, services/usageAlerts.ts - both go out after
+ *    the response, via executionCtx.waitUntil)
+ * 6. Returns the ProductEnvelope with usage info
+ *
+ * Nothing is counted for requests rejected in steps 1-3.
  *
- * THIS IS WHERE YOUR PRODUCT LOGIC GOES:
- * Replace the placeholder "Request processed successfully" with your actual
- * business logic (document processing, API call, etc.)
+ * METERED TIERS ("overage" in config.ts):
+ * Credits past the limit are allowed and billed as overage - see
+ * services/metering.ts. The response reports the overage so far this period.
  */
-export async function handleDataRequest(
+export async function handleProductRequest(
+	handler: RegisteredProductHandler,
 	userId: string,
 	plan: PlanTier,
 	env: Env,
-	corsHeaders: Record<string, string>
+	corsHeaders: Record<string, string>,
+	tenant: Tenant,
+	request: Request,
+	executionCtx: ExecutionContext
 ): Promise<Response> {
-	// Get current usage
-	const usageKey = `usage:${userId}`;
-	const usageDataRaw = await env.USAGE_KV.get(usageKey);
+	const { registry } = tenant;
 
-	const currentPeriod = getCurrentPeriod();
+	const respond = (status: number, body: ProductEnvelope<unknown>) => new Response(JSON.stringify(body), {
+		status,
+		headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+	});
+	const fail = (failure: ProductError) => respond(failure.status, {
+		success: false,
+		error: failure.error,
+		message: failure.message,
+		...(failure.details && { details: failure.details }),
+	});
 
-	let usageData: UsageData = usageDataRaw
-		? JSON.parse(usageDataRaw)
-		: {
-				usageCount: 0,
-				plan,
-				lastUpdated: new Date().toISOString(),
-				periodStart: currentPeriod.start,
-				periodEnd: currentPeriod.end,
-		  };
-
-	// Get tier limit from config
-	const tierLimit = TIER_CONFIG[plan]?.limit || 0;
-
-	// Reset usage if new billing period (for limited tiers)
-	if (tierLimit !== Infinity && shouldResetUsage(usageData)) {
-		usageData.usageCount = 0;
-		usageData.periodStart = currentPeriod.start;
-		usageData.periodEnd = currentPeriod.end;
+	// Resolve tier from registry (fail explicitly for unknown plans)
+	const tier = findTier(registry, plan);
+	if (!tier) {
+		console.error(`❌ ${unknownTierMessage(registry, plan)}`);
+		return fail(productError(403, 'Unknown plan', unknownTierMessage(registry, plan), { plan }));
 	}
 
-	// Update plan if changed
-	usageData.plan = plan;
+	if (handler.tiers && !handler.tiers.includes(tier.id)) {
+		return fail(productError(
+			403,
+			'Upgrade required',
+			`${handler.id} is not included in the ${tier.name} plan`,
+			{ plan, allowedTiers: handler.tiers }
+		));
+	}
 
-	// Check if tier limit exceeded
-	if (tierLimit !== Infinity && usageData.usageCount >= tierLimit) {
-		return new Response(
-			JSON.stringify({
-				error: 'Tier limit reached',
-				usageCount: usageData.usageCount,
-				limit: tierLimit,
-				message: 'Please upgrade to unlock more requests',
-			}),
-			{
-				status: 403,
-				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-			}
-		);
+	for (const key of handler.entitlements || []) {
+		const denied = requireEntitlement(registry, tier, key);
+		if (denied) return fail(denied);
 	}
 
-	// ========================================================================
-	// YOUR PRODUCT LOGIC GOES HERE
-	// ========================================================================
-	// Replace this placeholder with your actual business logic:
-	// - Process documents
-	// - Make API calls
-	// - Run AI models
-	// - Generate reports
-	// etc.
-	//
-	// Example:
-	// const result = await processDocument(userId, plan, requestBody);
-	// ========================================================================
-
-	// Increment usage count
-	usageData.usageCount++;
-	usageData.lastUpdated = new Date().toISOString();
-	await env.USAGE_KV.put(usageKey, JSON.stringify(usageData));
-
-	// Return success response
-	return new Response(
-		JSON.stringify({
-			success: true,
-			data: { message: 'Request processed successfully' },
-			usage: {
-				count: usageData.usageCount,
-				limit: tierLimit === Infinity ? 'unlimited' : tierLimit,
-				plan,
-			},
-		}),
-		{
-			status: 200,
-			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+	// Get tier limit from registry
+	const tierLimit = tier.limit;
+
+	// Validate the body (an empty body is {})
+	const body = await request.text();
+	let parsed: unknown = {};
+	if (body.trim()) {
+		try {
+			parsed = JSON.parse(body);
+		} catch {
+			return fail(productError(400, 'Invalid input', 'Request body must be JSON'));
 		}
+	}
+	const prepared = handler.prepare(parsed);
+	if (isProductError(prepared)) {
+		return fail(prepared);
+	}
+
+	const ctx: ProductContext = { env, tenant, ownerId: userId, plan, tier, request };
+	const cost = prepared.credits(ctx);
+	if (isProductError(cost)) {
+		return fail(cost);
+	}
+
+	// Atomic check-and-reserve in the user's UsageCounter Durable Object
+	// (resets usage if new billing period, for limited tiers - periods follow
+	// the subscriber's Stripe billing cycle, see getCurrentPeriod)
+	const { allowed, usage: usageData, reservation } = await consumeUsage(
+		env,
+		tenant,
+		userId,
+		plan,
+		tierLimit,
+		tier.usagePeriod,
+		tier.overage?.meterEventName ?? null,
+		cost
 	);
+
+	// Check if the credits would exceed the tier limit (metered tiers bill overage instead)
+	if (!allowed || !reservation) {
+		const remaining = Math.max(0, tierLimit - usageData.usageCount);
+		return fail(productError(
+			403,
+			'Tier limit reached',
+			`This request needs ${cost} credits but only ${remaining} are left. Please upgrade to unlock more credits`,
+			{ usageCount: usageData.usageCount, limit: tierLimit, remaining, cost }
+		));
+	}
+
+	// Run the product logic - any failure rolls the reservation back
+	let result: unknown;
+	try {
+		result = await prepared.handle(ctx);
+	} catch (error) {
+		console.error(`❌ ${handler.id} failed for ${userId}:`, error instanceof Error ? error.message : error);
+		result = productError(500, 'Request failed', 'The request could not be processed');
+	}
+
+	if (isProductError(result)) {
+		const refund = await refundUsage(env, tenant, userId, plan, tier.usagePeriod, reservation).catch((err) => {
+			console.error(`❌ Failed to refund ${cost} credits for ${userId}:`, err.message);
+			return null;
+		});
+		return fail({ ...result, details: { ...result.details, refunded: refund?.refunded ?? 0 } });
+	}
+
+	// Tell the storefront's backend about quota milestones (once per period)
+	// after the response is sent (emitWebhookEvent never throws)
+	const usageEvent = getUsageWebhookEvent(tier, usageData.usageCount, cost);
+	if (usageEvent) {
+		executionCtx.waitUntil(emitWebhookEvent(env, tenant, usageEvent.type, {
+			ownerId: userId,
+			plan,
+			usageCount: usageData.usageCount,
+			limit: tierLimit,
+			...(usageEvent.thresholdPercent !== undefined && { thresholdPercent: usageEvent.thresholdPercent }),
+			periodStart: usageData.periodStart,
+			periodEnd: usageData.periodEnd,
+		}));
+	}
+
+	// Email the billing owner at the tier's alert thresholds (e.g. 80%, 100%)
+	// after the response is sent too (Clerk lookup + mail send)
+	executionCtx.waitUntil(sendUsageAlerts(env, tenant, userId, tier, usageData, cost));
+
+	return respond(200, {
+		success: true,
+		data: result,
+		usage: {
+			count: usageData.usageCount,
+			limit: tierLimit === Infinity ? 'unlimited' : tierLimit,
+			plan,
+			unit: 'credits',
+			charged: { operation: handler.id, credits: cost },
+			...(tier.overage && { overage: Math.max(0, usageData.usageCount - tierLimit) }),
+		},
+	});
 }
 
 /**
  * Handle /api/usage - Get current usage and limits
  *
- * WHAT THIS RETURNS:
- * - Current usage count
+ * WHAT THIS RETURNS (all amounts in credits):
+ * - Credits used this period
  * - Tier limit
- * - Remaining requests
+ * - Remaining credits
  * - Billing period dates
  * - User's current plan
+ * - Operation catalog (credits per unit of size)
+ * - Overage this period (metered tiers only)
+ * - Billing status + grace period end (failed payments only)
  */
 export async function handleUsageCheck(
 	userId: string,
 	plan: PlanTier,
 	env: Env,
-	corsHeaders: Record<string, string>
+	corsHeaders: Record<string, string>,
+	tenant: Tenant,
+	billing?: BillingPlan
 ): Promise<Response> {
-	const usageKey = `usage:${userId}`;
-	const usageDataRaw = await env.USAGE_KV.get(usageKey);
+	const { registry } = tenant;
 
-	const currentPeriod = getCurrentPeriod();
+	const tier = findTier(registry, plan);
+	if (!tier) {
+		return unknownPlanResponse(plan, registry, corsHeaders);
+	}
 
-	const usageData: UsageData = usageDataRaw
-		? JSON.parse(usageDataRaw)
-		: {
-				usageCount: 0,
-				plan,
-				lastUpdated: new Date().toISOString(),
-				periodStart: currentPeriod.start,
-				periodEnd: currentPeriod.end,
-		  };
+	// Read through the user's UsageCounter (seeded from KV on first access)
+	const usageData = await getUsage(env, tenant, userId, plan, tier.limit, tier.usagePeriod);
 
-	// Get tier limit from config
-	const tierLimit = TIER_CONFIG[plan]?.limit || 0;
+	// Get tier limit from registry
+	const tierLimit = tier.limit;
 
 	return new Response(
 		JSON.stringify({
 			userId,
 			plan,
+			unit: 'credits',
 			usageCount: usageData.usageCount,
 			limit: tierLimit === Infinity ? 'unlimited' : tierLimit,
 			remaining: tierLimit === Infinity ? 'unlimited' : Math.max(0, tierLimit - usageData.usageCount),
 			periodStart: usageData.periodStart,
 			periodEnd: usageData.periodEnd,
+			operations: tenant.operations.operations,
+			...(tier.overage && { overage: Math.max(0, usageData.usageCount - tierLimit) }),
+			...(billing?.graceEndsAt && {
+				billingStatus: billing.billingStatus,
+				graceEndsAt: billing.graceEndsAt,
+				downgraded: billing.downgraded,
+			}),
 		}),
 		{
 			status: 200,
@@ -164,3 +289,107 @@ export async function handleUsageCheck(
 		}
 	);
 }
+
+/**
+ * Handle /api/usage/history - Usage over time
+ *
+ * QUERY:
+ * - granularity: "day" (default) or "period"
+ * - from / to: YYYY-MM-DD, inclusive (UTC). Defaults: to = today,
+ *   from = 30 days (day) or 1 year (period) before
+ *
+ * RETURNS:
+ * - day:    one bucket per day in the range (zero-filled)
+ * - period: closed periods overlapping the range + the current period
+ *
+ * Daily buckets are kept ~400 days, closed periods 24 (see UsageCounter).
+ */
+export async function handleUsageHistory(
+	userId: string,
+	plan: PlanTier,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	tenant: Tenant,
+	url: URL
+): Promise<Response> {
+	const { registry } = tenant;
+
+	const tier = findTier(registry, plan);
+	if (!tier) {
+		return unknownPlanResponse(plan, registry, corsHeaders);
+	}
+
+	// Parse + validate query
+	const granularity = url.searchParams.get('granularity') || 'day';
+	const to = url.searchParams.get('to') || toDateString(new Date());
+	const defaultDays = granularity === 'period' ? HISTORY_DEFAULT_DAYS.period : HISTORY_DEFAULT_DAYS.day;
+	const from = url.searchParams.get('from') ||
+		(isValidDate(to) ? toDateString(new Date(Date.parse(to) - (defaultDays - 1) * DAY_MS)) : '');
+
+	let error: string | null = null;
+	if (granularity !== 'day' && granularity !== 'period') {
+		error = 'granularity must be "day" or "period"';
+	} else if (!isValidDate(from) || !isValidDate(to)) {
+		error = 'from and to must be dates (YYYY-MM-DD)';
+	} else if (from > to) {
+		error = 'from must not be after to';
+	} else if ((Date.parse(to) - Date.parse(from)) / DAY_MS + 1 > HISTORY_MAX_DAYS) {
+		error = `Date range is limited to ${HISTORY_MAX_DAYS} days`;
+	}
+	if (error) {
+		return new Response(
+			JSON.stringify({ error: 'Invalid query', message: error }),
+			{
+				status: 400,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	}
+
+	const { history, usage } = await getUsageHistory(env, tenant, userId, plan, tier.limit, tier.usagePeriod);
+
+	let result: Record<string, unknown>;
+	if (granularity === 'day') {
+		const buckets: { date: string; count: number }[] = [];
+		for (let t = Date.parse(from); t <= Date.parse(to); t += DAY_MS) {
+			const date = toDateString(new Date(t));
+			buckets.push({ date, count: history.days[date] || 0 });
+		}
+		result = { buckets };
+	} else {
+		const periods = [
+			...history.periods.map((p) => ({ ...p, current: false })),
+			{
+				periodStart: usage.periodStart,
+				periodEnd: usage.periodEnd,
+				usageCount: usage.usageCount,
+				plan,
+				current: true,
+			},
+		].filter((p) => !p.periodStart || !p.periodEnd || (p.periodStart <= to && p.periodEnd >= from));
+		result = { periods };
+	}
+
+	return new Response(
+		JSON.stringify({
+			userId,
+			plan,
+			granularity,
+			from,
+			to,
+			limit: tier.limit === Infinity ? 'unlimited' : tier.limit,
+			...result,
+		}),
+		{
+			status: 200,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		}
+	);
+}
+
+/**
+ * YYYY-MM-DD that is a real calendar date
+ */
+function isValidDate(value: string): boolean {
+	return DATE_PATTERN.test(value) && toDateString(new Date(value)) === value;
+}
@@ -0,0 +1,228 @@
+/**
+ * ============================================================================
+ * WEBHOOK ENDPOINT ROUTES - Register endpoints and read the delivery log
+ * ============================================================================
+ *
+ * Endpoints for (storefront owner only - see isTenantOwner in services/tenant.ts):
+ * - GET    /api/webhooks/endpoints                     → registered endpoints
+ * - POST   /api/webhooks/endpoints                     → register (secret returned ONCE)
+ * - DELETE /api/webhooks/endpoints/:id                 → remove
+ * - GET    /api/webhooks/endpoints/:id/deliveries      → delivery log, newest first
+ * - GET    /api/webhooks/endpoints/:id/deliveries/:id  → one delivery (payload, last error)
+ *
+ * Events, signing and retries live in services/webhooks.ts.
+ */
+
+import { Env } from '../types';
+import { Tenant } from '../services/tenant';
+import {
+	MAX_WEBHOOK_ENDPOINTS,
+	WEBHOOK_EVENT_TYPES,
+	WebhookEndpoint,
+	WebhookEventType,
+	createWebhookEndpoint,
+	deleteWebhookEndpoint,
+	getWebhookDelivery,
+	isValidWebhookUrl,
+	listWebhookDeliveries,
+	listWebhookEndpoints,
+} from '../services/webhooks';
+
+/**
+ * Longest endpoint description
+ */
+const MAX_DESCRIPTION_LENGTH = 200;
+
+/**
+ * Deliveries per page (default / max)
+ */
+const DELIVERIES_DEFAULT_LIMIT = 50;
+const DELIVERIES_MAX_LIMIT = 100;
+
+/**
+ * Endpoint fields returned to the client (the secret is only returned on create)
+ */
+function toPublicEndpoint(endpoint: WebhookEndpoint) {
+	return {
+		id: endpoint.id,
+		url: endpoint.url,
+		description: endpoint.description,
+		events: endpoint.events,
+		createdAt: endpoint.createdAt,
+	};
+}
+
+/**
+ * Handle GET /api/webhooks/endpoints - List the tenant's endpoints
+ *
+ * RETURNS: { endpoints: [{ id, url, description, events, createdAt }], eventTypes }
+ */
+export async function handleListWebhookEndpoints(
+	env: Env,
+	corsHeaders: Record<string, string>,
+	tenant: Tenant
+): Promise<Response> {
+	const endpoints = await listWebhookEndpoints(env, tenant);
+	return new Response(
+		JSON.stringify({ endpoints: endpoints.map(toPublicEndpoint), eventTypes: WEBHOOK_EVENT_TYPES }),
+		{
+			status: 200,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		}
+	);
+}
+
+/**
+ * Handle POST /api/webhooks/endpoints - Register an endpoint
+ *
+ * BODY: { url, events?, description? } (no events = all events)
+ *
+ * RETURNS: { endpoint, secret }
+ * The signing secret is never shown again.
+ */
+export async function handleCreateWebhookEndpoint(
+	userId: string,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	request: Request,
+	tenant: Tenant
+): Promise<Response> {
+	const fail = (status: number, error: string, message: string) => new Response(
+		JSON.stringify({ error, message }),
+		{
+			status,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		}
+	);
+
+	const body = await request.json().catch(() => ({})) as {
+		url?: unknown;
+		events?: unknown;
+		description?: unknown;
+	};
+
+	if (typeof body.url !== 'string' || !isValidWebhookUrl(body.url)) {
+		return fail(400, 'Invalid url', 'url must be an https URL');
+	}
+
+	const events = body.events ?? [];
+	if (!Array.isArray(events) || events.some((e) => !WEBHOOK_EVENT_TYPES.includes(e))) {
+		return fail(400, 'Invalid events', `events must be a list of: ${WEBHOOK_EVENT_TYPES.join(', ')}`);
+	}
+
+	const description = typeof body.description === 'string' ? body.description.trim() : '';
+	if (description.length > MAX_DESCRIPTION_LENGTH) {
+		return fail(400, 'Invalid description', `description is limited to ${MAX_DESCRIPTION_LENGTH} characters`);
+	}
+
+	const endpoint = await createWebhookEndpoint(
+		env,
+		tenant,
+		body.url,
+		[...new Set(events as WebhookEventType[])],
+		description || null
+	);
+	if (!endpoint) {
+		return fail(409, 'Too many webhook endpoints', `You can register up to ${MAX_WEBHOOK_ENDPOINTS} endpoints. Remove one first.`);
+	}
+
+	console.log(`📤 ${userId} registered webhook endpoint ${endpoint.id} (${endpoint.url})`);
+	return new Response(
+		JSON.stringify({ endpoint: toPublicEndpoint(endpoint), secret: endpoint.secret }),
+		{
+			status: 201,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		}
+	);
+}
+
+/**
+ * Handle DELETE /api/webhooks/endpoints/:id - Remove an endpoint
+ *
+ * Pending deliveries to it are marked failed by the next cron run.
+ */
+export async function handleDeleteWebhookEndpoint(
+	userId: string,
+	endpointId: string,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	tenant: Tenant
+): Promise<Response> {
+	const deleted = await deleteWebhookEndpoint(env, tenant, endpointId);
+	if (!deleted) {
+		return new Response(JSON.stringify({ error: 'Webhook endpoint not found' }), {
+			status: 404,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		});
+	}
+
+	console.log(`📤 ${userId} removed webhook endpoint ${endpointId}`);
+	return new Response(
+		JSON.stringify({ deleted: true, id: endpointId }),
+		{
+			status: 200,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		}
+	);
+}
+
+/**
+ * Handle GET /api/webhooks/endpoints/:id/deliveries - Delivery log
+ *
+ * QUERY:
+ * - limit: 1-100 (default 50)
+ * - cursor: from the previous page
+ *
+ * RETURNS: { deliveries: [{ id, eventId, type, status, attempts, lastStatus,
+ *   createdAt }], cursor } (cursor is null on the last page)
+ */
+export async function handleListWebhookDeliveries(
+	endpointId: string,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	tenant: Tenant,
+	url: URL
+): Promise<Response> {
+	const limit = Number(url.searchParams.get('limit') || DELIVERIES_DEFAULT_LIMIT);
+	if (!Number.isInteger(limit) || limit < 1 || limit > DELIVERIES_MAX_LIMIT) {
+		return new Response(
+			JSON.stringify({ error: 'Invalid limit', message: `limit must be 1-${DELIVERIES_MAX_LIMIT}` }),
+			{
+				status: 400,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			}
+		);
+	}
+
+	const page = await listWebhookDeliveries(env, tenant, endpointId, limit, url.searchParams.get('cursor') || undefined);
+	return new Response(JSON.stringify(page), {
+		status: 200,
+		headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+	});
+}
+
+/**
+ * Handle GET /api/webhooks/endpoints/:id/deliveries/:deliveryId - One delivery
+ *
+ * RETURNS: { delivery } (full event payload, attempts, last status/error)
+ */
+export async function handleGetWebhookDelivery(
+	endpointId: string,
+	deliveryId: string,
+	env: Env,
+	corsHeaders: Record<string, string>,
+	tenant: Tenant
+): Promise<Response> {
+	const delivery = await getWebhookDelivery(env, tenant, endpointId, deliveryId);
+	if (!delivery) {
+		return new Response(JSON.stringify({ error: 'Delivery not found' }), {
+			status: 404,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		});
+	}
+
+	return new Response(JSON.stringify({ delivery }), {
+		status: 200,
+		headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+	});
+}
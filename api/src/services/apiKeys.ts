@@ -0,0 +1,226 @@
+/**
+ * ============================================================================
+ * API KEYS - Programmatic access without a Clerk session
+ * ============================================================================
+ *
+ * Scripts and CI can't hold a Clerk session, so users create API keys and
+ * send them instead of the JWT:
+ *
+ *   Authorization: Bearer sk_live_...
+ *
+ * The request then runs as the key's owner with the same plan, usage
+ * counting and rate limits as a JWT request (see index.ts STEP 4).
+ *
+ * STORAGE (USAGE_KV, namespaced per tenant via tenantKey()):
+ * - apikeys:{userId}   → ApiKey[] (the user's keys: id, name, prefix, hash)
+ * - apikey:{sha256}    → ApiKeyLookup (owner, read on every request)
+ * - apikey-used:{keyId} → ISO timestamp of the key's last use
+ *
+ * Only the SHA-256 hash of a secret is stored - the full key is returned
+ * once, when it's created. Keys are high-entropy random strings, so an
+ * unsalted hash is enough (no password-style stretching needed).
+ *
+ * lastUsedAt has its own record, the only one the auth path writes: it never
+ * races with create/rename/revoke on the user's list, and a request that
+ * overlaps a revoke can't write the lookup record back. It's written at most
+ * every LAST_USED_RESOLUTION_MS to keep KV writes down.
+ *
+ * ============================================================================
+ */
+
+import { Env } from '../types';
+import { Tenant, tenantKey } from './tenant';
+
+/**
+ * Prefix that marks a bearer token as an API key (not a Clerk JWT)
+ */
+export const API_KEY_PREFIX = 'sk_live_';
+
+/**
+ * Keys per user
+ */
+export const MAX_API_KEYS_PER_USER = 10;
+
+/**
+ * Longest key name
+ */
+export const MAX_API_KEY_NAME_LENGTH = 64;
+
+/**
+ * Characters of the secret kept for display (e.g. "sk_live_a1b2")
+ */
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 4;
+
+/**
+ * How often lastUsedAt is refreshed (5 minutes)
+ */
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+/**
+ * An API key as listed to its owner (never includes the secret)
+ */
+export interface ApiKey {
+	id: string;
+	name: string;
+	prefix: string;           // First characters of the secret, for display
+	hash: string;             // SHA-256 of the secret (hex)
+	createdAt: string;        // ISO timestamp
+}
+
+/**
+ * Lookup record: secret hash → owner
+ */
+interface ApiKeyLookup {
+	id: string;
+	userId: string;
+}
+
+/**
+ * SHA-256 of a secret (hex)
+ */
+async function hashSecret(secret: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+	return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Random hex string (bytes * 2 characters)
+ */
+function randomHex(bytes: number): string {
+	return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function listKey(tenant: Tenant, userId: string): string {
+	return tenantKey(tenant, `apikeys:${userId}`);
+}
+
+function lookupKey(tenant: Tenant, hash: string): string {
+	return tenantKey(tenant, `apikey:${hash}`);
+}
+
+function lastUsedKey(tenant: Tenant, keyId: string): string {
+	return tenantKey(tenant, `apikey-used:${keyId}`);
+}
+
+/**
+ * Does this bearer token look like an API key?
+ */
+export function isApiKey(token: string): boolean {
+	return token.startsWith(API_KEY_PREFIX);
+}
+
+/**
+ * The user's keys with their last-used time (oldest first)
+ */
+export async function listApiKeys(
+	env: Env,
+	tenant: Tenant,
+	userId: string
+): Promise<(ApiKey & { lastUsedAt: string | null })[]> {
+	const keys = await env.USAGE_KV.get<ApiKey[]>(listKey(tenant, userId), 'json') || [];
+	return Promise.all(
+		keys.map(async (key) => {
+			const lastUsedAt = await env.USAGE_KV.get(lastUsedKey(tenant, key.id));
+			return { ...key, lastUsedAt };
+		})
+	);
+}
+
+/**
+ * Create a key
+ *
+ * @returns The stored key plus the secret (shown once), or null if the user
+ *          already has MAX_API_KEYS_PER_USER keys
+ */
+export async function createApiKey(
+	env: Env,
+	tenant: Tenant,
+	userId: string,
+	name: string
+): Promise<{ key: ApiKey; secret: string } | null> {
+	const keys = await env.USAGE_KV.get<ApiKey[]>(listKey(tenant, userId), 'json') || [];
+	if (keys.length >= MAX_API_KEYS_PER_USER) return null;
+
+	const secret = `${API_KEY_PREFIX}${randomHex(32)}`;
+	const key: ApiKey = {
+		id: `key_${randomHex(8)}`,
+		name,
+		prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+		hash: await hashSecret(secret),
+		createdAt: new Date().toISOString(),
+	};
+
+	// Lookup first: a key in the list always resolves
+	const lookup: ApiKeyLookup = { id: key.id, userId };
+	await env.USAGE_KV.put(lookupKey(tenant, key.hash), JSON.stringify(lookup));
+	await env.USAGE_KV.put(listKey(tenant, userId), JSON.stringify([...keys, key]));
+
+	return { key, secret };
+}
+
+/**
+ * Rename a key
+ *
+ * @returns The updated key, or null if the user has no key with this ID
+ */
+export async function renameApiKey(
+	env: Env,
+	tenant: Tenant,
+	userId: string,
+	keyId: string,
+	name: string
+): Promise<ApiKey | null> {
+	const keys = await env.USAGE_KV.get<ApiKey[]>(listKey(tenant, userId), 'json') || [];
+	const key = keys.find((k) => k.id === keyId);
+	if (!key) return null;
+
+	key.name = name;
+	await env.USAGE_KV.put(listKey(tenant, userId), JSON.stringify(keys));
+	return key;
+}
+
+/**
+ * Revoke a key (stops working immediately, modulo KV propagation)
+ *
+ * @returns false if the user has no key with this ID
+ */
+export async function revokeApiKey(
+	env: Env,
+	tenant: Tenant,
+	userId: string,
+	keyId: string
+): Promise<boolean> {
+	const keys = await env.USAGE_KV.get<ApiKey[]>(listKey(tenant, userId), 'json') || [];
+	const key = keys.find((k) => k.id === keyId);
+	if (!key) return false;
+
+	await env.USAGE_KV.delete(lookupKey(tenant, key.hash));
+	await env.USAGE_KV.delete(lastUsedKey(tenant, key.id));
+	await env.USAGE_KV.put(listKey(tenant, userId), JSON.stringify(keys.filter((k) => k.id !== keyId)));
+	return true;
+}
+
+/**
+ * Resolve an API key to its owner (and record the use)
+ *
+ * @param secret - Full key from the Authorization header
+ * @returns Owner's user ID and key ID, or null for unknown/revoked keys
+ */
+export async function verifyApiKey(
+	env: Env,
+	tenant: Tenant,
+	secret: string
+): Promise<{ userId: string; keyId: string } | null> {
+	const hash = await hashSecret(secret);
+	const lookup = await env.USAGE_KV.get<ApiKeyLookup>(lookupKey(tenant, hash), 'json');
+	if (!lookup) return null;
+
+	// Never write the lookup record here - revokeApiKey deletes it
+	const now = new Date();
+	const lastUsedAt = await env.USAGE_KV.get(lastUsedKey(tenant, lookup.id));
+	if (!lastUsedAt || now.getTime() - new Date(lastUsedAt).getTime() > LAST_USED_RESOLUTION_MS) {
+		await env.USAGE_KV.put(lastUsedKey(tenant, lookup.id), now.toISOString());
+	}
+
+	return { userId: lookup.userId, keyId: lookup.id };
+}
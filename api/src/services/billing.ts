@@ -0,0 +1,90 @@
+/**
+ * ============================================================================
+ * BILLING STATUS - Failed payments and grace period
+ * ============================================================================
+ *
+ * When a renewal payment fails Stripe marks the subscription past_due (and
+ * unpaid once retries are exhausted) but keeps it alive. Without this module
+ * the user would keep their paid plan until Stripe finally deletes it.
+ *
+ * FLOW:
+ * 1. invoice.payment_failed / subscription status → webhook stores
+ *    billingStatus + pastDueSince in Clerk publicMetadata
+ * 2. JWT template exposes them as claims (next to plan):
+ *    { "billingStatus": "{{user.public_metadata.billingStatus}}",
+ *      "pastDueSince": "{{user.public_metadata.pastDueSince}}" }
+ * 3. resolveBillingPlan() keeps the paid plan during the grace period and
+ *    falls back to the default (free) tier's limits after it
+ * 4. invoice.paid → webhook sets billingStatus back to active
+ *
+ * GRACE PERIOD: BILLING_GRACE_PERIOD_DAYS env var (default in config/tiers.ts)
+ *
+ * ============================================================================
+ */
+
+import { BillingStatus, Env, PlanTier } from '../types';
+import { TierRegistry } from '../config/tierRegistry';
+import { BILLING_GRACE_PERIOD_DAYS } from '../config/tiers';
+
+/**
+ * Statuses where payment is owed (grace period applies)
+ */
+export const DELINQUENT_STATUSES: BillingStatus[] = ['past_due', 'unpaid'];
+
+/**
+ * Plan to enforce plus the billing state behind it
+ */
+export interface BillingPlan {
+	plan: PlanTier;                     // Plan to enforce (default tier once grace expired)
+	billingStatus: BillingStatus | null;
+	graceEndsAt: string | null;         // ISO timestamp (delinquent subscribers only)
+	downgraded: boolean;                // true = grace expired, free limits enforced
+}
+
+/**
+ * Grace period length in days (env override, else config/tiers.ts)
+ */
+export function getGracePeriodDays(env: Env): number {
+	const days = Number(env.BILLING_GRACE_PERIOD_DAYS);
+	return env.BILLING_GRACE_PERIOD_DAYS && Number.isFinite(days) && days >= 0
+		? days
+		: BILLING_GRACE_PERIOD_DAYS;
+}
+
+/**
+ * Resolve the plan to enforce from JWT claims
+ *
+ * @param plan - Plan from the JWT
+ * @param claims - Session claims (billingStatus, pastDueSince from the JWT template)
+ * @param registry - Tenant's tier registry (for the default tier)
+ * @param env - Worker environment (grace period)
+ * @param now - Current time (for testing)
+ */
+export function resolveBillingPlan(
+	plan: PlanTier,
+	claims: Record<string, unknown> | undefined,
+	registry: TierRegistry,
+	env: Env,
+	now: Date = new Date()
+): BillingPlan {
+	const billingStatus = (claims?.billingStatus as BillingStatus) || null;
+	const pastDueSince = claims?.pastDueSince as string | undefined;
+
+	if (!billingStatus || !DELINQUENT_STATUSES.includes(billingStatus)) {
+		return { plan, billingStatus, graceEndsAt: null, downgraded: false };
+	}
+
+	// Delinquent without a start date: grace starts now (webhook sets it on the next event)
+	const since = pastDueSince ? new Date(pastDueSince) : now;
+	const graceEnds = new Date(
+		(isNaN(since.getTime()) ? now : since).getTime() + getGracePeriodDays(env) * 24 * 60 * 60 * 1000
+	);
+
+	if (now < graceEnds) {
+		return { plan, billingStatus, graceEndsAt: graceEnds.toISOString(), downgraded: false };
+	}
+
+	const fallback = registry.defaultTier?.id || 'free';
+	console.log(`⚠️  Grace period expired (${billingStatus} since ${pastDueSince}), enforcing ${fallback} limits`);
+	return { plan: fallback, billingStatus, graceEndsAt: graceEnds.toISOString(), downgraded: true };
+}
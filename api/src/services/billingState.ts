@@ -0,0 +1,285 @@
+/**
+ * ============================================================================
+ * BILLING STATE - Clerk publicMetadata written by the Stripe webhook
+ * ============================================================================
+ *
+ * Clerk's users.updateUser REPLACES publicMetadata. Writing a fresh object per
+ * event wiped everything the event didn't know about - a cancellation wrote
+ * { plan: 'free' } and lost stripeCustomerId, so the customer portal (and
+ * past invoices) became unreachable.
+ *
+ * OWNERS: a billing owner is a user (user_...) or, for team subscriptions,
+ * a Clerk organization (org_...) - same fields, stored in the organization's
+ * publicMetadata instead (see services/organizations.ts).
+ *
+ * RULES:
+ * - Every write is a MERGE (users/organizations.update*Metadata), null removes a key
+ * - stripeCustomerId is never removed or replaced (kept for life, even after
+ *   cancellation) - an event for another customer is logged, not stored
+ * - Each event is turned into a patch by a pure function below, so event
+ *   sequences can be replayed against a fake client (test/billingState.test.ts)
+ *
+ * STORED FIELDS (publicMetadata):
+ * - plan                → tier ID (also in the JWT, see index.ts)
+ * - stripeCustomerId    → Stripe customer (portal, invoices, metering)
+ * - subscriptionId      → current subscription (removed when it ends)
+ * - billingStatus       → Stripe subscription status (see services/billing.ts),
+ *                         "trialing" during a free trial
+ * - pastDueSince        → start of the failed-payment grace period
+ * - currentPeriodStart  → ISO timestamp
+ * - currentPeriodEnd    → ISO timestamp
+ * - cancelAtPeriodEnd   → true if the subscription ends at currentPeriodEnd
+ * - billingInterval     → "month" or "year" (annual billing)
+ * - trialEndsAt         → ISO timestamp the free trial ends (trialing only)
+ * - seats               → billed seats (organization subscriptions only)
+ *
+ * ============================================================================
+ */
+
+import Stripe from 'stripe';
+import { BillingInterval, BillingStatus, PlanTier } from '../types';
+import { DELINQUENT_STATUSES } from './billing';
+
+/**
+ * Billing fields in Clerk publicMetadata
+ */
+export interface BillingState {
+	plan?: PlanTier;
+	stripeCustomerId?: string;
+	subscriptionId?: string;
+	billingStatus?: BillingStatus;
+	pastDueSince?: string;
+	currentPeriodStart?: string;
+	currentPeriodEnd?: string;
+	cancelAtPeriodEnd?: boolean;
+	billingInterval?: BillingInterval;
+	trialEndsAt?: string;
+	seats?: number;
+}
+
+/**
+ * Changes to merge into BillingState (null = remove the field)
+ */
+export type BillingStatePatch = {
+	[K in keyof BillingState]?: BillingState[K] | null;
+};
+
+/**
+ * The part of the Clerk client this module uses (a fake works in tests)
+ */
+export interface BillingStateClerk {
+	users: {
+		getUser(userId: string): Promise<{ publicMetadata: Record<string, unknown> }>;
+		updateUserMetadata(
+			userId: string,
+			params: { publicMetadata: Record<string, unknown> }
+		): Promise<unknown>;
+	};
+	organizations: {
+		getOrganization(params: { organizationId: string }): Promise<{ publicMetadata: Record<string, unknown> | null }>;
+		updateOrganizationMetadata(
+			organizationId: string,
+			params: { publicMetadata: Record<string, unknown> }
+		): Promise<unknown>;
+	};
+}
+
+/**
+ * Is this billing owner a Clerk organization (org_...)?
+ */
+export function isOrganizationId(ownerId: string): boolean {
+	return ownerId.startsWith('org_');
+}
+
+/**
+ * Current period of a subscription (ISO timestamps)
+ *
+ * Since Stripe API 2025-03-31 the period lives on subscription items, not the
+ * subscription. Multi-item subscriptions use the earliest start / latest end.
+ */
+export function getSubscriptionPeriod(
+	subscription: Stripe.Subscription
+): { start: string; end: string } | null {
+	const items = subscription.items?.data || [];
+	if (items.length === 0) return null;
+	return {
+		start: new Date(Math.min(...items.map((i) => i.current_period_start)) * 1000).toISOString(),
+		end: new Date(Math.max(...items.map((i) => i.current_period_end)) * 1000).toISOString(),
+	};
+}
+
+/**
+ * Billing interval of a subscription (annual if any item bills yearly)
+ *
+ * Metered overage items stay monthly, so the base price decides.
+ */
+export function getSubscriptionInterval(subscription: Stripe.Subscription): BillingInterval {
+	const items = subscription.items?.data || [];
+	return items.some((i) => i.price.recurring?.interval === 'year') ? 'year' : 'month';
+}
+
+/**
+ * Seats billed on a subscription (quantity of the licensed base item)
+ *
+ * Metered overage items carry no quantity.
+ */
+export function getSubscriptionSeats(subscription: Stripe.Subscription): number {
+	const items = subscription.items?.data || [];
+	return Math.max(1, ...items.map((i) => i.quantity || 0));
+}
+
+/**
+ * The owner's Stripe customer after an event for `customerId`
+ *
+ * The first customer sticks: its invoices, portal and meter events stay
+ * reachable. A different customer (e.g. a checkout that created a new one)
+ * is logged as a conflict and not stored.
+ */
+function keepStripeCustomerId(current: BillingState, customerId: string): string {
+	if (current.stripeCustomerId && current.stripeCustomerId !== customerId) {
+		console.warn(
+			`⚠️  Stripe customer conflict: owner has ${current.stripeCustomerId}, event is for ${customerId} - keeping ${current.stripeCustomerId}`
+		);
+		return current.stripeCustomerId;
+	}
+	return customerId;
+}
+
+/**
+ * checkout.session.completed → plan + customer
+ */
+export function checkoutCompletedPatch(
+	session: Stripe.Checkout.Session,
+	tier: PlanTier,
+	current: BillingState
+): BillingStatePatch {
+	return {
+		plan: tier,
+		stripeCustomerId: keepStripeCustomerId(current, session.customer as string),
+	};
+}
+
+/**
+ * customer.subscription.created / updated → full subscription state
+ *
+ * past_due/unpaid keeps an existing pastDueSince (the grace period runs from
+ * the FIRST failed payment), any other status clears it.
+ */
+export function subscriptionPatch(
+	subscription: Stripe.Subscription,
+	tier: PlanTier,
+	current: BillingState
+): BillingStatePatch {
+	const period = getSubscriptionPeriod(subscription);
+	return {
+		plan: tier,
+		stripeCustomerId: keepStripeCustomerId(current, subscription.customer as string),
+		subscriptionId: subscription.id,
+		billingStatus: subscription.status,
+		pastDueSince: DELINQUENT_STATUSES.includes(subscription.status) ? getPastDueSince(current) : null,
+		currentPeriodStart: period?.start ?? null,
+		currentPeriodEnd: period?.end ?? null,
+		cancelAtPeriodEnd: subscription.cancel_at_period_end,
+		billingInterval: getSubscriptionInterval(subscription),
+		trialEndsAt: subscription.status === 'trialing' && subscription.trial_end
+			? new Date(subscription.trial_end * 1000).toISOString()
+			: null,
+		seats: subscription.metadata?.orgId ? getSubscriptionSeats(subscription) : null,
+	};
+}
+
+/**
+ * customer.subscription.deleted → back to the default tier
+ *
+ * Returns null if the user has already moved to another subscription (an old
+ * subscription's deletion must not downgrade the new one).
+ */
+export function subscriptionDeletedPatch(
+	subscription: Stripe.Subscription,
+	downgradeTier: PlanTier,
+	current: BillingState
+): BillingStatePatch | null {
+	if (current.subscriptionId && current.subscriptionId !== subscription.id) {
+		return null;
+	}
+	return {
+		plan: downgradeTier,
+		subscriptionId: null,
+		billingStatus: 'canceled',
+		pastDueSince: null,
+		currentPeriodStart: null,
+		currentPeriodEnd: null,
+		cancelAtPeriodEnd: null,
+		billingInterval: null,
+		trialEndsAt: null,
+		seats: null,
+	};
+}
+
+/**
+ * invoice.payment_failed → past_due (starts the grace period once)
+ */
+export function paymentFailedPatch(current: BillingState): BillingStatePatch {
+	return {
+		billingStatus: 'past_due',
+		pastDueSince: getPastDueSince(current),
+	};
+}
+
+/**
+ * invoice.paid → active again (null if the user wasn't delinquent)
+ */
+export function paymentRecoveredPatch(current: BillingState): BillingStatePatch | null {
+	if (!current.billingStatus || !DELINQUENT_STATUSES.includes(current.billingStatus)) {
+		return null;
+	}
+	return { billingStatus: 'active', pastDueSince: null };
+}
+
+function getPastDueSince(current: BillingState): string {
+	const delinquent = !!current.billingStatus && DELINQUENT_STATUSES.includes(current.billingStatus);
+	return delinquent && current.pastDueSince ? current.pastDueSince : new Date().toISOString();
+}
+
+/**
+ * Read a billing owner's state (user or organization publicMetadata)
+ *
+ * @param clerkClient - Clerk client (or a fake with the same methods)
+ * @param ownerId - Clerk user ID or organization ID
+ */
+export async function getBillingState(clerkClient: BillingStateClerk, ownerId: string): Promise<BillingState> {
+	const owner = isOrganizationId(ownerId)
+		? await clerkClient.organizations.getOrganization({ organizationId: ownerId })
+		: await clerkClient.users.getUser(ownerId);
+	return (owner.publicMetadata || {}) as BillingState;
+}
+
+/**
+ * Read the owner's billing state, build a patch from it and merge it in
+ *
+ * @param clerkClient - Clerk client (or a fake with the same methods)
+ * @param ownerId - Clerk user ID or organization ID (team subscriptions)
+ * @param buildPatch - Event → patch (return null to leave the owner untouched)
+ * @returns The patch that was written (null if nothing changed)
+ */
+export async function updateBillingState(
+	clerkClient: BillingStateClerk,
+	ownerId: string,
+	buildPatch: (current: BillingState) => BillingStatePatch | null
+): Promise<BillingStatePatch | null> {
+	const patch = buildPatch(await getBillingState(clerkClient, ownerId));
+	if (!patch) return null;
+
+	// Never remove (or blank) the customer ID
+	const publicMetadata: Record<string, unknown> = { ...patch };
+	if (!patch.stripeCustomerId) {
+		delete publicMetadata.stripeCustomerId;
+	}
+
+	if (isOrganizationId(ownerId)) {
+		await clerkClient.organizations.updateOrganizationMetadata(ownerId, { publicMetadata });
+	} else {
+		await clerkClient.users.updateUserMetadata(ownerId, { publicMetadata });
+	}
+	return patch;
+}
@@ -0,0 +1,148 @@
+/**
+ * ============================================================================
+ * ENTITLEMENTS - Feature flags and caps per tier
+ * ============================================================================
+ *
+ * Tier "features" in config.ts are marketing strings. Entitlements are the
+ * machine-readable side of a plan:
+ *
+ *   {
+ *     id: "free",
+ *     ...
+ *     entitlements: { export_csv: false, max_file_mb: 5 }
+ *   },
+ *   {
+ *     id: "pro",
+ *     ...
+ *     entitlements: { export_csv: true, max_file_mb: "unlimited" }
+ *   }
+ *
+ * - Booleans switch a feature on or off
+ * - Numbers cap it ("unlimited" = no cap)
+ * - A key a tier doesn't list is off for that tier (false / 0)
+ *
+ * CHECKING:
+ * - Product handlers: list boolean entitlements in "entitlements" (checked
+ *   before credits are reserved - see products/registry.ts), or call
+ *   requireEntitlement() in handle() for caps that depend on the input
+ * - Frontend: GET /api/entitlements (useEntitlement() hook)
+ *
+ * Denials are a 403 "Upgrade required" naming the cheapest tier that has
+ * the entitlement (upgradeTo), so clients can link straight to it.
+ *
+ * ============================================================================
+ */
+
+import { TierEntitlements } from '../types';
+import { RegisteredTier, TierRegistry } from '../config/tierRegistry';
+import { ProductError, productError } from '../products/registry';
+
+/**
+ * Entitlement value as sent to clients (Infinity doesn't survive JSON)
+ */
+export type PublicEntitlementValue = boolean | number | 'unlimited';
+
+/**
+ * Cheapest tier that has an entitlement (or enough of it)
+ */
+export interface EntitlementUpgrade {
+	id: string;
+	name: string;
+	price: number;
+}
+
+/**
+ * Every entitlement key configured on any tier, with its kind
+ */
+function getEntitlementKinds(registry: TierRegistry): Record<string, 'boolean' | 'number'> {
+	const kinds: Record<string, 'boolean' | 'number'> = {};
+	for (const tier of registry.tiers) {
+		for (const [key, value] of Object.entries(tier.entitlements)) {
+			kinds[key] = typeof value === 'boolean' ? 'boolean' : 'number';
+		}
+	}
+	return kinds;
+}
+
+/**
+ * A tier's entitlements for every known key (unlisted keys are false / 0)
+ */
+export function resolveTierEntitlements(registry: TierRegistry, tier: RegisteredTier): TierEntitlements {
+	const resolved: TierEntitlements = {};
+	for (const [key, kind] of Object.entries(getEntitlementKinds(registry))) {
+		resolved[key] = tier.entitlements[key] ?? (kind === 'boolean' ? false : 0);
+	}
+	return resolved;
+}
+
+/**
+ * Does a tier grant an entitlement?
+ *
+ * @param amount - For caps: the amount needed (omit = any amount above 0)
+ */
+export function hasEntitlement(tier: RegisteredTier, key: string, amount?: number): boolean {
+	const value = tier.entitlements[key];
+	if (typeof value === 'number') {
+		return amount === undefined ? value > 0 : amount <= value;
+	}
+	return value === true;
+}
+
+/**
+ * Cheapest other tier that grants an entitlement (null if none does)
+ */
+export function findEntitlementUpgrade(
+	registry: TierRegistry,
+	tier: RegisteredTier,
+	key: string,
+	amount?: number
+): EntitlementUpgrade | null {
+	const upgrade = registry.tiers.find((t) => t.id !== tier.id && hasEntitlement(t, key, amount));
+	return upgrade ? { id: upgrade.id, name: upgrade.name, price: upgrade.price } : null;
+}
+
+/**
+ * Entitlement value for JSON responses
+ */
+export function toPublicEntitlement(value: boolean | number): PublicEntitlementValue {
+	return value === Infinity ? 'unlimited' : value;
+}
+
+/**
+ * Guard: 403 "Upgrade required" unless the tier grants the entitlement
+ *
+ * @param registry - Tenant's tier registry (for the upgrade hint)
+ * @param tier - Caller's tier
+ * @param key - Entitlement key (e.g. "export_csv", "max_file_mb")
+ * @param amount - For caps: the amount needed (e.g. the upload's size in MB)
+ * @returns null if allowed, otherwise the 403 to return
+ *
+ * @example
+ * const denied = requireEntitlement(ctx.tenant.registry, ctx.tier, 'max_file_mb', input.sizeMb);
+ * if (denied) return denied;
+ */
+export function requireEntitlement(
+	registry: TierRegistry,
+	tier: RegisteredTier,
+	key: string,
+	amount?: number
+): ProductError | null {
+	if (hasEntitlement(tier, key, amount)) {
+		return null;
+	}
+
+	const current = tier.entitlements[key] ?? (amount === undefined ? false : 0);
+	const upgradeTo = findEntitlementUpgrade(registry, tier, key, amount);
+	const hint = upgradeTo ? ` Upgrade to ${upgradeTo.name} to unlock it.` : '';
+	const message = typeof current === 'number' && amount !== undefined
+		? `${key} is limited to ${current} on the ${tier.name} plan (requested ${amount}).${hint}`
+		: `${key} is not included in the ${tier.name} plan.${hint}`;
+
+	return productError(403, 'Upgrade required', message, {
+		entitlement: key,
+		plan: tier.id,
+		current: toPublicEntitlement(current),
+		...(amount !== undefined && { requested: amount }),
+		upgradeTo,
+	});
+}
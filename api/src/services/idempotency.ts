@@ -0,0 +1,141 @@
+/**
+ * ============================================================================
+ * IDEMPOTENCY KEYS - Client retries of /api/data aren't counted twice
+ * ============================================================================
+ *
+ * A network retry of POST /api/data used to run (and count) the request
+ * again. Clients can send a unique key per logical request:
+ *
+ *   Idempotency-Key: 4f1c2b9e-...   (e.g. a UUID, 1-255 characters)
+ *
+ * Same pattern as the Stripe webhook (webhook:stripe:{id}), but the first
+ * response is stored too:
+ * - First request     → marked in progress, handled, response cached 24h
+ * - Retry (finished)  → cached status + body replayed, no quota used
+ *                        (Idempotent-Replayed: true header)
+ * - Retry (running)   → 409, try again shortly
+ * - Same key, different body → 422 (keys identify ONE request)
+ *
+ * 5xx responses aren't cached - the marker is removed so a retry runs again.
+ *
+ * STORAGE (the caller's UsageCounter Durable Object, see usageCounter.ts):
+ * - idempotency:{key} → IdempotencyRecord (keys are per caller and tenant)
+ *
+ * The key is claimed in one Durable Object call, so of two concurrent
+ * duplicates exactly one runs - the other gets the 409.
+ *
+ * ============================================================================
+ */
+
+import { Env } from '../types';
+import { Tenant } from './tenant';
+import { claimIdempotencyKey, completeIdempotencyKey, releaseIdempotencyKey } from './usageCounter';
+
+/**
+ * Request header carrying the key
+ */
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Response header set on replays
+ */
+export const IDEMPOTENT_REPLAY_HEADER = 'Idempotent-Replayed';
+
+/**
+ * Valid keys: 1-255 printable ASCII characters
+ */
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * Cached responses are replayed for 24 hours (seconds)
+ */
+const IDEMPOTENCY_TTL = 24 * 60 * 60;
+
+/**
+ * In-progress markers expire after 60 seconds in case the Worker dies
+ * before storing the response
+ */
+const IN_PROGRESS_TTL = 60;
+
+/**
+ * SHA-256 of the request body (hex) - detects a key reused for another request
+ */
+async function fingerprintRequest(request: Request): Promise<string> {
+	const body = await request.clone().text();
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body));
+	return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Run a handler at most once per Idempotency-Key
+ *
+ * Requests without the header run normally.
+ *
+ * @param userId - Caller (keys are scoped per caller)
+ * @param corsHeaders - Headers for every response (CORS, rate limit)
+ * @param handler - The actual request handler
+ */
+export async function withIdempotency(
+	request: Request,
+	env: Env,
+	tenant: Tenant,
+	userId: string,
+	corsHeaders: Record<string, string>,
+	handler: () => Promise<Response>
+): Promise<Response> {
+	const key = request.headers.get(IDEMPOTENCY_HEADER);
+	if (key === null) {
+		return handler();
+	}
+
+	const respond = (status: number, body: string, extra: Record<string, string> = {}) => new Response(body, {
+		status,
+		headers: { ...corsHeaders, ...extra, 'Content-Type': 'application/json' },
+	});
+
+	if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+		return respond(400, JSON.stringify({
+			error: 'Invalid Idempotency-Key',
+			message: `${IDEMPOTENCY_HEADER} must be 1-255 printable characters`,
+		}));
+	}
+
+	const fingerprint = await fingerprintRequest(request);
+	const { existing } = await claimIdempotencyKey(env, tenant, userId, key, fingerprint, IN_PROGRESS_TTL);
+
+	if (existing) {
+		if (existing.fingerprint !== fingerprint) {
+			return respond(422, JSON.stringify({
+				error: 'Idempotency-Key reused',
+				message: `This ${IDEMPOTENCY_HEADER} was already used for a different request`,
+			}));
+		}
+		if (existing.state === 'in_progress') {
+			return respond(409, JSON.stringify({
+				error: 'Request in progress',
+				message: `A request with this ${IDEMPOTENCY_HEADER} is still being processed. Retry shortly.`,
+			}));
+		}
+		console.log(`⏭️ Replaying ${IDEMPOTENCY_HEADER} ${key} for ${userId}`);
+		return respond(existing.status, existing.body, { [IDEMPOTENT_REPLAY_HEADER]: 'true' });
+	}
+
+	let response: Response;
+	try {
+		response = await handler();
+	} catch (error) {
+		await releaseIdempotencyKey(env, tenant, userId, key);
+		throw error;
+	}
+
+	// Server errors can be retried for real
+	if (response.status >= 500) {
+		await releaseIdempotencyKey(env, tenant, userId, key);
+		return response;
+	}
+
+	const body = await response.text();
+	await completeIdempotencyKey(env, tenant, userId, key, { fingerprint, status: response.status, body }, IDEMPOTENCY_TTL);
+
+	return new Response(body, { status: response.status, headers: response.headers });
+}
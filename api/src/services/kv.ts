@@ -5,71 +5,156 @@
  *
  * Helper functions for:
  * - Getting/updating usage data in Cloudflare KV
- * - Calculating billing periods (monthly by default)
- * - Determining when to reset usage counters
+ * - Calculating billing periods (monthly by default, per-tier selectable)
+ * - Determining when to reset usage counters (and archiving the closing period)
  */
 
-import { UsageData } from '../types';
+import { UsageData, UsagePeriodSnapshot, UsagePeriodType } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
- * Get current billing period (calendar month by default)
- *
- * BILLING PERIOD: First day of month 00:00 UTC → Last day of month 23:59 UTC
+ * Months per period for the month-based period types
+ */
+const PERIOD_MONTHS: Record<Exclude<UsagePeriodType, 'week'>, number> = {
+	month: 1,
+	quarter: 3,
+	year: 12,
+};
+
+/**
+ * Get current billing period
  *
- * HOW TO CHANGE BILLING PERIOD:
+ * TWO MODES:
  *
- * FOR WEEKLY BILLING:
- *   const now = new Date();
- *   const dayOfWeek = now.getUTCDay();
- *   const start = new Date(now);
- *   start.setUTCDate(now.getUTCDate() - dayOfWeek); // Go to Sunday
- *   const end = new Date(start);
- *   end.setUTCDate(start.getUTCDate() + 6); // Go to Saturday
+ * ANCHORED (paid subscribers):
+ *   Periods start on the subscription's billing anchor (Stripe
+ *   current_period_start, captured by the webhook) and repeat every
+ *   week/month/quarter/year from there. A Pro user who subscribed on the 20th
+ *   gets their quota reset on the 20th. Month-end anchors are clamped
+ *   (anchor on Jan 31 → Feb 28/29 → Mar 31).
  *
- * FOR QUARTERLY BILLING:
- *   const quarter = Math.floor(month / 3);
- *   const start = new Date(Date.UTC(year, quarter * 3, 1));
- *   const end = new Date(Date.UTC(year, (quarter + 1) * 3, 0, 23, 59, 59));
+ * CALENDAR (free users, no anchor):
+ *   - week:    Sunday 00:00 UTC → Saturday 23:59 UTC
+ *   - month:   First day of month → last day of month (default)
+ *   - quarter: Jan-Mar, Apr-Jun, Jul-Sep, Oct-Dec
+ *   - year:    Jan 1 → Dec 31
  *
- * FOR ANNUAL BILLING:
- *   const start = new Date(Date.UTC(year, 0, 1));
- *   const end = new Date(Date.UTC(year, 11, 31, 23, 59, 59));
+ * HOW TO CHANGE BILLING PERIOD:
+ * Set "usagePeriod" on the tier in config.ts: "week" | "month" | "quarter" | "year"
  *
- * @returns { start: YYYY-MM-DD, end: YYYY-MM-DD }
+ * @param periodType - Period length (tier's usagePeriod)
+ * @param anchor - ISO timestamp of the subscription's billing anchor (null = calendar)
+ * @param now - Current time (for testing)
+ * @returns { start: YYYY-MM-DD, end: YYYY-MM-DD } (end is inclusive)
  */
-export function getCurrentPeriod(): { start: string; end: string } {
-	const now = new Date();
+export function getCurrentPeriod(
+	periodType: UsagePeriodType = 'month',
+	anchor?: string | null,
+	now: Date = new Date()
+): { start: string; end: string } {
+	const anchorDate = anchor ? new Date(anchor) : null;
+
+	const { start, nextStart } = anchorDate && !isNaN(anchorDate.getTime())
+		? getAnchoredBounds(periodType, anchorDate, now)
+		: getCalendarBounds(periodType, now);
+
+	return {
+		start: toDateString(start),                      // YYYY-MM-DD
+		end: toDateString(new Date(nextStart.getTime() - DAY_MS)), // YYYY-MM-DD
+	};
+}
+
+/**
+ * Calendar-aligned period containing `now`
+ */
+function getCalendarBounds(periodType: UsagePeriodType, now: Date): { start: Date; nextStart: Date } {
 	const year = now.getUTCFullYear();
 	const month = now.getUTCMonth();
 
-	// First day of current month at 00:00 UTC
-	const start = new Date(Date.UTC(year, month, 1));
+	if (periodType === 'week') {
+		// Go back to Sunday
+		const start = new Date(Date.UTC(year, month, now.getUTCDate() - now.getUTCDay()));
+		return { start, nextStart: new Date(start.getTime() + 7 * DAY_MS) };
+	}
 
-	// Last day of current month at 23:59:59.999 UTC
-	// (month + 1, 0) gives last day of current month
-	const end = new Date(Date.UTC(year, month + 1, 0, 23, 59, 59, 999));
+	// Month-based periods start on a multiple of their length (Jan, Apr, Jul, Oct for quarters)
+	const months = PERIOD_MONTHS[periodType];
+	const firstMonth = Math.floor(month / months) * months;
+	return {
+		start: new Date(Date.UTC(year, firstMonth, 1)),
+		nextStart: new Date(Date.UTC(year, firstMonth + months, 1)),
+	};
+}
+
+/**
+ * Anchor-aligned period containing `now`
+ *
+ * Works for anchors in the past and (clock skew) in the future.
+ */
+function getAnchoredBounds(
+	periodType: UsagePeriodType,
+	anchor: Date,
+	now: Date
+): { start: Date; nextStart: Date } {
+	const anchorDay = Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth(), anchor.getUTCDate());
+
+	if (periodType === 'week') {
+		const k = Math.floor((now.getTime() - anchorDay) / (7 * DAY_MS));
+		const start = new Date(anchorDay + k * 7 * DAY_MS);
+		return { start, nextStart: new Date(start.getTime() + 7 * DAY_MS) };
+	}
+
+	const months = PERIOD_MONTHS[periodType];
+	const elapsedMonths =
+		(now.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + (now.getUTCMonth() - anchor.getUTCMonth());
+	let k = Math.floor(elapsedMonths / months);
+
+	// Estimate can be off by one period around the anchor day
+	if (addMonthsClamped(anchor, k * months).getTime() > now.getTime()) k--;
+	if (addMonthsClamped(anchor, (k + 1) * months).getTime() <= now.getTime()) k++;
 
 	return {
-		start: start.toISOString().split('T')[0], // YYYY-MM-DD
-		end: end.toISOString().split('T')[0],     // YYYY-MM-DD
+		start: addMonthsClamped(anchor, k * months),
+		nextStart: addMonthsClamped(anchor, (k + 1) * months),
 	};
 }
 
+/**
+ * Add months to the anchor's day, clamping to the last day of the target month
+ */
+function addMonthsClamped(anchor: Date, months: number): Date {
+	const year = anchor.getUTCFullYear();
+	const month = anchor.getUTCMonth() + months;
+	const daysInTarget = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+	return new Date(Date.UTC(year, month, Math.min(anchor.getUTCDate(), daysInTarget)));
+}
+
+export function toDateString(date: Date): string {
+	return date.toISOString().split('T')[0];
+}
+
 /**
  * Check if usage data needs reset for new billing period
  *
  * LOGIC:
  * - If no period tracked → needs reset (first time user)
- * - If periodStart doesn't match current period start → needs reset (new month)
+ * - If periodStart doesn't match current period start → needs reset (new period,
+ *   or the billing anchor moved after a new subscription)
+ *
+ * APPLIES TO: Limited tiers only (unlimited tiers keep a running count)
  *
- * APPLIES TO: Free tier only (Pro tier has unlimited usage)
+ * Before resetting, archive the closing period with snapshotPeriod() - the
+ * reset overwrites usageCount.
  *
- * @param usageData - Current usage data from KV
+ * @param usageData - Current usage data (UsageCounter Durable Object)
+ * @param currentPeriod - Period to compare against (defaults to calendar month)
  * @returns true if usage should be reset to 0
  */
-export function shouldResetUsage(usageData: UsageData): boolean {
-	const currentPeriod = getCurrentPeriod();
-
+export function shouldResetUsage(
+	usageData: UsageData,
+	currentPeriod: { start: string; end: string } = getCurrentPeriod()
+): boolean {
 	// If no period tracked, needs reset (first time user)
 	if (!usageData.periodStart || !usageData.periodEnd) {
 		return true;
@@ -78,3 +163,22 @@ export function shouldResetUsage(usageData: UsageData): boolean {
 	// If current date is after period end, needs reset (new billing period)
 	return currentPeriod.start !== usageData.periodStart;
 }
+
+/**
+ * Snapshot of the period a usage record covers (archived on rollover)
+ *
+ * @param usageData - Usage data about to be reset
+ * @returns Closed period summary, or null if no period was tracked
+ */
+export function snapshotPeriod(usageData: UsageData): UsagePeriodSnapshot | null {
+	if (!usageData.periodStart || !usageData.periodEnd) {
+		return null;
+	}
+
+	return {
+		periodStart: usageData.periodStart,
+		periodEnd: usageData.periodEnd,
+		usageCount: usageData.usageCount,
+		plan: usageData.plan,
+	};
+}
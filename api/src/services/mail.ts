@@ -0,0 +1,97 @@
+/**
+ * ============================================================================
+ * MAIL - Pluggable transactional email
+ * ============================================================================
+ *
+ * Everything that sends email (usage alerts, ...) goes through a
+ * MailProvider, so the transport can be swapped without touching callers.
+ *
+ * PROVIDERS:
+ * - Resend        → RESEND_API_KEY + MAIL_FROM set (wrangler secret put ...)
+ * - Console       → neither set: logs the message and keeps it in memory.
+ *                   The local stand-in for development and tests.
+ *
+ * HOW TO ADD A PROVIDER (e.g. Postmark, SES):
+ * 1. Write a createXxxMailProvider() returning { name, send }
+ * 2. Pick it in getMailProvider() based on its env vars
+ *
+ * ============================================================================
+ */
+
+import { Env } from '../types';
+
+/**
+ * An email to send
+ */
+export interface MailMessage {
+	to: string[];
+	subject: string;
+	text: string;
+	html?: string;
+}
+
+/**
+ * A mail transport
+ */
+export interface MailProvider {
+	name: string;
+	send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Resend (https://resend.com/docs/api-reference/emails/send-email)
+ *
+ * @param apiKey - Resend API key (re_...)
+ * @param from - Sender, e.g. "YourApp <alerts@yourapp.com>" (verified domain)
+ */
+export function createResendMailProvider(apiKey: string, from: string): MailProvider {
+	return {
+		name: 'resend',
+		async send(message: MailMessage): Promise<void> {
+			const response = await fetch('https://api.resend.com/emails', {
+				method: 'POST',
+				headers: {
+					'Authorization': `Bearer ${apiKey}`,
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({
+					from,
+					to: message.to,
+					subject: message.subject,
+					text: message.text,
+					...(message.html && { html: message.html }),
+				}),
+			});
+
+			if (!response.ok) {
+				const result = await response.json().catch(() => ({})) as { message?: string };
+				throw new Error(result.message || `Resend request failed: ${response.status}`);
+			}
+		},
+	};
+}
+
+/**
+ * Local stand-in: logs instead of sending and records every message in `sent`
+ */
+export function createConsoleMailProvider(): MailProvider & { sent: MailMessage[] } {
+	const sent: MailMessage[] = [];
+	return {
+		name: 'console',
+		sent,
+		async send(message: MailMessage): Promise<void> {
+			sent.push(message);
+			console.log(`📧 [Mail] To: ${message.to.join(', ')} | ${message.subject}\n${message.text}`);
+		},
+	};
+}
+
+/**
+ * The provider configured for this deploy
+ */
+export function getMailProvider(env: Env): MailProvider {
+	if (env.RESEND_API_KEY && env.MAIL_FROM) {
+		return createResendMailProvider(env.RESEND_API_KEY, env.MAIL_FROM);
+	}
+	return createConsoleMailProvider();
+}
@@ -0,0 +1,108 @@
+/**
+ * ============================================================================
+ * METERED BILLING - Report overage to Stripe (scheduled handler)
+ * ============================================================================
+ *
+ * Tiers with "overage" in config.ts don't stop at their limit: credits past
+ * it are counted as overage in the user's UsageCounter Durable Object and
+ * billed through a Stripe Billing Meter.
+ *
+ * HOW IT WORKS:
+ * 1. /api/data past the limit → UsageCounter adds the credits past the limit
+ *    to pending overage and registers itself in KV: metering:pending:{counterName}
+ * 2. Cron (wrangler.toml [triggers]) → reportMeteredUsage():
+ *    - Lists the KV index
+ *    - Claims each counter's pending overage as ONE batch (one meter event
+ *      per user per run, not one per request)
+ *    - Sends it to Stripe as a meter event
+ *    - Acknowledges the batch once Stripe accepted it
+ *
+ * IDEMPOTENCY (no double billing):
+ * - A batch gets its id + timestamp when claimed and keeps them until acked
+ * - A failed or interrupted report re-sends the SAME batch next run
+ * - Stripe dedupes meter events on `identifier` (+ Idempotency-Key header)
+ *
+ * STRIPE SETUP:
+ * 1. Billing → Meters → create a meter (event name e.g. "api_requests",
+ *    aggregation: sum, value key: "value")
+ * 2. Create a metered price on that meter
+ * 3. Add to the tier in config.ts:
+ *    "overage": { "stripePriceId": "price_...", "meterEventName": "api_requests" }
+ *    Checkout then adds the metered price as a second line item.
+ *
+ * ============================================================================
+ */
+
+import { Env } from '../types';
+import { METER_INDEX_PREFIX, MeterBatch, ackMeterBatch, claimMeterBatch } from './usageCounter';
+
+/**
+ * Report all pending overage to Stripe
+ *
+ * Errors are logged per counter and never abort the run - unreported batches
+ * stay claimed and are retried next run.
+ *
+ * @param env - Worker environment
+ * @returns Number of batches reported and failed
+ */
+export async function reportMeteredUsage(env: Env): Promise<{ reported: number; failed: number }> {
+	let reported = 0;
+	let failed = 0;
+	let cursor: string | undefined;
+
+	do {
+		const page = await env.USAGE_KV.list({ prefix: METER_INDEX_PREFIX, cursor });
+
+		for (const { name: key } of page.keys) {
+			const counter = key.slice(METER_INDEX_PREFIX.length);
+			try {
+				const { batch, stripeCustomerId } = await claimMeterBatch(env, counter);
+				if (!batch) continue;
+
+				if (!stripeCustomerId) {
+					console.error(`❌ Overage for ${counter} but no Stripe customer ID, keeping batch ${batch.id}`);
+					failed++;
+					continue;
+				}
+
+				await sendMeterEvent(env, batch, stripeCustomerId);
+				await ackMeterBatch(env, counter, batch.id);
+				console.log(`✅ Reported ${batch.quantity} ${batch.eventName} for ${counter} (${batch.id})`);
+				reported++;
+			} catch (err: any) {
+				console.error(`❌ Failed to report overage for ${counter}:`, err.message);
+				failed++;
+			}
+		}
+
+		cursor = page.list_complete ? undefined : page.cursor;
+	} while (cursor);
+
+	return { reported, failed };
+}
+
+/**
+ * Send one batch to Stripe as a meter event
+ */
+async function sendMeterEvent(env: Env, batch: MeterBatch, stripeCustomerId: string): Promise<void> {
+	const response = await fetch('https://api.stripe.com/v1/billing/meter_events', {
+		method: 'POST',
+		headers: {
+			'Authorization': `Bearer ${env.STRIPE_SECRET_KEY}`,
+			'Content-Type': 'application/x-www-form-urlencoded',
+			'Idempotency-Key': `meter-${batch.id}`,
+		},
+		body: new URLSearchParams({
+			'event_name': batch.eventName,
+			'identifier': batch.id,
+			'timestamp': batch.timestamp.toString(),
+			'payload[stripe_customer_id]': stripeCustomerId,
+			'payload[value]': batch.quantity.toString(),
+		}).toString(),
+	});
+
+	if (!response.ok) {
+		const result = await response.json() as { error?: { message: string } };
+		throw new Error(result.error?.message || `Stripe meter event failed: ${response.status}`);
+	}
+}
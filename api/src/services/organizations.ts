@@ -0,0 +1,107 @@
+/**
+ * ============================================================================
+ * ORGANIZATIONS - Team subscriptions owned by a Clerk organization
+ * ============================================================================
+ *
+ * A B2B customer subscribes as an organization: one subscription billed per
+ * seat, one usage pool shared by every member. Everything that is keyed by
+ * userId for personal plans is keyed by the organization ID (org_...) for
+ * team plans:
+ * - Plan + billing state → organization publicMetadata (services/billingState.ts)
+ * - Usage counter        → usage:{orgId} (pooled across members)
+ * - Stripe metadata      → orgId next to userId (the member who bought it)
+ *
+ * PLAN RESOLUTION (per request):
+ * - Active organization in the JWT that has a plan → the organization's plan
+ * - Otherwise                                      → the user's personal plan
+ *
+ * JWT TEMPLATE ("pan-api") additions:
+ *   "org_id": "{{org.id}}",
+ *   "org_role": "{{org.role}}",
+ *   "orgPlan": "{{org.public_metadata.plan}}",
+ *   "orgBillingStatus": "{{org.public_metadata.billingStatus}}",
+ *   "orgPastDueSince": "{{org.public_metadata.pastDueSince}}"
+ *
+ * ROLES (Clerk org roles):
+ * - org:owner (custom role) → owner  ┐ manage billing: checkout, plan
+ * - org:admin               → admin  ┘ changes, seats, cancel, invoices
+ * - anything else           → member   uses the plan, can't change billing
+ *
+ * ============================================================================
+ */
+
+/**
+ * Billing roles within an organization
+ */
+export type OrgRole = 'owner' | 'admin' | 'member';
+
+/**
+ * Who a request is billed to
+ */
+export interface BillingAccount {
+	id: string;                       // Billing owner: userId, or orgId for team plans
+	type: 'user' | 'org';
+	userId: string;                   // The caller
+	orgId: string | null;             // Active organization (even if it has no plan yet)
+	orgRole: OrgRole | null;          // Caller's role in the active organization
+	claims: Record<string, unknown>;  // plan / billingStatus / pastDueSince of the owner
+}
+
+/**
+ * Map a Clerk organization role ("org:admin") to a billing role
+ */
+export function toOrgRole(role: string | null | undefined): OrgRole | null {
+	if (!role) return null;
+	if (role === 'org:owner' || role === 'owner') return 'owner';
+	if (role === 'org:admin' || role === 'admin') return 'admin';
+	return 'member';
+}
+
+/**
+ * Resolve the billing account from the verified session
+ *
+ * @param userId - Authenticated user
+ * @param claims - Session claims (plan fields + org claims from the JWT template)
+ * @param orgId - Active organization ID (null = personal workspace)
+ * @param orgRole - Clerk role in the active organization
+ */
+export function resolveBillingAccount(
+	userId: string,
+	claims: Record<string, unknown> | undefined,
+	orgId: string | null | undefined,
+	orgRole: string | null | undefined
+): BillingAccount {
+	const role = orgId ? toOrgRole(orgRole) : null;
+	const orgPlan = orgId ? claims?.orgPlan as string | undefined : undefined;
+
+	if (orgId && orgPlan) {
+		return {
+			id: orgId,
+			type: 'org',
+			userId,
+			orgId,
+			orgRole: role,
+			claims: {
+				plan: orgPlan,
+				billingStatus: claims?.orgBillingStatus,
+				pastDueSince: claims?.orgPastDueSince,
+			},
+		};
+	}
+
+	return {
+		id: userId,
+		type: 'user',
+		userId,
+		orgId: orgId || null,
+		orgRole: role,
+		claims: claims || {},
+	};
+}
+
+/**
+ * May the caller manage billing for this organization? (owner / admin)
+ */
+export function canManageOrgBilling(role: OrgRole | null): boolean {
+	return role === 'owner' || role === 'admin';
+}
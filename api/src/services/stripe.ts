@@ -0,0 +1,48 @@
+/**
+ * ============================================================================
+ * STRIPE API HELPER
+ * ============================================================================
+ *
+ * Routes call the Stripe REST API with fetch + form-encoded bodies (no SDK
+ * on the request path - see routes/checkout.ts). This wraps the repeated
+ * auth/encoding/error handling for routes that make several calls.
+ */
+
+import { Env } from '../types';
+
+/**
+ * Call the Stripe API
+ *
+ * @param env - Worker environment (STRIPE_SECRET_KEY)
+ * @param path - API path, e.g. "/v1/subscriptions/sub_123"
+ * @param params - Form params (POST body, or query string for GET)
+ * @param method - HTTP method (default POST)
+ * @returns Parsed JSON response
+ * @throws Error with Stripe's message if the request fails
+ */
+export async function stripeRequest<T>(
+	env: Env,
+	path: string,
+	params: Record<string, string> = {},
+	method: 'GET' | 'POST' | 'DELETE' = 'POST'
+): Promise<T> {
+	const query = new URLSearchParams(params).toString();
+	const url = method === 'POST' || !query
+		? `https://api.stripe.com${path}`
+		: `https://api.stripe.com${path}?${query}`;
+
+	const response = await fetch(url, {
+		method,
+		headers: {
+			'Authorization': `Bearer ${env.STRIPE_SECRET_KEY}`,
+			'Content-Type': 'application/x-www-form-urlencoded',
+		},
+		body: method === 'POST' ? query : undefined,
+	});
+
+	const data = await response.json() as T & { error?: { message: string } };
+	if (!response.ok) {
+		throw new Error(data.error?.message || `Stripe request failed: ${path} (${response.status})`);
+	}
+	return data;
+}
@@ -0,0 +1,279 @@
+/**
+ * ============================================================================
+ * TENANT RESOLUTION (Multi-tenant config from KV)
+ * ============================================================================
+ *
+ * One Worker can serve many branded storefronts. Each frontend sends its
+ * platform user ID in the X-Platform-User-Id header (see Dashboard.tsx) and
+ * this module turns it into a Tenant: config (tiers, branding, Stripe price
+ * IDs, allowed origins) + tier registry + operation catalog + KV key namespace.
+ *
+ * RESOLUTION:
+ * - No header                       → default tenant (bundled config.ts)
+ * - Header matches config.ts userId → default tenant (single-tenant deploys)
+ * - Header has a KV config          → that tenant
+ * - Anything else                   → 404 Unknown tenant
+ *
+ * TENANT BINDING:
+ * The header is unauthenticated - anyone can send any tenant's ID. Each user
+ * is bound to one tenant in Clerk publicMetadata.tenantId (also a JWT claim,
+ * see index.ts), written on their first authenticated request. Authenticated
+ * requests for another tenant get a 403 - see verifyTenantBinding().
+ *
+ * KV LAYOUT (USAGE_KV, written by the platform / GitHub Action):
+ * - tenant:{tenantId}:config        → JSON Config (same shape as config.ts,
+ *                                     plus optional allowedOrigins[])
+ * - tenant-origin:{origin}          → tenantId (lets CORS preflights, which
+ *                                     carry no custom header values, find
+ *                                     the tenant that owns an origin)
+ *
+ * KEY NAMESPACING:
+ * Per-user data (usage, rate limits) goes through tenantKey():
+ * - Default tenant: usage:{userId}                    (unchanged layout)
+ * - KV tenant:      tenant:{tenantId}:usage:{userId}  (no bleeding between storefronts)
+ *
+ * ============================================================================
+ */
+
+import { Env } from '../types';
+import { Config, loadConfig } from '../config/configLoader';
+import { TierRegistry, getTierRegistry, validateTierRegistry } from '../config/tierRegistry';
+import { OperationCatalog, getOperationCatalog, validateOperationCatalog } from '../config/operationCatalog';
+
+/**
+ * Header the frontend uses to identify its storefront
+ */
+export const TENANT_HEADER = 'X-Platform-User-Id';
+
+/**
+ * Valid tenant IDs (platform user IDs, e.g. Clerk "user_2abc...")
+ */
+const TENANT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Config warnings are logged once per isolate (validation runs per request)
+ */
+let configWarningsLogged = false;
+
+/**
+ * A resolved tenant
+ */
+export interface Tenant {
+	id: string | null;        // null = default tenant (bundled config.ts, unprefixed keys)
+	config: Config;
+	registry: TierRegistry;
+	operations: OperationCatalog;
+}
+
+/**
+ * Tenant resolution result (error carries the HTTP status to return)
+ */
+export type TenantResult =
+	| { tenant: Tenant; error?: undefined }
+	| { tenant?: undefined; error: { status: number; error: string; message: string; errors?: string[] } };
+
+/**
+ * Resolve the tenant for an incoming request from the X-Platform-User-Id header
+ *
+ * @param request - Incoming request
+ * @param env - Worker environment (for KV access)
+ * @returns Resolved tenant or error
+ */
+export async function resolveTenant(request: Request, env: Env): Promise<TenantResult> {
+	const tenantId = request.headers.get(TENANT_HEADER)?.trim() || null;
+	return loadTenant(tenantId, env);
+}
+
+/**
+ * Load a tenant by ID (null = default tenant)
+ *
+ * Used by resolveTenant (header) and the Stripe webhook (metadata.tenantId).
+ * Validates the tenant's tier config and operation catalog on every load -
+ * see validateTierRegistry and validateOperationCatalog.
+ *
+ * @param tenantId - Platform user ID, or null for the default tenant
+ * @param env - Worker environment (for KV access)
+ * @returns Resolved tenant or error
+ */
+export async function loadTenant(tenantId: string | null, env: Env): Promise<TenantResult> {
+	if (tenantId && !TENANT_ID_PATTERN.test(tenantId)) {
+		return {
+			error: { status: 400, error: 'Invalid tenant', message: `Invalid ${TENANT_HEADER} header` },
+		};
+	}
+
+	// Tenant-specific config from KV
+	if (tenantId) {
+		const stored = await env.USAGE_KV.get<Config>(`tenant:${tenantId}:config`, 'json');
+		if (stored) {
+			const check = validateTierRegistry(env, stored, 'tenant');
+			check.errors.push(...validateOperationCatalog(stored).errors);
+			if (check.errors.length > 0) {
+				console.error(`Tenant ${tenantId} configuration invalid:`, check.errors);
+				return {
+					error: {
+						status: 500,
+						error: 'Server configuration error',
+						message: 'Invalid tenant tier configuration',
+						errors: check.errors,
+					},
+				};
+			}
+			return {
+				tenant: {
+					id: tenantId,
+					config: stored,
+					registry: getTierRegistry(env, stored, 'tenant'),
+					operations: getOperationCatalog(stored),
+				},
+			};
+		}
+	}
+
+	// Default tenant (bundled config.ts)
+	const bundled = await loadConfig();
+	if (tenantId && bundled.userId !== tenantId) {
+		console.warn(`[Tenant] Unknown tenant: ${tenantId}`);
+		return {
+			error: { status: 404, error: 'Unknown tenant', message: `No configuration found for tenant ${tenantId}` },
+		};
+	}
+
+	const check = validateTierRegistry(env, bundled);
+	check.errors.push(...validateOperationCatalog(bundled).errors);
+	if (check.warnings.length > 0 && !configWarningsLogged) {
+		configWarningsLogged = true;
+		console.warn('Tier configuration warnings:', check.warnings);
+	}
+	if (check.errors.length > 0) {
+		console.error('Tier configuration invalid:', check.errors);
+		return {
+			error: {
+				status: 500,
+				error: 'Server configuration error',
+				message: 'Invalid tier configuration',
+				errors: check.errors,
+			},
+		};
+	}
+
+	return {
+		tenant: {
+			id: null,
+			config: bundled,
+			registry: getTierRegistry(env, bundled),
+			operations: getOperationCatalog(bundled),
+		},
+	};
+}
+
+/**
+ * publicMetadata.tenantId of users bound to the default tenant
+ * (tenant IDs are platform user IDs, so this can't collide with one)
+ */
+const DEFAULT_TENANT_BINDING = '_default';
+
+/**
+ * The part of the Clerk client verifyTenantBinding uses (a fake works in tests)
+ */
+export interface TenantBindingClerk {
+	users: {
+		getUser(userId: string): Promise<{ publicMetadata: Record<string, unknown> }>;
+		updateUserMetadata(
+			userId: string,
+			params: { publicMetadata: Record<string, unknown> }
+		): Promise<unknown>;
+	};
+}
+
+/**
+ * Check that an authenticated user belongs to the resolved tenant
+ *
+ * - Bound to this tenant    → ok
+ * - Bound to another tenant → 403 Tenant mismatch
+ * - Not bound yet           → bound to this tenant (merge into publicMetadata)
+ *
+ * The bound tenant is read from the tenantId claim first; Clerk is only asked
+ * when the claim is missing (not bound yet, or a JWT issued before binding).
+ *
+ * @param tenant - Tenant resolved from X-Platform-User-Id
+ * @param userId - Authenticated user
+ * @param claims - JWT claims (or the API key owner's publicMetadata)
+ * @param clerkClient - Clerk client (for reading and writing publicMetadata)
+ * @returns null if the user may use this tenant, otherwise the error to return
+ */
+export async function verifyTenantBinding(
+	tenant: Tenant,
+	userId: string,
+	claims: Record<string, unknown> | undefined,
+	clerkClient: TenantBindingClerk
+): Promise<TenantResult['error'] | null> {
+	const tenantBinding = tenant.id || DEFAULT_TENANT_BINDING;
+
+	let boundTenant = claims?.tenantId;
+	if (typeof boundTenant !== 'string' || !boundTenant) {
+		const user = await clerkClient.users.getUser(userId);
+		boundTenant = user.publicMetadata.tenantId;
+	}
+
+	if (typeof boundTenant !== 'string' || !boundTenant) {
+		await clerkClient.users.updateUserMetadata(userId, { publicMetadata: { tenantId: tenantBinding } });
+		console.log(`🔗 User ${userId} bound to tenant ${tenantBinding}`);
+		return null;
+	}
+
+	if (boundTenant !== tenantBinding) {
+		console.warn(`⚠️  User ${userId} (tenant ${boundTenant}) sent ${TENANT_HEADER} for tenant ${tenantBinding}`);
+		return {
+			status: 403,
+			error: 'Tenant mismatch',
+			message: `This account belongs to a different storefront than the ${TENANT_HEADER} header`,
+		};
+	}
+
+	return null;
+}
+
+/**
+ * Namespace a per-user KV key by tenant
+ *
+ * EXAMPLE:
+ *   tenantKey(tenant, `usage:${userId}`)
+ *   → "usage:user_123"                       (default tenant)
+ *   → "tenant:user_abc:usage:user_123"       (KV tenant)
+ */
+export function tenantKey(tenant: Tenant, key: string): string {
+	return tenant.id ? `tenant:${tenant.id}:${key}` : key;
+}
+
+/**
+ * Is this user the storefront owner? (the platform user the tenant belongs to)
+ *
+ * Owner-only routes (e.g. outbound webhook endpoints) check this. The default
+ * tenant is owned by config.ts userId - if it's not set, nobody is.
+ */
+export function isTenantOwner(tenant: Tenant, userId: string): boolean {
+	const ownerId = tenant.id || tenant.config.userId;
+	return !!ownerId && ownerId === userId;
+}
+
+/**
+ * Find tenant-specific allowed origins for a CORS preflight
+ *
+ * Preflights only tell us the header NAMES the browser will send, not the
+ * X-Platform-User-Id value, so the tenant is looked up by origin instead.
+ *
+ * @param request - OPTIONS request
+ * @param env - Worker environment (for KV access)
+ * @returns The owning tenant's allowedOrigins, or undefined if no tenant owns the origin
+ */
+export async function getPreflightOrigins(request: Request, env: Env): Promise<string[] | undefined> {
+	const origin = request.headers.get('Origin');
+	if (!origin) return undefined;
+
+	const tenantId = await env.USAGE_KV.get(`tenant-origin:${origin}`);
+	if (!tenantId) return undefined;
+
+	const config = await env.USAGE_KV.get<Config>(`tenant:${tenantId}:config`, 'json');
+	return config?.allowedOrigins;
+}
@@ -0,0 +1,176 @@
+/**
+ * ============================================================================
+ * USAGE ALERTS - Email the billing owner as they approach their limit
+ * ============================================================================
+ *
+ * Without alerts the first sign of a used-up quota is a 403 from /api/data.
+ * Each tier has thresholds in % of its limit ("usageAlerts" in config.ts,
+ * default [80, 100] from config/tiers.ts). The request that crosses one
+ * sends an email with the usage, the reset date and an upgrade link.
+ *
+ * ONCE PER PERIOD:
+ * Counters only go up, so only one request crosses each threshold - but a
+ * refund, a counter restored from KV or a plan switch mid-period can cross
+ * it again.
+ * Sent alerts are recorded in KV (only once the mail went out, so a failed
+ * send is retried by the next crossing) and expire shortly after the period ends:
+ * - usage-alert:{ownerId}:{periodStart}:{percent}   (namespaced per tenant)
+ *
+ * UPGRADE LINK:
+ * FRONTEND_URL (env) + /choose-plan. KV tenants link to their first
+ * allowedOrigins entry instead (their storefront, not the deploy's).
+ *
+ * RECIPIENTS:
+ * - Personal plans → the user's primary email
+ * - Team plans     → the organization's owners and admins
+ *
+ * Mail goes through the pluggable provider in services/mail.ts.
+ *
+ * ============================================================================
+ */
+
+import { createClerkClient } from '@clerk/backend';
+import { Env, UsageData } from '../types';
+import { RegisteredTier } from '../config/tierRegistry';
+import { Tenant, tenantKey } from './tenant';
+import { MailMessage, MailProvider, getMailProvider } from './mail';
+import { isOrganizationId } from './billingState';
+import { canManageOrgBilling, toOrgRole } from './organizations';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Thresholds (% of the limit) this request crossed
+ *
+ * @param usageCount - Usage after the request was counted
+ * @param amount - Credits the request added
+ */
+export function getCrossedAlerts(tier: RegisteredTier, usageCount: number, amount = 1): number[] {
+	if (tier.limit === Infinity || tier.limit <= 0) return [];
+	return tier.usageAlerts.filter((percent) => {
+		const threshold = Math.ceil(tier.limit * percent / 100);
+		return usageCount >= threshold && usageCount - amount < threshold;
+	});
+}
+
+/**
+ * Email addresses that get the billing owner's alerts
+ */
+async function getAlertRecipients(env: Env, ownerId: string): Promise<string[]> {
+	const clerkClient = createClerkClient({ secretKey: env.CLERK_SECRET_KEY });
+
+	if (isOrganizationId(ownerId)) {
+		const memberships = await clerkClient.organizations.getOrganizationMembershipList({
+			organizationId: ownerId,
+			limit: 100,
+		});
+		return memberships.data
+			.filter((m) => canManageOrgBilling(toOrgRole(m.role)))
+			.map((m) => m.publicUserData?.identifier || '')
+			.filter((identifier) => identifier.includes('@'));
+	}
+
+	const user = await clerkClient.users.getUser(ownerId);
+	return user.primaryEmailAddress ? [user.primaryEmailAddress.emailAddress] : [];
+}
+
+/**
+ * Storefront URL for the upgrade link (null = leave the link out)
+ */
+function getFrontendUrl(env: Env, tenant: Tenant): string | null {
+	const url = (tenant.id && tenant.config.allowedOrigins?.[0]) || env.FRONTEND_URL;
+	return url ? url.replace(/\/$/, '') : null;
+}
+
+/**
+ * The alert email
+ *
+ * @param frontendUrl - Storefront URL (upgrade link, null = no link)
+ */
+function buildAlertMessage(
+	tenant: Tenant,
+	tier: RegisteredTier,
+	usage: UsageData,
+	percent: number,
+	recipients: string[],
+	frontendUrl: string | null
+): MailMessage {
+	const appName = tenant.config.branding?.appName || 'Your app';
+
+	// periodEnd is the last day of the period (inclusive) - usage resets the day after
+	const resetDate = usage.periodEnd
+		? new Date(Date.parse(`${usage.periodEnd}T00:00:00Z`) + DAY_SECONDS * 1000).toISOString().slice(0, 10)
+		: null;
+
+	const subject = percent >= 100
+		? `${appName}: you've reached your ${tier.name} plan limit`
+		: `${appName}: you've used ${percent}% of your ${tier.name} plan`;
+
+	const lines = [
+		`You've used ${usage.usageCount} of ${tier.limit} credits included in your ${tier.name} plan this period.`,
+		percent >= 100 && !tier.overage
+			? 'Requests that need more credits are blocked until your usage resets.'
+			: percent >= 100
+			? 'Credits past the limit are billed as overage.'
+			: null,
+		resetDate ? `Your usage resets on ${resetDate} (UTC).` : null,
+		'',
+		frontendUrl ? `Need more? Upgrade your plan: ${frontendUrl}/choose-plan` : 'Need more? Upgrade your plan in the app.',
+	];
+
+	return {
+		to: recipients,
+		subject,
+		text: lines.filter((line) => line !== null).join('\n'),
+	};
+}
+
+/**
+ * Send the alerts this request crossed (at most once per threshold per period)
+ *
+ * Never throws - a mail problem must not fail the request (errors are logged).
+ * Runs after the response (ctx.waitUntil in routes/usage.ts), so the Clerk
+ * lookup and the send don't delay it.
+ *
+ * @param ownerId - Billing owner (userId, or orgId for team plans)
+ * @param usage - Usage after the request was counted
+ * @param amount - Credits the request added
+ * @param mail - Mail transport (defaults to the deploy's provider)
+ */
+export async function sendUsageAlerts(
+	env: Env,
+	tenant: Tenant,
+	ownerId: string,
+	tier: RegisteredTier,
+	usage: UsageData,
+	amount: number,
+	mail: MailProvider = getMailProvider(env)
+): Promise<void> {
+	const crossed = getCrossedAlerts(tier, usage.usageCount, amount);
+	if (crossed.length === 0 || !usage.periodStart) return;
+
+	// Keep the record until a couple of days after the period ends
+	const periodEndSeconds = usage.periodEnd
+		? Date.parse(`${usage.periodEnd}T00:00:00Z`) / 1000
+		: Date.now() / 1000;
+	const expiration = Math.floor(Math.max(periodEndSeconds, Date.now() / 1000) + 2 * DAY_SECONDS);
+
+	for (const percent of crossed) {
+		const key = tenantKey(tenant, `usage-alert:${ownerId}:${usage.periodStart}:${percent}`);
+		try {
+			if (await env.USAGE_KV.get(key)) continue;
+
+			const recipients = await getAlertRecipients(env, ownerId);
+			if (recipients.length === 0) {
+				console.warn(`⚠️  No email address for ${ownerId}, skipping ${percent}% usage alert`);
+				continue;
+			}
+
+			await mail.send(buildAlertMessage(tenant, tier, usage, percent, recipients, getFrontendUrl(env, tenant)));
+			await env.USAGE_KV.put(key, new Date().toISOString(), { expiration });
+			console.log(`📧 Sent ${percent}% usage alert for ${ownerId} via ${mail.name}`);
+		} catch (err: any) {
+			console.error(`❌ Failed to send ${percent}% usage alert for ${ownerId}:`, err.message);
+		}
+	}
+}
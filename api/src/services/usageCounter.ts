@@ -0,0 +1,888 @@
+/**
+ * ============================================================================
+ * USAGE COUNTER - Durable Object (atomic per-user counters)
+ * ============================================================================
+ *
+ * WHY THIS EXISTS:
+ * KV is eventually consistent and has no compare-and-swap. The old flow
+ * (KV get → increment in memory → KV put) let two concurrent requests both
+ * read N and both write N+1, so limited tiers could overrun their quota.
+ * The same race affected rate limiting.
+ *
+ * HOW IT WORKS:
+ * - ONE Durable Object per user (per tenant): idFromName("{tenantKey}user:{userId}")
+ * - A Durable Object processes one request at a time, so check-and-increment
+ *   is atomic without locks
+ * - Usage state lives in DO storage; USAGE_KV is kept as a read-through
+ *   fallback:
+ *   - First access seeds the DO from the existing usage:{userId} KV record
+ *   - Every change is mirrored back to KV (same layout as before), so anything
+ *     still reading usage:{userId} keeps working
+ * - Rate limit windows are counted in the same object (no KV write races)
+ * - The subscriber's Stripe billing anchor is stored here too (set by the
+ *   webhook), so usage periods follow their billing cycle - see getCurrentPeriod
+ * - Usage history (daily buckets + closed periods) is kept here as well, for
+ *   GET /api/usage/history - closing periods are archived on rollover
+ * - Usage is counted in credits: each request consumes the credit cost of its
+ *   operation (config/operationCatalog.ts) and can be refunded if the
+ *   product logic fails afterwards
+ * - Metered tiers: credits past the limit are counted as pending overage and
+ *   handed out in batches to the metering cron - see services/metering.ts
+ * - Idempotency-Key records are claimed here, so two concurrent duplicates
+ *   can't both run - see services/idempotency.ts
+ *
+ * SETUP (wrangler.toml):
+ *   [[durable_objects.bindings]]
+ *   name = "USAGE_COUNTER"
+ *   class_name = "UsageCounter"
+ *
+ *   [[migrations]]
+ *   tag = "v1"
+ *   new_sqlite_classes = ["UsageCounter"]
+ *
+ * The class must be exported from index.ts (Wrangler finds it there).
+ *
+ * ============================================================================
+ */
+
+import { Env, PlanTier, UsageData, UsageHistory, UsagePeriodSnapshot, UsagePeriodType } from '../types';
+import { Tenant, tenantKey } from './tenant';
+import { getCurrentPeriod, shouldResetUsage, snapshotPeriod, toDateString } from './kv';
+
+/**
+ * Usage history retention (daily buckets / closed periods)
+ */
+const USAGE_HISTORY_DAYS = 400;
+const USAGE_HISTORY_PERIODS = 24;
+
+/**
+ * KV index of counters with pending overage: metering:pending:{counterName}
+ */
+export const METER_INDEX_PREFIX = 'metering:pending:';
+
+/**
+ * Index entries outlive any cron interval; they're refreshed on every new batch
+ */
+const METER_INDEX_TTL_SECONDS = 7 * 24 * 60 * 60;  // 7 days
+
+/**
+ * Request body for /get
+ */
+interface UsageQuery {
+	usageKey: string;
+	plan: PlanTier;
+	periodType: UsagePeriodType;
+	limited: boolean;
+}
+
+/**
+ * Request body for /consume
+ *
+ * limit is null for unlimited tiers (Infinity doesn't survive JSON).
+ * meterEventName is set for metered tiers: past the limit the request is
+ * allowed and counted as overage instead of rejected.
+ */
+interface ConsumeCommand {
+	usageKey: string;
+	plan: PlanTier;
+	limit: number | null;
+	periodType: UsagePeriodType;
+	meterEventName: string | null;
+	meterIndexKey: string;
+	amount: number;  // Credits this request costs
+}
+
+/**
+ * Request body for /refund (hands back a reservation made by /consume)
+ */
+interface RefundCommand {
+	usageKey: string;
+	plan: PlanTier;
+	periodType: UsagePeriodType;
+	reservation: UsageReservation;
+}
+
+/**
+ * What a /consume call counted - passed back to /refund
+ *
+ * periodStart + day locate the credits: a refund after the period rolled
+ * over changes nothing (the credits were already reset).
+ */
+export interface UsageReservation {
+	amount: number;
+	overage: number;          // Part of amount counted as metered overage
+	periodStart: string | null;
+	day: string;              // YYYY-MM-DD history bucket
+}
+
+/**
+ * Overage batch handed to the metering cron
+ *
+ * id + timestamp are fixed when the batch is claimed, so a retried report
+ * sends the exact same meter event (Stripe dedupes on the identifier).
+ */
+export interface MeterBatch {
+	id: string;
+	eventName: string;
+	quantity: number;
+	timestamp: number;  // Unix seconds
+}
+
+/**
+ * Overage state (DO storage key "meter")
+ */
+interface MeterState {
+	pending: number;            // Overage not yet claimed by the cron
+	eventName: string | null;   // Meter event of the tier that produced it
+	batch: MeterBatch | null;   // Claimed but not yet acknowledged
+}
+
+/**
+ * Request body for /ratelimit
+ */
+interface RateLimitCommand {
+	windows: { id: string; limit: number }[];
+}
+
+/**
+ * Request body for /anchor
+ */
+interface AnchorCommand {
+	anchor: string | null;
+	stripeCustomerId?: string;
+}
+
+/**
+ * Request body for /meter/ack
+ */
+interface MeterAckCommand {
+	id: string;
+}
+
+/**
+ * What an Idempotency-Key stands for (DO storage key "idempotency:{key}")
+ *
+ * expiresAt is a Unix timestamp (ms) - expired records count as absent and
+ * are swept by the alarm.
+ */
+export type IdempotencyRecord =
+	| { state: 'in_progress'; fingerprint: string; expiresAt: number }
+	| { state: 'complete'; fingerprint: string; status: number; body: string; expiresAt: number };
+
+/**
+ * Request body for /idempotency/claim
+ */
+interface IdempotencyClaimCommand {
+	key: string;
+	fingerprint: string;
+	ttl: number;  // Seconds the in-progress marker lives
+}
+
+/**
+ * Request body for /idempotency/complete
+ */
+interface IdempotencyCompleteCommand {
+	key: string;
+	fingerprint: string;
+	status: number;
+	body: string;
+	ttl: number;  // Seconds the response is replayed
+}
+
+/**
+ * Request body for /idempotency/release
+ */
+interface IdempotencyReleaseCommand {
+	key: string;
+}
+
+/**
+ * Storage key prefix of idempotency records
+ */
+const IDEMPOTENCY_PREFIX = 'idempotency:';
+
+/**
+ * Durable Object holding one user's usage counter and rate limit windows
+ *
+ * INTERNAL API (called via the helpers below, never exposed publicly):
+ * - POST /consume   → atomic check-and-increment of usageCount (by the request's credits)
+ * - POST /refund    → give back credits of a failed request
+ * - POST /get       → current usage (seeded from KV on first access)
+ * - POST /history   → daily buckets + closed periods
+ * - POST /ratelimit → atomic check-and-increment of rate limit windows
+ * - POST /anchor    → set/clear the Stripe billing anchor (+ Stripe customer ID)
+ * - POST /meter/claim → claim pending overage as a batch (or re-claim the unacked one)
+ * - POST /meter/ack   → acknowledge a reported batch
+ * - POST /idempotency/claim    → claim an Idempotency-Key (or return its record)
+ * - POST /idempotency/complete → store the response for replays
+ * - POST /idempotency/release  → forget a key (the request can run again)
+ */
+export class UsageCounter implements DurableObject {
+	private state: DurableObjectState;
+	private env: Env;
+	private usage: UsageData | null = null;
+	private billingAnchor: string | null = null;  // ISO timestamp (Stripe current_period_start)
+
+	constructor(state: DurableObjectState, env: Env) {
+		this.state = state;
+		this.env = env;
+	}
+
+	async fetch(request: Request): Promise<Response> {
+		const path = new URL(request.url).pathname;
+		const body = await request.json<unknown>();
+
+		switch (path) {
+			case '/consume':
+				return Response.json(await this.consume(body as ConsumeCommand));
+			case '/refund':
+				return Response.json(await this.refund(body as RefundCommand));
+			case '/get':
+				return Response.json(await this.get(body as UsageQuery));
+			case '/history':
+				return Response.json(await this.history(body as UsageQuery));
+			case '/ratelimit':
+				return Response.json(await this.rateLimit(body as RateLimitCommand));
+			case '/anchor': {
+				const { anchor, stripeCustomerId } = body as AnchorCommand;
+				return Response.json(await this.setAnchor(anchor ?? null, stripeCustomerId));
+			}
+			case '/meter/claim':
+				return Response.json(await this.claimMeterBatch());
+			case '/meter/ack':
+				return Response.json(await this.ackMeterBatch((body as MeterAckCommand).id));
+			case '/idempotency/claim':
+				return Response.json(await this.claimIdempotencyKey(body as IdempotencyClaimCommand));
+			case '/idempotency/complete':
+				return Response.json(await this.completeIdempotencyKey(body as IdempotencyCompleteCommand));
+			case '/idempotency/release':
+				return Response.json(await this.releaseIdempotencyKey(body as IdempotencyReleaseCommand));
+			default:
+				return new Response('Not found', { status: 404 });
+		}
+	}
+
+	/**
+	 * Check the limit and add the request's credits in one step
+	 *
+	 * Rejected if the credits would take usage past the limit - a request
+	 * never runs on a partial quota. Metered tiers never hit the limit:
+	 * credits past it are added to the pending overage for the metering cron.
+	 */
+	private async consume(
+		cmd: ConsumeCommand
+	): Promise<{ allowed: boolean; usage: UsageData; reservation: UsageReservation | null }> {
+		const usage = await this.current(cmd.usageKey, cmd.plan, cmd.periodType, cmd.limit !== null);
+
+		// Update plan if changed
+		usage.plan = cmd.plan;
+
+		const wouldExceed = cmd.limit !== null && usage.usageCount + cmd.amount > cmd.limit;
+
+		// Check if tier limit would be exceeded (nothing is written)
+		if (wouldExceed && !cmd.meterEventName) {
+			return { allowed: false, usage, reservation: null };
+		}
+
+		// Period rolled over: archive the closing one before save() overwrites it
+		const closing = usage.periodStart !== this.usage?.periodStart && this.usage
+			? snapshotPeriod(this.usage)
+			: null;
+
+		const overage = wouldExceed
+			? Math.min(cmd.amount, usage.usageCount + cmd.amount - (cmd.limit as number))
+			: 0;
+
+		usage.usageCount += cmd.amount;
+		usage.lastUpdated = new Date().toISOString();
+		await this.save(cmd.usageKey, usage);
+		const day = await this.recordHistory(closing, cmd.amount);
+
+		if (overage > 0 && cmd.meterEventName) {
+			await this.addOverage(cmd.meterEventName, cmd.meterIndexKey, overage);
+		}
+
+		return {
+			allowed: true,
+			usage,
+			reservation: { amount: cmd.amount, overage, periodStart: usage.periodStart || null, day },
+		};
+	}
+
+	/**
+	 * Give back the credits of a reservation (product logic failed)
+	 *
+	 * Only refunds within the period the credits were counted in. Overage is
+	 * taken back from the pending amount - overage already claimed by the
+	 * metering cron has been reported to Stripe and stays billed.
+	 */
+	private async refund(cmd: RefundCommand): Promise<{ refunded: number; usage: UsageData }> {
+		const usage = await this.load(cmd.usageKey, cmd.plan, cmd.periodType);
+		const { reservation } = cmd;
+
+		if ((usage.periodStart || null) !== reservation.periodStart) {
+			return { refunded: 0, usage };
+		}
+
+		const refunded = Math.min(reservation.amount, usage.usageCount);
+		const updated: UsageData = {
+			...usage,
+			usageCount: usage.usageCount - refunded,
+			lastUpdated: new Date().toISOString(),
+		};
+		await this.save(cmd.usageKey, updated);
+
+		const history = await this.getHistory();
+		if (history.days[reservation.day]) {
+			history.days[reservation.day] = Math.max(0, history.days[reservation.day] - refunded);
+			await this.state.storage.put('history', history);
+		}
+
+		if (reservation.overage > 0) {
+			const meter = await this.getMeter();
+			meter.pending = Math.max(0, meter.pending - reservation.overage);
+			await this.state.storage.put('meter', meter);
+		}
+
+		return { refunded, usage: updated };
+	}
+
+	/**
+	 * Count credits of overage
+	 *
+	 * The first pending credits register this counter in the KV index the
+	 * metering cron scans. Index entries expire instead of being deleted, so a
+	 * cron run can never drop a registration that raced with a new overage.
+	 */
+	private async addOverage(eventName: string, meterIndexKey: string, amount: number): Promise<void> {
+		const meter = await this.getMeter();
+		const wasPending = meter.pending > 0;
+		meter.pending += amount;
+		meter.eventName = eventName;
+		await this.state.storage.put('meter', meter);
+
+		if (!wasPending) {
+			this.state.waitUntil(
+				this.env.USAGE_KV.put(meterIndexKey, new Date().toISOString(), {
+					expirationTtl: METER_INDEX_TTL_SECONDS,
+				})
+			);
+		}
+	}
+
+	private async getMeter(): Promise<MeterState> {
+		return (await this.state.storage.get<MeterState>('meter')) || { pending: 0, eventName: null, batch: null };
+	}
+
+	/**
+	 * Claim pending overage as a batch
+	 *
+	 * An unacknowledged batch (previous report failed) is returned again
+	 * unchanged - new overage waits for the next batch.
+	 */
+	private async claimMeterBatch(): Promise<{ batch: MeterBatch | null; stripeCustomerId: string | null }> {
+		const meter = await this.getMeter();
+		const stripeCustomerId = (await this.state.storage.get<string>('stripeCustomerId')) || null;
+
+		if (!meter.batch && meter.pending > 0 && meter.eventName) {
+			meter.batch = {
+				id: crypto.randomUUID(),
+				eventName: meter.eventName,
+				quantity: meter.pending,
+				timestamp: Math.floor(Date.now() / 1000),
+			};
+			meter.pending = 0;
+			await this.state.storage.put('meter', meter);
+		}
+
+		return { batch: meter.batch, stripeCustomerId };
+	}
+
+	/**
+	 * Drop a batch once Stripe accepted it
+	 */
+	private async ackMeterBatch(id: string): Promise<{ pending: number }> {
+		const meter = await this.getMeter();
+		if (meter.batch?.id === id) {
+			meter.batch = null;
+			await this.state.storage.put('meter', meter);
+		}
+		return { pending: meter.pending };
+	}
+
+	/**
+	 * Claim an Idempotency-Key in one step
+	 *
+	 * Storage operations don't let other requests interleave, so of two
+	 * concurrent duplicates exactly one gets existing: null (it runs), the
+	 * other sees the in-progress record.
+	 *
+	 * @returns existing: the key's live record, or null if this call claimed it
+	 */
+	private async claimIdempotencyKey(cmd: IdempotencyClaimCommand): Promise<{ existing: IdempotencyRecord | null }> {
+		const storageKey = `${IDEMPOTENCY_PREFIX}${cmd.key}`;
+		const existing = await this.state.storage.get<IdempotencyRecord>(storageKey);
+		if (existing && existing.expiresAt > Date.now()) {
+			return { existing };
+		}
+
+		const record: IdempotencyRecord = {
+			state: 'in_progress',
+			fingerprint: cmd.fingerprint,
+			expiresAt: Date.now() + cmd.ttl * 1000,
+		};
+		await this.state.storage.put(storageKey, record);
+		await this.scheduleIdempotencySweep(record.expiresAt);
+		return { existing: null };
+	}
+
+	/**
+	 * Store the response of a claimed key
+	 */
+	private async completeIdempotencyKey(cmd: IdempotencyCompleteCommand): Promise<{ ok: true }> {
+		const record: IdempotencyRecord = {
+			state: 'complete',
+			fingerprint: cmd.fingerprint,
+			status: cmd.status,
+			body: cmd.body,
+			expiresAt: Date.now() + cmd.ttl * 1000,
+		};
+		await this.state.storage.put(`${IDEMPOTENCY_PREFIX}${cmd.key}`, record);
+		await this.scheduleIdempotencySweep(record.expiresAt);
+		return { ok: true };
+	}
+
+	private async releaseIdempotencyKey(cmd: IdempotencyReleaseCommand): Promise<{ ok: true }> {
+		await this.state.storage.delete(`${IDEMPOTENCY_PREFIX}${cmd.key}`);
+		return { ok: true };
+	}
+
+	/**
+	 * Make sure an alarm runs once a record expires
+	 */
+	private async scheduleIdempotencySweep(expiresAt: number): Promise<void> {
+		const alarm = await this.state.storage.getAlarm();
+		if (alarm === null || alarm > expiresAt) {
+			await this.state.storage.setAlarm(expiresAt);
+		}
+	}
+
+	/**
+	 * Alarm: delete expired idempotency records (DO storage has no TTL)
+	 */
+	async alarm(): Promise<void> {
+		const records = await this.state.storage.list<IdempotencyRecord>({ prefix: IDEMPOTENCY_PREFIX });
+		const now = Date.now();
+		let next: number | null = null;
+
+		for (const [storageKey, record] of records) {
+			if (record.expiresAt <= now) {
+				await this.state.storage.delete(storageKey);
+			} else if (next === null || record.expiresAt < next) {
+				next = record.expiresAt;
+			}
+		}
+
+		if (next !== null) {
+			await this.state.storage.setAlarm(next);
+		}
+	}
+
+	/**
+	 * Current usage as of now (period rolled over if needed, not persisted)
+	 */
+	private async get(query: UsageQuery): Promise<UsageData> {
+		return this.current(query.usageKey, query.plan, query.periodType, query.limited);
+	}
+
+	/**
+	 * Usage history plus current usage
+	 *
+	 * If the period rolled over but no request was counted since, the stored
+	 * record is still the closing period - it's included as a closed period.
+	 */
+	private async history(query: UsageQuery): Promise<{ history: UsageHistory; usage: UsageData }> {
+		const usage = await this.current(query.usageKey, query.plan, query.periodType, query.limited);
+		const history = await this.getHistory();
+
+		const closing = usage.periodStart !== this.usage?.periodStart && this.usage
+			? snapshotPeriod(this.usage)
+			: null;
+		if (closing) {
+			history.periods.push(closing);
+		}
+
+		return { history, usage };
+	}
+
+	private async getHistory(): Promise<UsageHistory> {
+		return (await this.state.storage.get<UsageHistory>('history')) || { days: {}, periods: [] };
+	}
+
+	/**
+	 * Add credits to today's bucket (and archive a closed period)
+	 *
+	 * Buckets older than USAGE_HISTORY_DAYS are pruned when a new day starts.
+	 *
+	 * @returns The bucket's date (YYYY-MM-DD)
+	 */
+	private async recordHistory(closing: UsagePeriodSnapshot | null, amount: number): Promise<string> {
+		const history = await this.getHistory();
+		const today = toDateString(new Date());
+
+		if (!(today in history.days)) {
+			const cutoff = toDateString(new Date(Date.now() - USAGE_HISTORY_DAYS * 24 * 60 * 60 * 1000));
+			for (const day of Object.keys(history.days)) {
+				if (day < cutoff) delete history.days[day];
+			}
+		}
+		history.days[today] = (history.days[today] || 0) + amount;
+
+		if (closing) {
+			history.periods.push(closing);
+			history.periods = history.periods.slice(-USAGE_HISTORY_PERIODS);
+		}
+
+		await this.state.storage.put('history', history);
+		return today;
+	}
+
+	/**
+	 * Copy of stored usage, reset if a new billing period started
+	 *
+	 * Resets limited tiers only (unlimited tiers keep a running count).
+	 * Period = billing anchor (if subscribed) stepped by the tier's usagePeriod.
+	 */
+	private async current(
+		usageKey: string,
+		plan: PlanTier,
+		periodType: UsagePeriodType,
+		limited: boolean
+	): Promise<UsageData> {
+		const usage = { ...(await this.load(usageKey, plan, periodType)) };
+		const period = getCurrentPeriod(periodType, this.billingAnchor);
+
+		if (limited && shouldResetUsage(usage, period)) {
+			usage.usageCount = 0;
+			usage.periodStart = period.start;
+			usage.periodEnd = period.end;
+		}
+
+		return usage;
+	}
+
+	/**
+	 * Load usage from DO storage, seeding from KV on first access
+	 *
+	 * blockConcurrencyWhile keeps other requests out while the KV read is in
+	 * flight (KV I/O would otherwise let them interleave).
+	 */
+	private async load(usageKey: string, plan: PlanTier, periodType: UsagePeriodType): Promise<UsageData> {
+		if (this.usage) return this.usage;
+
+		return this.state.blockConcurrencyWhile(async () => {
+			if (this.usage) return this.usage;
+
+			this.billingAnchor = (await this.state.storage.get<string>('billingAnchor')) || null;
+
+			const stored = await this.state.storage.get<UsageData>('usage');
+			const seeded = stored || await this.env.USAGE_KV.get<UsageData>(usageKey, 'json');
+
+			const period = getCurrentPeriod(periodType, this.billingAnchor);
+			this.usage = seeded || {
+				usageCount: 0,
+				plan,
+				lastUpdated: new Date().toISOString(),
+				periodStart: period.start,
+				periodEnd: period.end,
+			};
+			return this.usage;
+		});
+	}
+
+	/**
+	 * Set (or clear with null) the subscriber's billing anchor
+	 *
+	 * Called by the Stripe webhook. The next consume/get rolls the period over
+	 * if the anchor moved the period start. The Stripe customer ID is kept
+	 * (even after cancellation) so pending overage can still be reported.
+	 */
+	private async setAnchor(
+		anchor: string | null,
+		stripeCustomerId?: string
+	): Promise<{ billingAnchor: string | null }> {
+		this.billingAnchor = anchor;
+		if (anchor) {
+			await this.state.storage.put('billingAnchor', anchor);
+		} else {
+			await this.state.storage.delete('billingAnchor');
+		}
+		if (stripeCustomerId) {
+			await this.state.storage.put('stripeCustomerId', stripeCustomerId);
+		}
+		return { billingAnchor: anchor };
+	}
+
+	/**
+	 * Persist usage to DO storage and mirror it to KV (usage:{userId} layout)
+	 */
+	private async save(usageKey: string, usage: UsageData): Promise<void> {
+		this.usage = usage;
+		await this.state.storage.put('usage', usage);
+
+		// Mirror is best-effort and doesn't block the response
+		this.state.waitUntil(this.env.USAGE_KV.put(usageKey, JSON.stringify(usage)));
+	}
+
+	/**
+	 * Check all rate limit windows and increment them if none is exhausted
+	 *
+	 * Window IDs include their bucket number, so counts from previous
+	 * buckets are simply dropped.
+	 */
+	private async rateLimit(cmd: RateLimitCommand): Promise<{ allowed: boolean; counts: number[] }> {
+		const stored = (await this.state.storage.get<Record<string, number>>('ratelimit')) || {};
+		const counts = cmd.windows.map((w) => stored[w.id] || 0);
+
+		if (cmd.windows.some((w, i) => counts[i] >= w.limit)) {
+			return { allowed: false, counts };
+		}
+
+		const next: Record<string, number> = {};
+		cmd.windows.forEach((w, i) => {
+			next[w.id] = counts[i] + 1;
+		});
+		await this.state.storage.put('ratelimit', next);
+
+		return { allowed: true, counts };
+	}
+}
+
+// ============================================================================
+// CLIENT HELPERS (used by routes and middleware)
+// ============================================================================
+
+/**
+ * Durable Object name for a user (one object per user per tenant)
+ */
+function counterName(tenant: Tenant, userId: string): string {
+	return tenantKey(tenant, `user:${userId}`);
+}
+
+/**
+ * Call the user's counter object
+ */
+async function callCounter<T>(
+	env: Env,
+	tenant: Tenant,
+	userId: string,
+	path: string,
+	body: unknown
+): Promise<T> {
+	return callCounterByName(env, counterName(tenant, userId), path, body);
+}
+
+/**
+ * Call a counter object by name (the metering cron only knows names)
+ */
+async function callCounterByName<T>(env: Env, name: string, path: string, body: unknown): Promise<T> {
+	const stub = env.USAGE_COUNTER.get(env.USAGE_COUNTER.idFromName(name));
+	const response = await stub.fetch(`https://usage-counter${path}`, {
+		method: 'POST',
+		body: JSON.stringify(body),
+	});
+	if (!response.ok) {
+		throw new Error(`Usage counter ${path} failed: ${response.status}`);
+	}
+	return response.json() as Promise<T>;
+}
+
+/**
+ * Atomically check the tier limit and reserve a request's credits
+ *
+ * @param env - Worker environment
+ * @param tenant - Resolved tenant (KV + object namespace)
+ * @param userId - Clerk user ID
+ * @param plan - User's plan
+ * @param limit - Tier limit in credits (Infinity for unlimited)
+ * @param periodType - Tier's usagePeriod
+ * @param meterEventName - Tier's overage meter event (null = hard cap)
+ * @param amount - Credits the request costs
+ * @returns allowed: false if the credits would exceed the limit (nothing
+ *   counted); reservation is what refundUsage() needs to give them back
+ */
+export async function consumeUsage(
+	env: Env,
+	tenant: Tenant,
+	userId: string,
+	plan: PlanTier,
+	limit: number,
+	periodType: UsagePeriodType,
+	meterEventName: string | null = null,
+	amount = 1
+): Promise<{ allowed: boolean; usage: UsageData; reservation: UsageReservation | null }> {
+	const cmd: ConsumeCommand = {
+		usageKey: tenantKey(tenant, `usage:${userId}`),
+		plan,
+		limit: limit === Infinity ? null : limit,
+		periodType,
+		meterEventName,
+		meterIndexKey: `${METER_INDEX_PREFIX}${counterName(tenant, userId)}`,
+		amount,
+	};
+	return callCounter(env, tenant, userId, '/consume', cmd);
+}
+
+/**
+ * Give back credits reserved by consumeUsage (e.g. the product logic failed)
+ *
+ * @returns Credits actually refunded (0 if the period has rolled over since)
+ */
+export async function refundUsage(
+	env: Env,
+	tenant: Tenant,
+	userId: string,
+	plan: PlanTier,
+	periodType: UsagePeriodType,
+	reservation: UsageReservation
+): Promise<{ refunded: number; usage: UsageData }> {
+	const cmd: RefundCommand = {
+		usageKey: tenantKey(tenant, `usage:${userId}`),
+		plan,
+		periodType,
+		reservation,
+	};
+	return callCounter(env, tenant, userId, '/refund', cmd);
+}
+
+/**
+ * Read a user's current usage (read-through to the usage:{userId} KV record)
+ *
+ * Periods are rolled over in the response (not persisted), so periodEnd is
+ * always the real reset date.
+ */
+export async function getUsage(
+	env: Env,
+	tenant: Tenant,
+	userId: string,
+	plan: PlanTier,
+	limit: number,
+	periodType: UsagePeriodType
+): Promise<UsageData> {
+	const query: UsageQuery = {
+		usageKey: tenantKey(tenant, `usage:${userId}`),
+		plan,
+		periodType,
+		limited: limit !== Infinity,
+	};
+	return callCounter(env, tenant, userId, '/get', query);
+}
+
+/**
+ * Read a user's usage history (daily buckets + closed periods) and current usage
+ */
+export async function getUsageHistory(
+	env: Env,
+	tenant: Tenant,
+	userId: string,
+	plan: PlanTier,
+	limit: number,
+	periodType: UsagePeriodType
+): Promise<{ history: UsageHistory; usage: UsageData }> {
+	const query: UsageQuery = {
+		usageKey: tenantKey(tenant, `usage:${userId}`),
+		plan,
+		periodType,
+		limited: limit !== Infinity,
+	};
+	return callCounter(env, tenant, userId, '/history', query);
+}
+
+/**
+ * Set or clear a subscriber's billing anchor (Stripe current_period_start)
+ *
+ * @param anchor - ISO timestamp, or null to go back to calendar periods
+ * @param stripeCustomerId - Stripe customer to bill overage to (kept if omitted)
+ */
+export async function setBillingAnchor(
+	env: Env,
+	tenant: Tenant,
+	userId: string,
+	anchor: string | null,
+	stripeCustomerId?: string
+): Promise<void> {
+	await callCounter(env, tenant, userId, '/anchor', { anchor, stripeCustomerId });
+}
+
+/**
+ * Claim a counter's pending overage (see UsageCounter.claimMeterBatch)
+ *
+ * @param name - Counter name (from the metering:pending: KV index)
+ */
+export async function claimMeterBatch(
+	env: Env,
+	name: string
+): Promise<{ batch: MeterBatch | null; stripeCustomerId: string | null }> {
+	return callCounterByName(env, name, '/meter/claim', {});
+}
+
+/**
+ * Acknowledge a batch Stripe accepted
+ *
+ * @returns Overage counted since the batch was claimed
+ */
+export async function ackMeterBatch(env: Env, name: string, id: string): Promise<{ pending: number }> {
+	return callCounterByName(env, name, '/meter/ack', { id });
+}
+
+/**
+ * Atomically check and increment rate limit windows
+ *
+ * @returns allowed + the counts BEFORE this request (same order as windows)
+ */
+export async function consumeRateLimit(
+	env: Env,
+	tenant: Tenant,
+	userId: string,
+	windows: { id: string; limit: number }[]
+): Promise<{ allowed: boolean; counts: number[] }> {
+	return callCounter(env, tenant, userId, '/ratelimit', { windows });
+}
+
+/**
+ * Claim an Idempotency-Key for a caller (atomic - see services/idempotency.ts)
+ *
+ * @param ttl - Seconds the in-progress marker lives (in case the Worker dies)
+ * @returns existing: the key's live record, or null if this call claimed it
+ */
+export async function claimIdempotencyKey(
+	env: Env,
+	tenant: Tenant,
+	userId: string,
+	key: string,
+	fingerprint: string,
+	ttl: number
+): Promise<{ existing: IdempotencyRecord | null }> {
+	return callCounter(env, tenant, userId, '/idempotency/claim', { key, fingerprint, ttl });
+}
+
+/**
+ * Store the response of a claimed key (replayed for ttl seconds)
+ */
+export async function completeIdempotencyKey(
+	env: Env,
+	tenant: Tenant,
+	userId: string,
+	key: string,
+	response: { fingerprint: string; status: number; body: string },
+	ttl: number
+): Promise<void> {
+	await callCounter(env, tenant, userId, '/idempotency/complete', { key, ...response, ttl });
+}
+
+/**
+ * Forget a claimed key (the request failed and may run again)
+ */
+export async function releaseIdempotencyKey(env: Env, tenant: Tenant, userId: string, key: string): Promise<void> {
+	await callCounter(env, tenant, userId, '/idempotency/release', { key });
+}
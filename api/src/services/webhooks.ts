@@ -0,0 +1,468 @@
+/**
+ * ============================================================================
+ * OUTBOUND WEBHOOKS - Tell the product backend about plan and quota changes
+ * ============================================================================
+ *
+ * Plans live in Clerk metadata and usage in the UsageCounter, so the
+ * storefront owner's own services can't see when a customer upgrades,
+ * cancels or runs out of quota. Registered endpoints get a signed POST for:
+ *
+ * - plan.changed               → Stripe webhook moved the owner to another tier
+ * - subscription.canceled      → cancellation requested (in-app or portal) or
+ *                                subscription ended without one
+ * - usage.threshold_reached    → a request crossed one of the tier's usageAlerts
+ *                                thresholds below 100% (config.ts, default 80%)
+ * - usage.limit_reached        → a request used the last credits of the limit
+ *
+ * Usage events fire once per period: counters only go up, so only one
+ * request crosses each threshold (a refunded request can cross it again).
+ *
+ * STORAGE (USAGE_KV, namespaced per tenant via tenantKey()):
+ * - webhooks:endpoints                     → WebhookEndpoint[] (incl. signing secrets)
+ * - webhooks:delivery:{endpointId}:{id}    → WebhookDelivery (the delivery log,
+ *                                            kept DELIVERY_LOG_TTL after it settles)
+ * - webhooks:pending:{delivery key}        → index of deliveries still to send
+ *                                            (not namespaced - the cron scans all tenants)
+ *
+ * DELIVERY (scheduled handler, wrangler.toml [triggers]):
+ * 1. emitWebhookEvent() stores one pending delivery per subscribed endpoint
+ * 2. Cron (every minute) → deliverWebhooks(): POSTs due deliveries
+ * 3. 2xx = delivered. Anything else is retried with exponential backoff
+ *    (1, 2, 4, ... minutes) up to MAX_DELIVERY_ATTEMPTS, then marked failed
+ *
+ * SIGNATURE (verify on the receiving side):
+ *   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256(secret, "<t>.<raw body>")>
+ * Reject stale timestamps (e.g. older than 5 minutes) to stop replays, and
+ * dedupe on X-Webhook-Id (retries resend the same event ID).
+ *
+ * ============================================================================
+ */
+
+import { Env } from '../types';
+import { RegisteredTier } from '../config/tierRegistry';
+import { Tenant, loadTenant, tenantKey } from './tenant';
+import { getCrossedAlerts } from './usageAlerts';
+
+/**
+ * Event types endpoints can subscribe to
+ */
+export const WEBHOOK_EVENT_TYPES = [
+	'plan.changed',
+	'subscription.canceled',
+	'usage.threshold_reached',
+	'usage.limit_reached',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+/**
+ * Endpoints per tenant
+ */
+export const MAX_WEBHOOK_ENDPOINTS = 10;
+
+/**
+ * Attempts before a delivery is marked failed (~4 hours of retries)
+ */
+const MAX_DELIVERY_ATTEMPTS = 8;
+
+/**
+ * First retry delay, doubled after every failed attempt (1 minute)
+ */
+const RETRY_BASE_MS = 60 * 1000;
+
+/**
+ * Give up on a slow endpoint after 10 seconds
+ */
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Delivered/failed deliveries stay in the log for 30 days (seconds)
+ */
+const DELIVERY_LOG_TTL = 30 * 24 * 60 * 60;
+
+/**
+ * KV index of pending deliveries (global, holds the tenant-namespaced delivery key)
+ */
+const PENDING_INDEX_PREFIX = 'webhooks:pending:';
+
+/**
+ * A registered endpoint
+ */
+export interface WebhookEndpoint {
+	id: string;
+	url: string;
+	description: string | null;
+	events: WebhookEventType[];   // Empty = all events
+	secret: string;               // HMAC signing secret (whsec_...)
+	createdAt: string;            // ISO timestamp
+}
+
+/**
+ * The payload POSTed to endpoints
+ */
+export interface WebhookEvent {
+	id: string;                   // evt_... (same for every endpoint and retry)
+	type: WebhookEventType;
+	createdAt: string;            // ISO timestamp
+	tenantId: string | null;      // null = default tenant
+	data: Record<string, unknown>;
+}
+
+/**
+ * One event sent to one endpoint
+ */
+export interface WebhookDelivery {
+	id: string;
+	endpointId: string;
+	event: WebhookEvent;
+	status: 'pending' | 'delivered' | 'failed';
+	attempts: number;
+	nextAttemptAt: number | null;   // Unix ms (pending only)
+	lastAttemptAt: string | null;   // ISO timestamp
+	lastStatus: number | null;      // HTTP status of the last attempt
+	lastError: string | null;
+	deliveredAt: string | null;     // ISO timestamp
+}
+
+/**
+ * KV metadata on a delivery (lets the log be listed without reading each record)
+ */
+export type WebhookDeliverySummary = Pick<WebhookDelivery, 'id' | 'status' | 'attempts' | 'lastStatus'> & {
+	eventId: string;
+	type: WebhookEventType;
+	createdAt: string;
+};
+
+/**
+ * Random hex string (bytes * 2 characters)
+ */
+function randomHex(bytes: number): string {
+	return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function endpointsKey(tenant: Tenant): string {
+	return tenantKey(tenant, 'webhooks:endpoints');
+}
+
+function deliveryKey(tenant: Tenant, endpointId: string, deliveryId: string): string {
+	return tenantKey(tenant, `webhooks:delivery:${endpointId}:${deliveryId}`);
+}
+
+/**
+ * Delivery IDs sort newest first (KV lists keys in ascending order)
+ */
+function newDeliveryId(now: number): string {
+	return `dlv_${(Number.MAX_SAFE_INTEGER - now).toString(36)}${randomHex(4)}`;
+}
+
+function toSummary(delivery: WebhookDelivery): WebhookDeliverySummary {
+	return {
+		id: delivery.id,
+		eventId: delivery.event.id,
+		type: delivery.event.type,
+		status: delivery.status,
+		attempts: delivery.attempts,
+		lastStatus: delivery.lastStatus,
+		createdAt: delivery.event.createdAt,
+	};
+}
+
+/**
+ * Is this a URL deliveries can be sent to? (https, or http on localhost for development)
+ */
+export function isValidWebhookUrl(value: string): boolean {
+	try {
+		const url = new URL(value);
+		return url.protocol === 'https:' || (url.protocol === 'http:' && url.hostname === 'localhost');
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * The tenant's endpoints
+ */
+export async function listWebhookEndpoints(env: Env, tenant: Tenant): Promise<WebhookEndpoint[]> {
+	return await env.USAGE_KV.get<WebhookEndpoint[]>(endpointsKey(tenant), 'json') || [];
+}
+
+/**
+ * Register an endpoint
+ *
+ * @returns The endpoint (with its signing secret), or null if the tenant
+ *          already has MAX_WEBHOOK_ENDPOINTS endpoints
+ */
+export async function createWebhookEndpoint(
+	env: Env,
+	tenant: Tenant,
+	url: string,
+	events: WebhookEventType[],
+	description: string | null
+): Promise<WebhookEndpoint | null> {
+	const endpoints = await listWebhookEndpoints(env, tenant);
+	if (endpoints.length >= MAX_WEBHOOK_ENDPOINTS) return null;
+
+	const endpoint: WebhookEndpoint = {
+		id: `we_${randomHex(8)}`,
+		url,
+		description,
+		events,
+		secret: `whsec_${randomHex(24)}`,
+		createdAt: new Date().toISOString(),
+	};
+	await env.USAGE_KV.put(endpointsKey(tenant), JSON.stringify([...endpoints, endpoint]));
+	return endpoint;
+}
+
+/**
+ * Remove an endpoint (its pending deliveries are dropped by the next cron run)
+ *
+ * @returns false if the tenant has no endpoint with this ID
+ */
+export async function deleteWebhookEndpoint(env: Env, tenant: Tenant, endpointId: string): Promise<boolean> {
+	const endpoints = await listWebhookEndpoints(env, tenant);
+	if (!endpoints.some((e) => e.id === endpointId)) return false;
+
+	await env.USAGE_KV.put(endpointsKey(tenant), JSON.stringify(endpoints.filter((e) => e.id !== endpointId)));
+	return true;
+}
+
+/**
+ * An endpoint's delivery log, newest first
+ */
+export async function listWebhookDeliveries(
+	env: Env,
+	tenant: Tenant,
+	endpointId: string,
+	limit: number,
+	cursor?: string
+): Promise<{ deliveries: WebhookDeliverySummary[]; cursor: string | null }> {
+	const page = await env.USAGE_KV.list<WebhookDeliverySummary>({
+		prefix: tenantKey(tenant, `webhooks:delivery:${endpointId}:`),
+		limit,
+		cursor,
+	});
+	return {
+		deliveries: page.keys.flatMap((key) => key.metadata ? [key.metadata] : []),
+		cursor: page.list_complete ? null : page.cursor,
+	};
+}
+
+/**
+ * One delivery with its full payload and last error
+ */
+export async function getWebhookDelivery(
+	env: Env,
+	tenant: Tenant,
+	endpointId: string,
+	deliveryId: string
+): Promise<WebhookDelivery | null> {
+	return env.USAGE_KV.get<WebhookDelivery>(deliveryKey(tenant, endpointId, deliveryId), 'json');
+}
+
+/**
+ * Queue an event for every endpoint subscribed to it
+ *
+ * Never throws - a webhook problem must not fail the request or Stripe
+ * event that caused it (errors are logged).
+ */
+export async function emitWebhookEvent(
+	env: Env,
+	tenant: Tenant,
+	type: WebhookEventType,
+	data: Record<string, unknown>
+): Promise<void> {
+	try {
+		const endpoints = (await listWebhookEndpoints(env, tenant))
+			.filter((e) => e.events.length === 0 || e.events.includes(type));
+		if (endpoints.length === 0) return;
+
+		const now = Date.now();
+		const event: WebhookEvent = {
+			id: `evt_${randomHex(12)}`,
+			type,
+			createdAt: new Date(now).toISOString(),
+			tenantId: tenant.id,
+			data,
+		};
+
+		for (const endpoint of endpoints) {
+			const delivery: WebhookDelivery = {
+				id: newDeliveryId(now),
+				endpointId: endpoint.id,
+				event,
+				status: 'pending',
+				attempts: 0,
+				nextAttemptAt: now,
+				lastAttemptAt: null,
+				lastStatus: null,
+				lastError: null,
+				deliveredAt: null,
+			};
+			const key = deliveryKey(tenant, endpoint.id, delivery.id);
+			await env.USAGE_KV.put(key, JSON.stringify(delivery), { metadata: toSummary(delivery) });
+			await env.USAGE_KV.put(PENDING_INDEX_PREFIX + key, '', { metadata: { nextAttemptAt: now } });
+		}
+		console.log(`📤 Queued ${type} (${event.id}) for ${endpoints.length} webhook endpoint(s)`);
+	} catch (err: any) {
+		console.error(`❌ Failed to queue ${type} webhook:`, err.message);
+	}
+}
+
+/**
+ * Which usage event (if any) this request triggered
+ *
+ * Thresholds are the tier's usageAlerts below 100% - the same ones the alert
+ * emails use. A request crossing several at once only sends the highest
+ * (usage.limit_reached if it used the last credits).
+ *
+ * @param tier - Caller's tier (limit + usageAlerts)
+ * @param usageCount - Usage after the request was counted
+ * @param amount - Credits the request added
+ * @returns The event and, for usage.threshold_reached, the crossed percentage
+ */
+export function getUsageWebhookEvent(
+	tier: RegisteredTier,
+	usageCount: number,
+	amount = 1
+): { type: WebhookEventType; thresholdPercent?: number } | null {
+	if (tier.limit === Infinity || tier.limit <= 0) return null;
+	if (usageCount >= tier.limit && usageCount - amount < tier.limit) {
+		return { type: 'usage.limit_reached' };
+	}
+
+	const crossed = getCrossedAlerts(tier, usageCount, amount).filter((percent) => percent < 100);
+	if (crossed.length === 0) return null;
+	return { type: 'usage.threshold_reached', thresholdPercent: Math.max(...crossed) };
+}
+
+/**
+ * X-Webhook-Signature header value for a payload
+ */
+async function signPayload(secret: string, timestamp: number, body: string): Promise<string> {
+	const key = await crypto.subtle.importKey(
+		'raw',
+		new TextEncoder().encode(secret),
+		{ name: 'HMAC', hash: 'SHA-256' },
+		false,
+		['sign']
+	);
+	const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+	const hex = Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, '0')).join('');
+	return `t=${timestamp},v1=${hex}`;
+}
+
+/**
+ * POST an event to an endpoint
+ *
+ * @returns HTTP status (null if the request itself failed) and an error for non-2xx
+ */
+async function sendEvent(
+	endpoint: WebhookEndpoint,
+	event: WebhookEvent
+): Promise<{ status: number | null; error: string | null }> {
+	const body = JSON.stringify(event);
+	try {
+		const response = await fetch(endpoint.url, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'X-Webhook-Id': event.id,
+				'X-Webhook-Event': event.type,
+				'X-Webhook-Signature': await signPayload(endpoint.secret, Math.floor(Date.now() / 1000), body),
+			},
+			body,
+			signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+		});
+		return { status: response.status, error: response.ok ? null : `HTTP ${response.status}` };
+	} catch (err: any) {
+		return { status: null, error: err.message || 'Request failed' };
+	}
+}
+
+/**
+ * Send all due deliveries (scheduled handler)
+ *
+ * Errors are logged per delivery and never abort the run - the delivery
+ * stays in the index and is retried next run.
+ *
+ * @param env - Worker environment
+ * @returns Number of deliveries delivered, retried later and given up on
+ */
+export async function deliverWebhooks(env: Env): Promise<{ delivered: number; retrying: number; failed: number }> {
+	const counts = { delivered: 0, retrying: 0, failed: 0 };
+	const tenants = new Map<string | null, Tenant | null>();
+	const now = Date.now();
+	let cursor: string | undefined;
+
+	do {
+		const page = await env.USAGE_KV.list<{ nextAttemptAt: number }>({ prefix: PENDING_INDEX_PREFIX, cursor });
+
+		for (const { name: indexKey, metadata } of page.keys) {
+			if (metadata && metadata.nextAttemptAt > now) continue;
+
+			const key = indexKey.slice(PENDING_INDEX_PREFIX.length);
+			try {
+				const delivery = await env.USAGE_KV.get<WebhookDelivery>(key, 'json');
+				if (!delivery || delivery.status !== 'pending') {
+					await env.USAGE_KV.delete(indexKey);
+					continue;
+				}
+
+				// Endpoints are per tenant (one tenant lookup per run)
+				const tenantId = delivery.event.tenantId;
+				if (!tenants.has(tenantId)) {
+					const result = await loadTenant(tenantId, env);
+					tenants.set(tenantId, result.tenant || null);
+				}
+				const tenant = tenants.get(tenantId);
+				if (!tenant) {
+					console.error(`❌ Could not load tenant ${tenantId || '(default)'} for delivery ${delivery.id}, retrying next run`);
+					continue;
+				}
+
+				const endpoint = (await listWebhookEndpoints(env, tenant)).find((e) => e.id === delivery.endpointId);
+				const result = endpoint
+					? await sendEvent(endpoint, delivery.event)
+					: { status: null, error: 'Endpoint deleted' };
+
+				delivery.attempts++;
+				delivery.lastAttemptAt = new Date().toISOString();
+				delivery.lastStatus = result.status;
+				delivery.lastError = result.error;
+
+				if (!result.error) {
+					delivery.status = 'delivered';
+					delivery.deliveredAt = delivery.lastAttemptAt;
+					delivery.nextAttemptAt = null;
+					counts.delivered++;
+				} else if (!endpoint || delivery.attempts >= MAX_DELIVERY_ATTEMPTS) {
+					delivery.status = 'failed';
+					delivery.nextAttemptAt = null;
+					counts.failed++;
+					console.error(`❌ Webhook ${delivery.id} (${delivery.event.type}) failed after ${delivery.attempts} attempts: ${result.error}`);
+				} else {
+					delivery.nextAttemptAt = Date.now() + RETRY_BASE_MS * 2 ** (delivery.attempts - 1);
+					counts.retrying++;
+				}
+
+				if (delivery.status === 'pending') {
+					await env.USAGE_KV.put(key, JSON.stringify(delivery), { metadata: toSummary(delivery) });
+					await env.USAGE_KV.put(indexKey, '', { metadata: { nextAttemptAt: delivery.nextAttemptAt } });
+				} else {
+					await env.USAGE_KV.put(key, JSON.stringify(delivery), {
+						metadata: toSummary(delivery),
+						expirationTtl: DELIVERY_LOG_TTL,
+					});
+					await env.USAGE_KV.delete(indexKey);
+				}
+			} catch (err: any) {
+				console.error(`❌ Failed to deliver webhook ${key}:`, err.message);
+			}
+		}
+
+		cursor = page.list_complete ? undefined : page.cursor;
+	} while (cursor);
+
+	return counts;
+}
@@ -1,11 +1,138 @@
 import { createClerkClient } from '@clerk/backend';
 import Stripe from 'stripe';
+import { Env } from './types';
+import { RegisteredTier, TierRegistry, findTier, findTierByPriceId, unknownTierMessage } from './config/tierRegistry';
+import { Tenant, loadTenant } from './services/tenant';
+import { setBillingAnchor } from './services/usageCounter';
+import { emitWebhookEvent } from './services/webhooks';
+import {
+	BillingState,
+	updateBillingState,
+	getSubscriptionPeriod,
+	checkoutCompletedPatch,
+	subscriptionPatch,
+	subscriptionDeletedPatch,
+	paymentFailedPatch,
+	paymentRecoveredPatch,
+} from './services/billingState';
 
-interface Env {
-	CLERK_SECRET_KEY: string;
-	STRIPE_SECRET_KEY: string;
-	STRIPE_WEBHOOK_SECRET?: string;
-	USAGE_KV: KVNamespace;  // For webhook idempotency tracking
+/**
+ * Load the tenant an event belongs to
+ *
+ * Checkout tags sessions and subscriptions with metadata.tenantId (see
+ * routes/checkout.ts). Events without it belong to the default tenant.
+ */
+async function getEventTenant(
+	metadata: Stripe.Metadata | null | undefined,
+	env: Env
+): Promise<Tenant | null> {
+	const result = await loadTenant(metadata?.tenantId || null, env);
+	if (result.error) {
+		console.error(`❌ Could not load tenant ${metadata?.tenantId || '(default)'}:`, result.error.message);
+		return null;
+	}
+	return result.tenant;
+}
+
+/**
+ * Whose billing state an event updates
+ *
+ * Team checkouts tag the session and subscription with metadata.orgId (see
+ * routes/checkout.ts) - the organization owns the plan, metadata.userId is
+ * just the member who bought it.
+ */
+function getBillingOwnerId(metadata: Stripe.Metadata | null | undefined): string | undefined {
+	return metadata?.orgId || metadata?.userId;
+}
+
+/**
+ * Resolve the subscribed tier from the subscription's price IDs
+ *
+ * WHY NOT metadata.tier: it's set once at checkout. Plan switches in the
+ * Customer Portal change the price, not the metadata.
+ *
+ * Multi-item subscriptions (e.g. base price + metered overage price): the
+ * most expensive matching tier wins. Prices that are neither a tier nor a
+ * tier's overage price are returned as unknown.
+ */
+function resolveSubscriptionTier(
+	subscription: Stripe.Subscription,
+	registry: TierRegistry
+): { tier: RegisteredTier | undefined; unknownPriceIds: string[] } {
+	let tier: RegisteredTier | undefined;
+	const unknownPriceIds: string[] = [];
+
+	for (const item of subscription.items?.data || []) {
+		const match = findTierByPriceId(registry, item.price.id);
+		if (match) {
+			if (!tier || match.price > tier.price) tier = match;
+		} else if (!registry.tiers.some((t) => t.overage?.stripePriceId === item.price.id)) {
+			unknownPriceIds.push(item.price.id);
+		}
+	}
+
+	return { tier, unknownPriceIds };
+}
+
+/**
+ * Record an event that can't be applied, instead of failing it
+ *
+ * WHY NOT 400: Stripe retries non-2xx responses for days, and a bad payload
+ * (missing userId, unknown price) fails the same way every time. The event
+ * is acknowledged and kept for manual review / replay.
+ *
+ * KV: webhook:dead-letter:{eventId} → JSON (30-day TTL, like idempotency keys)
+ */
+async function recordDeadLetter(
+	env: Env,
+	event: Stripe.Event,
+	reason: string,
+	details: Record<string, unknown> = {}
+): Promise<void> {
+	console.error(`❌ Dead-lettered ${event.type} ${event.id}: ${reason}`, details);
+	await env.USAGE_KV.put(
+		`webhook:dead-letter:${event.id}`,
+		JSON.stringify({
+			eventId: event.id,
+			type: event.type,
+			reason,
+			...details,
+			recordedAt: new Date().toISOString(),
+		}),
+		{ expirationTtl: 2592000 }  // 30 days
+	);
+}
+
+/**
+ * Billing anchor (ISO) from a paid invoice's line item periods
+ */
+function getInvoicePeriodStart(invoice: Stripe.Invoice): string | null {
+	const starts = invoice.lines?.data.map((line) => line.period.start) || [];
+	if (starts.length === 0) return null;
+	return new Date(Math.min(...starts) * 1000).toISOString();
+}
+
+/**
+ * Store the subscriber's billing anchor so usage resets on their billing day
+ *
+ * The Stripe customer ID goes along so metered overage can be reported
+ * (see services/metering.ts). Failures are logged, not returned: the plan
+ * update already succeeded and usage falls back to calendar periods until
+ * the next event.
+ */
+async function syncBillingAnchor(
+	env: Env,
+	tenant: Tenant,
+	userId: string,
+	anchor: string | null,
+	stripeCustomerId?: string
+): Promise<void> {
+	try {
+		await setBillingAnchor(env, tenant, userId, anchor, stripeCustomerId);
+		console.log(`✅ Billing anchor for ${userId}: ${anchor || '(calendar periods)'}`);
+	} catch (err: any) {
+		console.error(`❌ Failed to set billing anchor for ${userId}:`, err.message);
+	}
 }
 
 export async function handleStripeWebhook(
@@ -78,30 +205,39 @@ export async function handleStripeWebhook(
 	// Handle different event types
 	switch (event.type) {
 		case 'checkout.session.completed':
-			// For checkout, userId is in client_reference_id
+			// For checkout, userId is in client_reference_id (orgId for team plans)
 			const session = event.data.object as Stripe.Checkout.Session;
-			const userId = session.client_reference_id || session.metadata?.userId;
+			const userId = session.metadata?.orgId || session.client_reference_id || session.metadata?.userId;
 
 			if (!userId) {
-				console.error('No userId in checkout session');
-				return new Response(JSON.stringify({ error: 'No userId' }), { status: 400 });
+				await recordDeadLetter(env, event, 'No userId in checkout session');
+				break;
 			}
 
 			// Get tier from session metadata (sent during checkout)
-			// IMPORTANT: Should always be present - if not, fail explicitly
+			// IMPORTANT: Should always be present - if not, dead-letter explicitly
+			// (customer.subscription.created resolves the tier from the price anyway)
 			const tier = session.metadata?.tier;
 			if (!tier) {
-				console.error('❌ No tier metadata in checkout session');
-				return new Response(JSON.stringify({ error: 'Missing tier metadata' }), { status: 400 });
+				await recordDeadLetter(env, event, 'No tier metadata in checkout session', { userId });
+				break;
+			}
+			const tenant = await getEventTenant(session.metadata, env);
+			if (!tenant) {
+				await recordDeadLetter(env, event, 'Unknown tenant', { userId, tenantId: session.metadata?.tenantId });
+				break;
+			}
+			if (!findTier(tenant.registry, tier)) {
+				await recordDeadLetter(env, event, unknownTierMessage(tenant.registry, tier), { userId, tier });
+				break;
 			}
 
-			// Update Clerk user metadata with purchased tier
+			// Merge purchased tier into Clerk metadata (see services/billingState.ts)
+			let previousPlan: string | undefined;
 			try {
-				await clerkClient.users.updateUser(userId, {
-					publicMetadata: {
-						plan: tier,
-						stripeCustomerId: session.customer as string,
-					},
+				await updateBillingState(clerkClient, userId, (current) => {
+					previousPlan = current.plan;
+					return checkoutCompletedPatch(session, tier, current);
 				});
 				console.log(`✅ Updated user ${userId} to ${tier} plan after checkout`);
 			} catch (err: any) {
@@ -111,35 +247,73 @@ export async function handleStripeWebhook(
 					{ status: 500 }
 				);
 			}
+
+			// Outbound webhook (customer.subscription.created finds the plan already set)
+			if (previousPlan !== tier) {
+				await emitWebhookEvent(env, tenant, 'plan.changed', {
+					ownerId: userId,
+					previousPlan: previousPlan || null,
+					plan: tier,
+					subscriptionId: session.subscription as string | null,
+				});
+			}
 			break;
 
 		case 'customer.subscription.created':
 		case 'customer.subscription.updated':
-			// Extract customer metadata (should include userId)
+			// Extract customer metadata (should include userId, plus orgId for team plans)
 			const subscription = event.data.object as Stripe.Subscription;
-			const subUserId = subscription.metadata?.userId;
+			const subUserId = getBillingOwnerId(subscription.metadata);
 
 			if (!subUserId) {
-				console.error('No userId in subscription metadata');
-				return new Response(JSON.stringify({ error: 'No userId' }), { status: 400 });
+				await recordDeadLetter(env, event, 'No userId in subscription metadata', {
+					subscriptionId: subscription.id,
+				});
+				break;
 			}
 
-			// Get tier from subscription metadata
-			// IMPORTANT: Should always be present - if not, fail explicitly
-			const subTier = subscription.metadata?.tier;
-			if (!subTier) {
-				console.error('❌ No tier metadata in subscription');
-				return new Response(JSON.stringify({ error: 'Missing tier metadata' }), { status: 400 });
+			const subTenant = await getEventTenant(subscription.metadata, env);
+			if (!subTenant) {
+				await recordDeadLetter(env, event, 'Unknown tenant', {
+					userId: subUserId,
+					tenantId: subscription.metadata?.tenantId,
+				});
+				break;
 			}
 
-			// Update Clerk user metadata with subscription tier
+			// Get tier from the subscription's price IDs (NOT metadata.tier - it
+			// goes stale when the plan is switched in the Customer Portal)
+			const { tier: subscribedTier, unknownPriceIds } = resolveSubscriptionTier(subscription, subTenant.registry);
+			if (!subscribedTier) {
+				await recordDeadLetter(env, event, 'No configured tier matches the subscription prices', {
+					userId: subUserId,
+					subscriptionId: subscription.id,
+					priceIds: subscription.items?.data.map((item) => item.price.id) || [],
+				});
+				break;
+			}
+			if (unknownPriceIds.length > 0) {
+				// Tier still applies - record the extra prices for review
+				await recordDeadLetter(env, event, 'Unknown prices on subscription', {
+					userId: subUserId,
+					subscriptionId: subscription.id,
+					unknownPriceIds,
+					appliedTier: subscribedTier.id,
+				});
+			}
+
+			const subTier = subscribedTier.id;
+			if (subscription.metadata?.tier && subscription.metadata.tier !== subTier) {
+				console.log(`ℹ️  Subscription ${subscription.id} price is ${subTier} (metadata.tier: ${subscription.metadata.tier})`);
+			}
+
+			// Merge subscription tier, status and period into Clerk metadata
+			// (past_due/unpaid starts the grace period, see services/billing.ts)
+			let subPrevious: BillingState | undefined;
 			try {
-				await clerkClient.users.updateUser(subUserId, {
-					publicMetadata: {
-						plan: subTier,
-						stripeCustomerId: subscription.customer as string,
-						subscriptionId: subscription.id,
-					},
+				await updateBillingState(clerkClient, subUserId, (current) => {
+					subPrevious = current;
+					return subscriptionPatch(subscription, subTier, current);
 				});
 				console.log(`✅ Updated user ${subUserId} to ${subTier} plan`);
 			} catch (err: any) {
@@ -149,25 +323,63 @@ export async function handleStripeWebhook(
 					{ status: 500 }
 				);
 			}
+
+			// Anchor usage periods to the subscription's billing cycle
+			await syncBillingAnchor(
+				env,
+				subTenant,
+				subUserId,
+				getSubscriptionPeriod(subscription)?.start ?? null,
+				subscription.customer as string
+			);
+
+			// Outbound webhooks: plan switched / cancellation requested (Stripe
+			// portal - in-app cancels send theirs from routes/subscription.ts)
+			if (subPrevious && subPrevious.plan !== subTier) {
+				await emitWebhookEvent(env, subTenant, 'plan.changed', {
+					ownerId: subUserId,
+					previousPlan: subPrevious.plan || null,
+					plan: subTier,
+					subscriptionId: subscription.id,
+				});
+			}
+			if (subPrevious && subscription.cancel_at_period_end && !subPrevious.cancelAtPeriodEnd) {
+				await emitWebhookEvent(env, subTenant, 'subscription.canceled', {
+					ownerId: subUserId,
+					plan: subTier,
+					subscriptionId: subscription.id,
+					endsAt: getSubscriptionPeriod(subscription)?.end ?? null,
+					immediate: false,
+				});
+			}
 			break;
 
 		case 'customer.subscription.deleted':
 			const deletedSubscription = event.data.object as Stripe.Subscription;
-			const deletedUserId = deletedSubscription.metadata?.userId;
+			const deletedUserId = getBillingOwnerId(deletedSubscription.metadata);
 
 			if (!deletedUserId) {
-				console.error('No userId in deleted subscription metadata');
-				return new Response(JSON.stringify({ error: 'No userId' }), { status: 400 });
+				await recordDeadLetter(env, event, 'No userId in deleted subscription metadata', {
+					subscriptionId: deletedSubscription.id,
+				});
+				break;
 			}
 
-			// Downgrade user back to free
+			// Downgrade user back to the tenant's default (free) tier
+			// stripeCustomerId is kept so the portal still shows past invoices
+			const deletedTenant = await getEventTenant(deletedSubscription.metadata, env);
+			const downgradeTier = deletedTenant?.registry.defaultTier?.id || 'free';
+			let deletedPrevious: BillingState | undefined;
 			try {
-				await clerkClient.users.updateUser(deletedUserId, {
-					publicMetadata: {
-						plan: 'free',
-					},
+				const downgraded = await updateBillingState(clerkClient, deletedUserId, (current) => {
+					deletedPrevious = current;
+					return subscriptionDeletedPatch(deletedSubscription, downgradeTier, current);
 				});
-				console.log(`✅ Downgraded user ${deletedUserId} to free plan`);
+				if (!downgraded) {
+					console.log(`ℹ️  User ${deletedUserId} already moved to another subscription, not downgrading`);
+					break;
+				}
+				console.log(`✅ Downgraded user ${deletedUserId} to ${downgradeTier} plan`);
 			} catch (err: any) {
 				console.error(`❌ Failed to downgrade user ${deletedUserId}:`, err.message);
 				return new Response(
@@ -175,6 +387,85 @@ export async function handleStripeWebhook(
 					{ status: 500 }
 				);
 			}
+
+			// Free users go back to calendar periods
+			if (deletedTenant) {
+				await syncBillingAnchor(env, deletedTenant, deletedUserId, null);
+
+				// Outbound webhooks (scheduled cancellations already sent subscription.canceled)
+				if (!deletedPrevious?.cancelAtPeriodEnd) {
+					await emitWebhookEvent(env, deletedTenant, 'subscription.canceled', {
+						ownerId: deletedUserId,
+						plan: deletedPrevious?.plan || null,
+						subscriptionId: deletedSubscription.id,
+						endsAt: new Date().toISOString(),
+						immediate: true,
+					});
+				}
+				if (deletedPrevious?.plan !== downgradeTier) {
+					await emitWebhookEvent(env, deletedTenant, 'plan.changed', {
+						ownerId: deletedUserId,
+						previousPlan: deletedPrevious?.plan || null,
+						plan: downgradeTier,
+						subscriptionId: null,
+					});
+				}
+			}
+			break;
+
+		case 'invoice.paid':
+			// Renewal: move the billing anchor to the new period
+			// Subscription metadata (userId, tenantId) is snapshotted on the invoice
+			const paidInvoice = event.data.object as Stripe.Invoice;
+			const invoiceMetadata = paidInvoice.parent?.subscription_details?.metadata;
+			const invoiceUserId = getBillingOwnerId(invoiceMetadata);
+			const invoiceAnchor = getInvoicePeriodStart(paidInvoice);
+
+			if (!invoiceUserId || !invoiceAnchor) {
+				console.log(`ℹ️  Invoice ${paidInvoice.id} has no subscription userId/period, skipping`);
+				break;
+			}
+
+			const invoiceTenant = await getEventTenant(invoiceMetadata, env);
+			if (invoiceTenant) {
+				await syncBillingAnchor(env, invoiceTenant, invoiceUserId, invoiceAnchor, paidInvoice.customer as string);
+			}
+
+			// Payment went through: end the grace period
+			try {
+				if (await updateBillingState(clerkClient, invoiceUserId, paymentRecoveredPatch)) {
+					console.log(`✅ Payment recovered for ${invoiceUserId}, billing status active`);
+				}
+			} catch (err: any) {
+				console.error(`❌ Failed to update billing status for ${invoiceUserId}:`, err.message);
+				return new Response(
+					JSON.stringify({ error: 'Failed to update user metadata' }),
+					{ status: 500 }
+				);
+			}
+			break;
+
+		case 'invoice.payment_failed':
+			// Renewal payment failed: mark past_due and start the grace period
+			// (Stripe retries the charge; invoice.paid ends the grace period)
+			const failedInvoice = event.data.object as Stripe.Invoice;
+			const failedUserId = getBillingOwnerId(failedInvoice.parent?.subscription_details?.metadata);
+
+			if (!failedUserId) {
+				console.log(`ℹ️  Invoice ${failedInvoice.id} has no subscription userId, skipping`);
+				break;
+			}
+
+			try {
+				const failedPatch = await updateBillingState(clerkClient, failedUserId, paymentFailedPatch);
+				console.log(`⚠️  Payment failed for ${failedUserId}, past due since ${failedPatch?.pastDueSince}`);
+			} catch (err: any) {
+				console.error(`❌ Failed to update billing status for ${failedUserId}:`, err.message);
+				return new Response(
+					JSON.stringify({ error: 'Failed to update user metadata' }),
+					{ status: 500 }
+				);
+			}
 			break;
 
 		default:
@@ -18,20 +18,28 @@ export interface Env {
 	STRIPE_PRICE_ID_PRO?: string;       // Stripe price ID for Pro tier
 	STRIPE_PRICE_ID_DEVELOPER?: string; // Stripe price ID for Developer tier
 	STRIPE_PORTAL_CONFIG_ID?: string;   // OPTIONAL: Stripe portal configuration ID (bpc_...)
+	BILLING_GRACE_PERIOD_DAYS?: string; // OPTIONAL: Days a past_due/unpaid subscriber keeps their plan
+	                                     // If not set, falls back to BILLING_GRACE_PERIOD_DAYS in config/tiers.ts
 	ALLOWED_ORIGINS?: string;           // OPTIONAL: Comma-separated list of allowed origins
 	                                     // Example: "https://app.example.com,https://staging.example.com"
 	                                     // If not set, falls back to defaults (see CORS middleware)
 	USAGE_KV: KVNamespace;              // KV namespace binding (set in wrangler.toml)
+	USAGE_COUNTER: DurableObjectNamespace; // UsageCounter Durable Object binding (set in wrangler.toml)
 	CLERK_JWT_TEMPLATE: string;         // JWT template name (e.g., "pan-api")
+	RESEND_API_KEY?: string;            // OPTIONAL: Resend API key for usage alert emails (re_...)
+	MAIL_FROM?: string;                 // OPTIONAL: Sender, e.g. "YourApp <alerts@yourapp.com>"
+	                                     // Without both, emails are only logged (see services/mail.ts)
+	FRONTEND_URL?: string;              // OPTIONAL: Frontend URL for links in emails (e.g. "https://app.example.com")
 }
 
 /**
- * Usage data structure stored in KV
- * Key format: `usage:{userId}`
+ * Usage data structure
+ * Source of truth: UsageCounter Durable Object (services/usageCounter.ts)
+ * Mirrored to KV: `usage:{userId}` (namespaced per tenant)
  * TTL: None (persists forever, resets monthly for free tier)
  */
 export interface UsageData {
-	usageCount: number;        // Number of requests made in current period
+	usageCount: number;        // Credits used in current period (see config/operationCatalog.ts)
 	plan: PlanTier;            // User's current plan (synced from Clerk metadata)
 	lastUpdated: string;       // ISO timestamp of last update
 	periodStart?: string;      // Billing period start (YYYY-MM-DD)
@@ -39,9 +47,48 @@ export interface UsageData {
 }
 
 /**
- * Tier configuration - defines limits and pricing for all tiers
+ * A closed usage period (archived when the period rolls over)
  */
-export type PlanTier = 'free' | 'pro' | 'developer';
+export interface UsagePeriodSnapshot {
+	periodStart: string;       // YYYY-MM-DD
+	periodEnd: string;         // YYYY-MM-DD (inclusive)
+	usageCount: number;        // Total credits in the period
+	plan: PlanTier;            // Plan at the end of the period
+}
+
+/**
+ * Usage history (UsageCounter Durable Object, storage key "history")
+ *
+ * Retention: USAGE_HISTORY_DAYS daily buckets, USAGE_HISTORY_PERIODS periods
+ * (see services/usageCounter.ts)
+ */
+export interface UsageHistory {
+	days: Record<string, number>;      // YYYY-MM-DD (UTC) → credits used that day
+	periods: UsagePeriodSnapshot[];    // Closed periods, oldest first
+}
+
+/**
+ * Subscription billing status (Stripe subscription.status, stored in Clerk
+ * publicMetadata.billingStatus by the webhook)
+ */
+export type BillingStatus =
+	| 'active'
+	| 'trialing'
+	| 'past_due'
+	| 'unpaid'
+	| 'canceled'
+	| 'incomplete'
+	| 'incomplete_expired'
+	| 'paused';
+
+/**
+ * Plan / tier ID (e.g. "free", "pro", "starter")
+ *
+ * Tiers are defined in config.ts (injected by the GitHub Action), so this is
+ * a plain string. Validate it against the tier registry (config/tierRegistry.ts)
+ * before trusting it.
+ */
+export type PlanTier = string;
 
 /**
  * Tier configuration object
@@ -50,4 +97,55 @@ export interface TierConfig {
 	name: string;
 	price: number;
 	limit: number;
+	entitlements: TierEntitlements;
+}
+
+/**
+ * Machine-readable entitlements (configured per tier in config.ts as "entitlements")
+ *
+ * Booleans switch a feature on (export_csv: true), numbers cap it
+ * (max_file_mb: 50, Infinity for "unlimited") - see services/entitlements.ts.
+ * A key a tier doesn't list is off (false / 0) for that tier.
+ */
+export type TierEntitlements = Record<string, boolean | number>;
+
+/**
+ * Usage period length (configured per tier in config.ts as "usagePeriod")
+ *
+ * Paid subscribers' periods are anchored to their Stripe billing cycle,
+ * free users get calendar periods - see getCurrentPeriod in services/kv.ts.
+ */
+export type UsagePeriodType = 'week' | 'month' | 'quarter' | 'year';
+
+/**
+ * Subscription billing interval (each tier has a monthly price and may have
+ * a yearly one - see yearlyPrice in config.ts)
+ *
+ * Usage limits are monthly either way: annual subscribers' usage still resets
+ * every month from their billing anchor (tier usagePeriod, see services/kv.ts).
+ */
+export type BillingInterval = 'month' | 'year';
+
+/**
+ * Per-tier rate limits (configured per tier in config.ts as "rateLimit")
+ *
+ * - perMinute: max requests per 60-second window
+ * - burst: max requests per RATE_LIMIT_BURST_WINDOW_SECONDS window (config/tiers.ts)
+ */
+export interface TierRateLimit {
+	perMinute: number;
+	burst: number;
+}
+
+/**
+ * Metered overage billing (configured per tier in config.ts as "overage")
+ *
+ * Requests past the tier limit are allowed instead of returning 403 and are
+ * billed per request through a Stripe Billing Meter (see services/metering.ts).
+ * - stripePriceId: metered price on the meter (added as a second checkout line item)
+ * - meterEventName: the meter's event_name in Stripe
+ */
+export interface TierOverage {
+	stripePriceId: string;
+	meterEventName: string;
 }
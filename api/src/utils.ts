@@ -33,10 +33,13 @@ export function validateEnv(env: Env): { valid: boolean; missing: string[] } {
 
 	const missing = required.filter((key) => !env[key as keyof Env]);
 
-	// Check KV binding (set in wrangler.toml, not via secrets)
+	// Check KV + Durable Object bindings (set in wrangler.toml, not via secrets)
 	if (!env.USAGE_KV) {
 		missing.push('USAGE_KV');
 	}
+	if (!env.USAGE_COUNTER) {
+		missing.push('USAGE_COUNTER');
+	}
 
 	return { valid: missing.length === 0, missing };
 }
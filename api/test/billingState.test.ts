@@ -0,0 +1,177 @@
+import Stripe from 'stripe';
+import { describe, expect, it } from 'vitest';
+import {
+	BillingStateClerk,
+	checkoutCompletedPatch,
+	getBillingState,
+	paymentFailedPatch,
+	paymentRecoveredPatch,
+	subscriptionDeletedPatch,
+	subscriptionPatch,
+	updateBillingState,
+} from '../src/services/billingState';
+
+/**
+ * Clerk stand-in: update*Metadata merges like Clerk does (null removes a key)
+ */
+function fakeClerk() {
+	const metadata: Record<string, Record<string, unknown>> = {};
+	const merge = (ownerId: string, patch: Record<string, unknown>) => {
+		const next = { ...metadata[ownerId] };
+		for (const [key, value] of Object.entries(patch)) {
+			if (value === null) delete next[key];
+			else next[key] = value;
+		}
+		metadata[ownerId] = next;
+	};
+
+	const clerk = {
+		metadata,
+		users: {
+			async getUser(userId: string) {
+				return { publicMetadata: metadata[userId] || {} };
+			},
+			async updateUserMetadata(userId: string, params: { publicMetadata: Record<string, unknown> }) {
+				merge(userId, params.publicMetadata);
+				return {};
+			},
+		},
+		organizations: {
+			async getOrganization({ organizationId }: { organizationId: string }) {
+				return { publicMetadata: metadata[organizationId] || null };
+			},
+			async updateOrganizationMetadata(organizationId: string, params: { publicMetadata: Record<string, unknown> }) {
+				merge(organizationId, params.publicMetadata);
+				return {};
+			},
+		},
+	};
+	return clerk satisfies BillingStateClerk;
+}
+
+function subscription(fields: Partial<Stripe.Subscription> & { id: string }): Stripe.Subscription {
+	return {
+		customer: 'cus_123',
+		status: 'active',
+		cancel_at_period_end: false,
+		trial_end: null,
+		metadata: {},
+		items: {
+			data: [{ current_period_start: 1751328000, current_period_end: 1754006400, quantity: 1, price: { recurring: { interval: 'month' } } }],
+		},
+		...fields,
+	} as unknown as Stripe.Subscription;
+}
+
+const checkoutSession = { customer: 'cus_123' } as Stripe.Checkout.Session;
+
+describe('billing state event sequences', () => {
+	it('keeps the Stripe customer after checkout → subscription → cancellation', async () => {
+		const clerk = fakeClerk();
+		await clerk.users.updateUserMetadata('user_1', { publicMetadata: { tenantId: '_default' } });
+
+		await updateBillingState(clerk, 'user_1', (current) => checkoutCompletedPatch(checkoutSession, 'pro', current));
+		await updateBillingState(clerk, 'user_1', (current) => subscriptionPatch(subscription({ id: 'sub_1' }), 'pro', current));
+		expect(await getBillingState(clerk, 'user_1')).toMatchObject({
+			plan: 'pro',
+			stripeCustomerId: 'cus_123',
+			subscriptionId: 'sub_1',
+			billingStatus: 'active',
+			billingInterval: 'month',
+		});
+
+		await updateBillingState(clerk, 'user_1', (current) => subscriptionDeletedPatch(subscription({ id: 'sub_1' }), 'free', current));
+		expect(clerk.metadata.user_1).toEqual({
+			tenantId: '_default',
+			plan: 'free',
+			stripeCustomerId: 'cus_123',
+			billingStatus: 'canceled',
+		});
+	});
+
+	it('keeps the first Stripe customer when an event names another one', async () => {
+		const clerk = fakeClerk();
+		await clerk.users.updateUserMetadata('user_1', { publicMetadata: { stripeCustomerId: 'cus_first' } });
+
+		const newCustomer = { customer: 'cus_second' } as Stripe.Checkout.Session;
+		await updateBillingState(clerk, 'user_1', (current) => checkoutCompletedPatch(newCustomer, 'pro', current));
+		await updateBillingState(clerk, 'user_1', (current) =>
+			subscriptionPatch(subscription({ id: 'sub_1', customer: 'cus_second' }), 'pro', current)
+		);
+
+		expect(clerk.metadata.user_1).toMatchObject({ plan: 'pro', subscriptionId: 'sub_1', stripeCustomerId: 'cus_first' });
+	});
+
+	it('ignores the deletion of a subscription the user already replaced', async () => {
+		const clerk = fakeClerk();
+
+		await updateBillingState(clerk, 'user_1', (current) => subscriptionPatch(subscription({ id: 'sub_old' }), 'pro', current));
+		await updateBillingState(clerk, 'user_1', (current) => subscriptionPatch(subscription({ id: 'sub_new' }), 'developer', current));
+
+		const written = await updateBillingState(clerk, 'user_1', (current) =>
+			subscriptionDeletedPatch(subscription({ id: 'sub_old' }), 'free', current)
+		);
+		expect(written).toBeNull();
+		expect(clerk.metadata.user_1).toMatchObject({ plan: 'developer', subscriptionId: 'sub_new' });
+	});
+
+	it('starts the grace period on the first failed payment and ends it on payment', async () => {
+		const clerk = fakeClerk();
+		await updateBillingState(clerk, 'user_1', (current) => subscriptionPatch(subscription({ id: 'sub_1' }), 'pro', current));
+
+		await updateBillingState(clerk, 'user_1', paymentFailedPatch);
+		const { pastDueSince } = await getBillingState(clerk, 'user_1');
+		expect(pastDueSince).toBeDefined();
+
+		// Retries and Stripe's own past_due update keep the first failure's date
+		await updateBillingState(clerk, 'user_1', paymentFailedPatch);
+		await updateBillingState(clerk, 'user_1', (current) =>
+			subscriptionPatch(subscription({ id: 'sub_1', status: 'past_due' }), 'pro', current)
+		);
+		expect(await getBillingState(clerk, 'user_1')).toMatchObject({ billingStatus: 'past_due', pastDueSince });
+
+		await updateBillingState(clerk, 'user_1', paymentRecoveredPatch);
+		const recovered = await getBillingState(clerk, 'user_1');
+		expect(recovered.billingStatus).toBe('active');
+		expect(recovered).not.toHaveProperty('pastDueSince');
+	});
+
+	it('writes nothing when a payment succeeds for a user in good standing', async () => {
+		const clerk = fakeClerk();
+		await updateBillingState(clerk, 'user_1', (current) => subscriptionPatch(subscription({ id: 'sub_1' }), 'pro', current));
+		const before = { ...clerk.metadata.user_1 };
+
+		expect(await updateBillingState(clerk, 'user_1', paymentRecoveredPatch)).toBeNull();
+		expect(clerk.metadata.user_1).toEqual(before);
+	});
+
+	it('stores team subscriptions on the organization, with seats', async () => {
+		const clerk = fakeClerk();
+		const teamSubscription = subscription({
+			id: 'sub_team',
+			metadata: { orgId: 'org_1' },
+			items: {
+				data: [{ current_period_start: 1751328000, current_period_end: 1782864000, quantity: 5, price: { recurring: { interval: 'year' } } }],
+			} as Stripe.Subscription['items'],
+		});
+
+		await updateBillingState(clerk, 'org_1', (current) => subscriptionPatch(teamSubscription, 'pro', current));
+
+		expect(clerk.metadata.org_1).toMatchObject({ plan: 'pro', seats: 5, billingInterval: 'year' });
+		expect(clerk.metadata).not.toHaveProperty('user_1');
+	});
+
+	it('marks a free trial with its end date', async () => {
+		const clerk = fakeClerk();
+		const trial = subscription({ id: 'sub_1', status: 'trialing', trial_end: 1752537600 });
+
+		await updateBillingState(clerk, 'user_1', (current) => subscriptionPatch(trial, 'pro', current));
+		expect(clerk.metadata.user_1).toMatchObject({
+			billingStatus: 'trialing',
+			trialEndsAt: new Date(1752537600 * 1000).toISOString(),
+		});
+
+		await updateBillingState(clerk, 'user_1', (current) => subscriptionPatch(subscription({ id: 'sub_1' }), 'pro', current));
+		expect(clerk.metadata.user_1).not.toHaveProperty('trialEndsAt');
+	});
+});
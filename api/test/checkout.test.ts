@@ -0,0 +1,81 @@
+import type { ClerkClient } from '@clerk/backend';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Config } from '../src/config/configLoader';
+import { getTierRegistry } from '../src/config/tierRegistry';
+import { handleCreateCheckout } from '../src/routes/checkout';
+import { resolveBillingAccount } from '../src/services/organizations';
+import { Tenant } from '../src/services/tenant';
+import { Env } from '../src/types';
+
+const env = { STRIPE_SECRET_KEY: 'sk_test' } as Env;
+
+const config: Config = {
+	tiers: [
+		{ id: 'free', name: 'Free', price: 0, limit: 5, features: [], popular: false, stripePriceId: null },
+		{ id: 'pro', name: 'Pro', price: 29, limit: 500, features: [], popular: true, stripePriceId: 'price_pro', trialDays: 14 },
+	],
+};
+
+const tenant = { id: null, config, registry: getTierRegistry(env, config) } as Tenant;
+
+function fakeClerk(publicMetadata: Record<string, unknown>) {
+	return {
+		users: {
+			async getUser() {
+				return { publicMetadata, emailAddresses: [{ emailAddress: 'buyer@example.com' }] };
+			},
+		},
+	} as unknown as ClerkClient;
+}
+
+/**
+ * Stripe stub that records the params of the checkout session it creates
+ */
+function fakeStripe() {
+	const sessions: URLSearchParams[] = [];
+	vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+		sessions.push(new URLSearchParams(init.body as string));
+		return Response.json({ url: 'https://checkout.stripe.com/c/session' });
+	});
+	return sessions;
+}
+
+async function createCheckout(publicMetadata: Record<string, unknown>): Promise<Response> {
+	const request = new Request('https://api.example.com/api/create-checkout', {
+		method: 'POST',
+		body: JSON.stringify({ tier: 'pro' }),
+	});
+	return handleCreateCheckout(
+		resolveBillingAccount('user_1', {}, null, null),
+		fakeClerk(publicMetadata),
+		env,
+		{},
+		'https://app.example.com',
+		request,
+		tenant
+	);
+}
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('handleCreateCheckout', () => {
+	it('creates a new customer by email with the free trial', async () => {
+		const sessions = fakeStripe();
+
+		expect((await createCheckout({})).status).toBe(200);
+		expect(sessions[0].get('customer_email')).toBe('buyer@example.com');
+		expect(sessions[0].has('customer')).toBe(false);
+		expect(sessions[0].get('subscription_data[trial_period_days]')).toBe('14');
+	});
+
+	it('checks a returning customer out as their existing Stripe customer', async () => {
+		const sessions = fakeStripe();
+
+		expect((await createCheckout({ plan: 'free', stripeCustomerId: 'cus_returning' })).status).toBe(200);
+		expect(sessions[0].get('customer')).toBe('cus_returning');
+		expect(sessions[0].has('customer_email')).toBe(false);
+		expect(sessions[0].has('subscription_data[trial_period_days]')).toBe(false);
+	});
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Config, resolveEntitlements } from '../src/config/configLoader';
+import { getTierRegistry } from '../src/config/tierRegistry';
+import { requireEntitlement } from '../src/services/entitlements';
+import { Env } from '../src/types';
+
+const config: Config = {
+	tiers: [
+		{
+			id: 'free', name: 'Free', price: 0, limit: 5, features: [], popular: false, stripePriceId: null,
+			entitlements: { export_csv: false, max_file_mb: 5 },
+		},
+		{
+			id: 'pro', name: 'Pro', price: 29, limit: 500, features: [], popular: true, stripePriceId: 'price_pro',
+			entitlements: { export_csv: true, max_file_mb: 50 },
+		},
+		{
+			id: 'business', name: 'Business', price: 99, limit: 5000, features: [], popular: false, stripePriceId: 'price_business',
+			entitlements: { export_csv: true, max_file_mb: 'unlimited' },
+		},
+	],
+};
+
+const registry = getTierRegistry({} as Env, config);
+const tier = (id: string) => registry.tiers.find((t) => t.id === id)!;
+
+describe('resolveEntitlements', () => {
+	it('keeps booleans and numeric caps, and turns "unlimited" into Infinity', () => {
+		expect(resolveEntitlements({ export_csv: true, max_file_mb: 50, seats: 'unlimited' })).toEqual({
+			export_csv: true,
+			max_file_mb: 50,
+			seats: Infinity,
+		});
+		expect(resolveEntitlements(undefined)).toEqual({});
+	});
+});
+
+describe('requireEntitlement', () => {
+	it('allows what the tier grants', () => {
+		expect(requireEntitlement(registry, tier('pro'), 'export_csv')).toBeNull();
+		expect(requireEntitlement(registry, tier('pro'), 'max_file_mb', 50)).toBeNull();
+		expect(requireEntitlement(registry, tier('business'), 'max_file_mb', 10_000)).toBeNull();
+	});
+
+	it('denies a missing feature with the cheapest tier that has it', () => {
+		const denied = requireEntitlement(registry, tier('free'), 'export_csv');
+
+		expect(denied?.status).toBe(403);
+		expect(denied?.error).toBe('Upgrade required');
+		expect(denied?.message).toBe('export_csv is not included in the Free plan. Upgrade to Pro to unlock it.');
+		expect(denied?.details).toEqual({
+			entitlement: 'export_csv',
+			plan: 'free',
+			current: false,
+			upgradeTo: { id: 'pro', name: 'Pro', price: 29 },
+		});
+	});
+
+	it('points a cap above every limited tier at the unlimited one', () => {
+		const denied = requireEntitlement(registry, tier('pro'), 'max_file_mb', 100);
+
+		expect(denied?.message).toBe('max_file_mb is limited to 50 on the Pro plan (requested 100). Upgrade to Business to unlock it.');
+		expect(denied?.details).toMatchObject({
+			current: 50,
+			requested: 100,
+			upgradeTo: { id: 'business', name: 'Business', price: 99 },
+		});
+	});
+
+	it('has no upgrade hint when no tier grants the entitlement', () => {
+		const denied = requireEntitlement(registry, tier('free'), 'sso');
+
+		expect(denied?.message).toBe('sso is not included in the Free plan.');
+		expect(denied?.details?.upgradeTo).toBeNull();
+	});
+});
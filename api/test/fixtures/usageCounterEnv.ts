@@ -0,0 +1,28 @@
+import { build } from 'esbuild';
+import { Miniflare } from 'miniflare';
+import { Env } from '../../src/types';
+
+/**
+ * Miniflare running the real UsageCounter Durable Object (+ a USAGE_KV)
+ *
+ * The returned env's bindings can be passed to the usageCounter.ts helpers
+ * from Node - dispose() the Miniflare instance after the tests.
+ */
+export async function startUsageCounter(): Promise<{ mf: Miniflare; env: Env }> {
+	const bundle = await build({
+		entryPoints: [new URL('./usageCounterWorker.ts', import.meta.url).pathname],
+		bundle: true,
+		format: 'esm',
+		platform: 'neutral',
+		write: false,
+	});
+
+	const mf = new Miniflare({
+		modules: true,
+		script: bundle.outputFiles[0].text,
+		compatibilityDate: '2024-01-01',
+		kvNamespaces: ['USAGE_KV'],
+		durableObjects: { USAGE_COUNTER: 'UsageCounter' },
+	});
+	return { mf, env: await mf.getBindings<Env>() };
+}
@@ -0,0 +1,8 @@
+// Minimal Worker exporting the UsageCounter Durable Object (see usageCounter.test.ts)
+export { UsageCounter } from '../../src/services/usageCounter';
+
+export default {
+	async fetch(): Promise<Response> {
+		return new Response('Not found', { status: 404 });
+	},
+};
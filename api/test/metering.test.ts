@@ -0,0 +1,116 @@
+import { Miniflare } from 'miniflare';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { reportMeteredUsage } from '../src/services/metering';
+import { METER_INDEX_PREFIX, consumeUsage, setBillingAnchor } from '../src/services/usageCounter';
+import { Tenant } from '../src/services/tenant';
+import { Env } from '../src/types';
+import { startUsageCounter } from './fixtures/usageCounterEnv';
+
+const tenant = { id: null } as Tenant;
+
+let mf: Miniflare;
+let env: Env;
+let stripe: ReturnType<typeof fakeStripe>;
+
+/**
+ * Stand-in for https://api.stripe.com/v1/billing/meter_events
+ */
+function fakeStripe() {
+	const events: { idempotencyKey: string | null; params: Record<string, string> }[] = [];
+	let failNext = false;
+
+	const fetch = vi.fn(async (url: string, init: RequestInit) => {
+		expect(url).toBe('https://api.stripe.com/v1/billing/meter_events');
+		if (failNext) {
+			failNext = false;
+			return Response.json({ error: { message: 'Stripe is down' } }, { status: 500 });
+		}
+		events.push({
+			idempotencyKey: new Headers(init.headers).get('Idempotency-Key'),
+			params: Object.fromEntries(new URLSearchParams(init.body as string)),
+		});
+		return Response.json({ object: 'billing.meter_event' });
+	});
+
+	return { fetch, events, failOnce: () => { failNext = true; } };
+}
+
+/**
+ * Count credits on a metered tier (limit 10) and wait for the KV index entry
+ */
+async function useCredits(userId: string, amount: number): Promise<void> {
+	const result = await consumeUsage(env, tenant, userId, 'pro', 10, 'month', 'api_requests', amount);
+	expect(result.allowed).toBe(true);
+
+	// The index entry is written in the counter's waitUntil
+	for (let i = 0; i < 50 && !(await env.USAGE_KV.get(`${METER_INDEX_PREFIX}user:${userId}`)); i++) {
+		await new Promise((resolve) => setTimeout(resolve, 20));
+	}
+}
+
+beforeEach(async () => {
+	({ mf, env } = await startUsageCounter());
+	stripe = fakeStripe();
+	vi.stubGlobal('fetch', stripe.fetch);
+});
+
+afterEach(async () => {
+	vi.unstubAllGlobals();
+	await mf.dispose();
+});
+
+describe('reportMeteredUsage', () => {
+	it('reports the overage as one meter event and acknowledges it', async () => {
+		await setBillingAnchor(env, tenant, 'user_1', null, 'cus_1');
+		await useCredits('user_1', 6);
+		await useCredits('user_1', 6);
+
+		expect(await reportMeteredUsage(env)).toEqual({ reported: 1, failed: 0 });
+		expect(stripe.events).toHaveLength(1);
+		const [event] = stripe.events;
+		expect(event.params).toMatchObject({
+			event_name: 'api_requests',
+			'payload[stripe_customer_id]': 'cus_1',
+			'payload[value]': '2',
+		});
+		expect(event.idempotencyKey).toBe(`meter-${event.params.identifier}`);
+
+		// Acknowledged: nothing left to report
+		expect(await reportMeteredUsage(env)).toEqual({ reported: 0, failed: 0 });
+		expect(stripe.events).toHaveLength(1);
+	});
+
+	it('re-sends the same batch after a failed report', async () => {
+		await setBillingAnchor(env, tenant, 'user_1', null, 'cus_1');
+		await useCredits('user_1', 13);
+
+		stripe.failOnce();
+		expect(await reportMeteredUsage(env)).toEqual({ reported: 0, failed: 1 });
+
+		// Overage counted meanwhile waits for the next batch
+		await useCredits('user_1', 1);
+		expect(await reportMeteredUsage(env)).toEqual({ reported: 1, failed: 0 });
+		expect(await reportMeteredUsage(env)).toEqual({ reported: 1, failed: 0 });
+
+		const [first, second] = stripe.events;
+		expect(stripe.fetch).toHaveBeenCalledTimes(3);
+		expect(first.params['payload[value]']).toBe('3');
+		expect(second.params['payload[value]']).toBe('1');
+		expect(second.params.identifier).not.toBe(first.params.identifier);
+
+		// The failed attempt and its retry used the same identifier
+		const attempts = stripe.fetch.mock.calls.map(([, init]) => new Headers(init.headers).get('Idempotency-Key'));
+		expect(attempts[0]).toBe(attempts[1]);
+	});
+
+	it('keeps the batch of an owner without a Stripe customer', async () => {
+		await useCredits('user_1', 12);
+
+		expect(await reportMeteredUsage(env)).toEqual({ reported: 0, failed: 1 });
+		expect(stripe.fetch).not.toHaveBeenCalled();
+
+		await setBillingAnchor(env, tenant, 'user_1', null, 'cus_1');
+		expect(await reportMeteredUsage(env)).toEqual({ reported: 1, failed: 0 });
+		expect(stripe.events[0].params).toMatchObject({ 'payload[stripe_customer_id]': 'cus_1', 'payload[value]': '2' });
+	});
+});
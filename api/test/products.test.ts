@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { getOperationCatalog } from '../src/config/operationCatalog';
+import { getTierRegistry } from '../src/config/tierRegistry';
+import { dataHandler } from '../src/products/data';
+import { findProductHandler } from '../src/products';
+import { ProductContext, defineProductHandler, isProductError, validateProductInput } from '../src/products/registry';
+import { handleProductRequest } from '../src/routes/usage';
+import { getUsage } from '../src/services/usageCounter';
+import { Tenant } from '../src/services/tenant';
+import { startUsageCounter } from './fixtures/usageCounterEnv';
+
+const config = {
+	tiers: [],
+	operations: [
+		{ id: 'lookup', name: 'Lookup', credits: 1 },
+		{ id: 'summarize', name: 'Summarize', credits: 5, maxSize: 4 },
+	],
+};
+const ctx = { tenant: { config, operations: getOperationCatalog(config) } as unknown as Tenant } as ProductContext;
+
+describe('product handlers', () => {
+	it('finds handlers by route', () => {
+		expect(findProductHandler('/api/data')).toBe(dataHandler);
+		expect(findProductHandler('/api/unknown')).toBeUndefined();
+	});
+
+	it('rejects bodies that fail the schema before credits are computed', () => {
+		const prepared = dataHandler.prepare({ size: 'big', extra: true });
+
+		expect(isProductError(prepared)).toBe(true);
+		expect(isProductError(prepared) && prepared.details?.errors).toEqual(['size must be an integer']);
+	});
+
+	it('drops unknown fields unless the handler is strict', () => {
+		const schema = { size: { type: 'integer' } } as const;
+
+		expect(validateProductInput(schema, { size: 2, extra: true })).toEqual({ size: 2 });
+
+		const strict = validateProductInput(schema, { size: 2, extra: true }, true);
+		expect(isProductError(strict) && strict.details?.errors).toEqual(['Unknown field "extra"']);
+	});
+
+	it('prices and runs validated input', async () => {
+		const prepared = dataHandler.prepare({ operation: 'summarize', size: 3 });
+		if (isProductError(prepared)) throw new Error(prepared.message);
+
+		expect(prepared.credits(ctx)).toBe(15);
+		expect(await prepared.handle(ctx)).toEqual({ message: 'Request processed successfully' });
+	});
+
+	it('fails credits for operations the catalog does not know', () => {
+		const prepared = dataHandler.prepare({ operation: 'translate' });
+		if (isProductError(prepared)) throw new Error(prepared.message);
+
+		const cost = prepared.credits(ctx);
+		expect(isProductError(cost) && cost.status).toBe(400);
+		expect(isProductError(cost) && cost.details).toEqual({ operation: 'translate' });
+	});
+});
+
+describe('data handler pricing', () => {
+	function credits(body: Record<string, unknown>) {
+		const prepared = dataHandler.prepare(body);
+		if (isProductError(prepared)) throw new Error(prepared.message);
+		return prepared.credits(ctx);
+	}
+
+	it('prices the default operation (the first one) at size 1', () => {
+		expect(credits({})).toBe(1);
+		expect(credits({ size: 7 })).toBe(7);
+	});
+
+	it('rejects a size above the operation maxSize', () => {
+		expect(credits({ operation: 'summarize', size: 4 })).toBe(20);
+
+		const cost = credits({ operation: 'summarize', size: 5 });
+		expect(isProductError(cost) && [cost.status, cost.error]).toEqual([400, 'Invalid size']);
+	});
+});
+
+describe('handleProductRequest', () => {
+	it('refunds the reserved credits when the handler fails', async () => {
+		const { mf, env } = await startUsageCounter();
+		try {
+			const tenantConfig = {
+				tiers: [{ id: 'free', name: 'Free', price: 0, limit: 10, features: [], popular: false, stripePriceId: null }],
+			};
+			const tenant = { id: null, config: tenantConfig, registry: getTierRegistry(env, tenantConfig) } as unknown as Tenant;
+			const failing = defineProductHandler({
+				id: 'failing',
+				route: '/api/failing',
+				input: {},
+				credits: 3,
+				async handle() {
+					throw new Error('upstream down');
+				},
+			});
+
+			const response = await handleProductRequest(
+				failing,
+				'user_1',
+				'free',
+				env,
+				{},
+				tenant,
+				new Request('https://api.example.com/api/failing', { method: 'POST' }),
+				{ waitUntil() {} } as unknown as ExecutionContext
+			);
+
+			expect(response.status).toBe(500);
+			expect(await response.json()).toMatchObject({ success: false, details: { refunded: 3 } });
+			expect((await getUsage(env, tenant, 'user_1', 'free', 10, 'month')).usageCount).toBe(0);
+		} finally {
+			await mf.dispose();
+		}
+	});
+});
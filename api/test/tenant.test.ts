@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Tenant, TenantBindingClerk, verifyTenantBinding } from '../src/services/tenant';
+
+function fakeClerk(publicMetadata: Record<string, unknown> = {}) {
+	const clerk = {
+		metadata: publicMetadata,
+		users: {
+			async getUser() {
+				return { publicMetadata: clerk.metadata };
+			},
+			async updateUserMetadata(_userId: string, params: { publicMetadata: Record<string, unknown> }) {
+				clerk.metadata = { ...clerk.metadata, ...params.publicMetadata };
+				return {};
+			},
+		},
+	};
+	return clerk satisfies TenantBindingClerk;
+}
+
+function tenant(id: string | null): Tenant {
+	return { id } as Tenant;
+}
+
+describe('verifyTenantBinding', () => {
+	it('binds an unbound user to the tenant of their first request', async () => {
+		const clerk = fakeClerk({ plan: 'pro' });
+
+		expect(await verifyTenantBinding(tenant('user_store_a'), 'user_1', {}, clerk)).toBeNull();
+		expect(clerk.metadata).toEqual({ plan: 'pro', tenantId: 'user_store_a' });
+	});
+
+	it('rejects a header naming another tenant', async () => {
+		const clerk = fakeClerk({ tenantId: 'user_store_a' });
+
+		const error = await verifyTenantBinding(tenant('user_store_b'), 'user_1', {}, clerk);
+		expect(error?.status).toBe(403);
+		expect(clerk.metadata.tenantId).toBe('user_store_a');
+	});
+
+	it('trusts the tenantId claim without calling Clerk', async () => {
+		const clerk = fakeClerk();
+		clerk.users.getUser = () => Promise.reject(new Error('unexpected Clerk call'));
+
+		expect(await verifyTenantBinding(tenant('user_store_a'), 'user_1', { tenantId: 'user_store_a' }, clerk)).toBeNull();
+		expect((await verifyTenantBinding(tenant(null), 'user_1', { tenantId: 'user_store_a' }, clerk))?.status).toBe(403);
+	});
+
+	it('keeps default-tenant users out of KV tenants', async () => {
+		const clerk = fakeClerk();
+
+		expect(await verifyTenantBinding(tenant(null), 'user_1', undefined, clerk)).toBeNull();
+		expect((await verifyTenantBinding(tenant('user_store_a'), 'user_1', undefined, clerk))?.status).toBe(403);
+	});
+});
@@ -0,0 +1,72 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { loadConfig, priceIdEnvKey, Config } from '../src/config/configLoader';
+import { getTierRegistry, validateTierRegistry } from '../src/config/tierRegistry';
+import { Env } from '../src/types';
+
+/**
+ * Env as a developer gets it by copying .dev.vars.example to .dev.vars
+ */
+function exampleEnv(overrides: Record<string, string> = {}): Env {
+	const vars: Record<string, string> = {};
+	const example = readFileSync(new URL('../.dev.vars.example', import.meta.url), 'utf8');
+	for (const line of example.split('\n')) {
+		const match = line.match(/^([A-Z0-9_]+)=(.*)$/);
+		if (match) vars[match[1]] = match[2];
+	}
+	return { ...vars, ...overrides } as unknown as Env;
+}
+
+function paidTier(id: string, stripePriceId: string | null = null): Config['tiers'][number] {
+	return { id, name: id, price: 10, limit: 100, features: [], popular: false, stripePriceId };
+}
+
+describe('validateTierRegistry', () => {
+	it('accepts the placeholder config.ts with the example env', async () => {
+		const env = exampleEnv();
+		const config = await loadConfig();
+
+		expect(validateTierRegistry(env, config)).toEqual({ valid: true, errors: [], warnings: [] });
+
+		const registry = getTierRegistry(env, config);
+		expect(registry.tiers.find((t) => t.id === 'pro')?.stripePriceId).toBe(env.STRIPE_PRICE_ID_PRO);
+	});
+
+	it('rejects a price ID that disagrees with STRIPE_PRICE_ID_<TIER>', () => {
+		const env = exampleEnv({ STRIPE_PRICE_ID_PRO: 'price_from_env' });
+		const config: Config = { tiers: [paidTier('pro', 'price_from_config')] };
+
+		const check = validateTierRegistry(env, config);
+		expect(check.valid).toBe(false);
+		expect(check.errors.some((e) => e.includes('STRIPE_PRICE_ID_PRO'))).toBe(true);
+	});
+
+	it('warns about STRIPE_PRICE_ID_<TIER> for a tier that is not in config.ts', () => {
+		const config: Config = { tiers: [paidTier('pro')] };
+
+		const check = validateTierRegistry(exampleEnv({ STRIPE_PRICE_ID_ENTERPRISE: 'price_old' }), config);
+		expect(check.valid).toBe(true);
+		expect(check.warnings).toEqual([
+			'STRIPE_PRICE_ID_DEVELOPER is set but tier "developer" is not in config.ts (ignored)',
+			'STRIPE_PRICE_ID_ENTERPRISE is set but tier "enterprise" is not in config.ts (ignored)',
+		]);
+	});
+
+	it('reads the env fallback of dashed tier IDs from underscored names', () => {
+		expect(priceIdEnvKey('pro-plus')).toBe('STRIPE_PRICE_ID_PRO_PLUS');
+		expect(priceIdEnvKey('pro-plus', 'year')).toBe('STRIPE_PRICE_ID_PRO_PLUS_YEARLY');
+
+		const env = { STRIPE_PRICE_ID_PRO_PLUS: 'price_pro_plus' } as unknown as Env;
+		const config: Config = { tiers: [paidTier('pro-plus')] };
+
+		expect(validateTierRegistry(env, config)).toEqual({ valid: true, errors: [], warnings: [] });
+		expect(getTierRegistry(env, config).tiers[0].stripePriceId).toBe('price_pro_plus');
+	});
+
+	it('ignores the env fallback for tenant configs', () => {
+		const config: Config = { tiers: [paidTier('pro')] };
+
+		const check = validateTierRegistry(exampleEnv(), config, 'tenant');
+		expect(check.valid).toBe(false);
+	});
+});
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RegisteredTier } from '../src/config/tierRegistry';
+import { createConsoleMailProvider } from '../src/services/mail';
+import { Tenant } from '../src/services/tenant';
+import { sendUsageAlerts } from '../src/services/usageAlerts';
+import { Env, UsageData } from '../src/types';
+
+vi.mock('@clerk/backend', () => ({
+	createClerkClient: () => ({
+		users: {
+			getUser: async () => ({ primaryEmailAddress: { emailAddress: 'owner@example.com' } }),
+		},
+	}),
+}));
+
+const pro = { id: 'pro', name: 'Pro', limit: 10, usageAlerts: [80, 100] } as RegisteredTier;
+const tenant = { id: null, config: { tiers: [], branding: { appName: 'Acme' } } } as unknown as Tenant;
+
+function usage(usageCount: number): UsageData {
+	return { usageCount, plan: 'pro', lastUpdated: '', periodStart: '2026-10-01', periodEnd: '2026-10-31' };
+}
+
+let kv: Map<string, string>;
+let env: Env;
+
+beforeEach(() => {
+	kv = new Map();
+	env = {
+		FRONTEND_URL: 'https://app.example.com/',
+		USAGE_KV: {
+			get: async (key: string) => kv.get(key) ?? null,
+			put: async (key: string, value: string) => {
+				kv.set(key, value);
+			},
+		},
+	} as unknown as Env;
+});
+
+describe('sendUsageAlerts', () => {
+	it('emails the owner once when a request crosses a threshold', async () => {
+		const mail = createConsoleMailProvider();
+
+		await sendUsageAlerts(env, tenant, 'user_1', pro, usage(7), 1, mail);
+		expect(mail.sent).toHaveLength(0);
+
+		await sendUsageAlerts(env, tenant, 'user_1', pro, usage(8), 1, mail);
+		expect(mail.sent).toHaveLength(1);
+		expect(mail.sent[0].to).toEqual(['owner@example.com']);
+		expect(mail.sent[0].subject).toBe("Acme: you've used 80% of your Pro plan");
+		expect(mail.sent[0].text).toContain('Your usage resets on 2026-11-01 (UTC).');
+		expect(mail.sent[0].text).toContain('Upgrade your plan: https://app.example.com/choose-plan');
+
+		// A refund + retry crosses 80% again - no second email this period
+		await sendUsageAlerts(env, tenant, 'user_1', pro, usage(8), 1, mail);
+		expect(mail.sent).toHaveLength(1);
+	});
+
+	it('sends every threshold a large request crossed', async () => {
+		const mail = createConsoleMailProvider();
+
+		await sendUsageAlerts(env, tenant, 'user_1', pro, usage(10), 5, mail);
+		expect(mail.sent.map((m) => m.subject)).toEqual([
+			"Acme: you've used 80% of your Pro plan",
+			"Acme: you've reached your Pro plan limit",
+		]);
+	});
+
+	it('retries an alert whose email failed', async () => {
+		const failing = { name: 'failing', send: vi.fn().mockRejectedValue(new Error('mail down')) };
+
+		await sendUsageAlerts(env, tenant, 'user_1', pro, usage(8), 1, failing);
+		expect(failing.send).toHaveBeenCalledOnce();
+		expect(kv.size).toBe(0);
+
+		const mail = createConsoleMailProvider();
+		await sendUsageAlerts(env, tenant, 'user_1', pro, usage(8), 1, mail);
+		expect(mail.sent).toHaveLength(1);
+		expect([...kv.keys()]).toEqual(['usage-alert:user_1:2026-10-01:80']);
+	});
+
+	it('links KV tenants to their own storefront', async () => {
+		const mail = createConsoleMailProvider();
+		const storefront = { ...tenant, id: 'user_store', config: { ...tenant.config, allowedOrigins: ['https://shop.example.com'] } };
+
+		await sendUsageAlerts(env, storefront, 'user_1', pro, usage(8), 1, mail);
+		expect(mail.sent[0].text).toContain('Upgrade your plan: https://shop.example.com/choose-plan');
+		expect([...kv.keys()]).toEqual(['tenant:user_store:usage-alert:user_1:2026-10-01:80']);
+	});
+});
@@ -0,0 +1,79 @@
+import { Miniflare } from 'miniflare';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { IDEMPOTENT_REPLAY_HEADER, withIdempotency } from '../src/services/idempotency';
+import { claimIdempotencyKey, consumeUsage, getUsage } from '../src/services/usageCounter';
+import { Tenant } from '../src/services/tenant';
+import { Env } from '../src/types';
+import { startUsageCounter } from './fixtures/usageCounterEnv';
+
+const tenant = { id: null } as Tenant;
+
+let mf: Miniflare;
+let env: Env;
+
+beforeAll(async () => {
+	({ mf, env } = await startUsageCounter());
+});
+
+afterAll(async () => {
+	await mf?.dispose();
+});
+
+describe('UsageCounter', () => {
+	it('never lets concurrent requests exceed the limit', async () => {
+		const results = await Promise.all(
+			Array.from({ length: 50 }, () => consumeUsage(env, tenant, 'user_concurrent', 'free', 10, 'month'))
+		);
+
+		expect(results.filter((r) => r.allowed)).toHaveLength(10);
+		expect(Math.max(...results.map((r) => r.usage.usageCount))).toBe(10);
+
+		const usage = await getUsage(env, tenant, 'user_concurrent', 'free', 10, 'month');
+		expect(usage.usageCount).toBe(10);
+	});
+
+	it('never runs a request on a partial quota', async () => {
+		const results = await Promise.all(
+			Array.from({ length: 20 }, () => consumeUsage(env, tenant, 'user_credits', 'free', 10, 'month', null, 3))
+		);
+
+		expect(results.filter((r) => r.allowed)).toHaveLength(3);
+		expect((await getUsage(env, tenant, 'user_credits', 'free', 10, 'month')).usageCount).toBe(9);
+	});
+});
+
+describe('Idempotency-Key claims', () => {
+	it('lets exactly one of concurrent duplicates claim a key', async () => {
+		const claims = await Promise.all(
+			Array.from({ length: 10 }, () => claimIdempotencyKey(env, tenant, 'user_idem', 'key-1', 'abc', 60))
+		);
+
+		expect(claims.filter((c) => c.existing === null)).toHaveLength(1);
+		expect(claims.filter((c) => c.existing?.state === 'in_progress')).toHaveLength(9);
+	});
+
+	it('runs concurrent duplicate requests once (409 for the rest), then replays', async () => {
+		let runs = 0;
+		const handler = async () => {
+			runs++;
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			return Response.json({ success: true, run: runs });
+		};
+		const request = () => new Request('https://api.example.com/api/data', {
+			method: 'POST',
+			headers: { 'Idempotency-Key': 'key-2' },
+			body: '{"size":1}',
+		});
+
+		const responses = await Promise.all(
+			Array.from({ length: 5 }, () => withIdempotency(request(), env, tenant, 'user_idem', {}, handler))
+		);
+		expect(runs).toBe(1);
+		expect(responses.map((r) => r.status).sort()).toEqual([200, 409, 409, 409, 409]);
+
+		const replay = await withIdempotency(request(), env, tenant, 'user_idem', {}, handler);
+		expect(runs).toBe(1);
+		expect(replay.headers.get(IDEMPOTENT_REPLAY_HEADER)).toBe('true');
+		expect(await replay.json()).toEqual({ success: true, run: 1 });
+	});
+});
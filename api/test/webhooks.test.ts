@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { RegisteredTier } from '../src/config/tierRegistry';
+import { getUsageWebhookEvent } from '../src/services/webhooks';
+
+function tier(limit: number, usageAlerts: number[]): RegisteredTier {
+	return { id: 'pro', name: 'Pro', limit, usageAlerts } as RegisteredTier;
+}
+
+describe('getUsageWebhookEvent', () => {
+	it("fires usage.threshold_reached at the tier's usageAlerts", () => {
+		const pro = tier(100, [50, 90, 100]);
+
+		expect(getUsageWebhookEvent(pro, 50)).toEqual({ type: 'usage.threshold_reached', thresholdPercent: 50 });
+		expect(getUsageWebhookEvent(pro, 80)).toBeNull();
+		expect(getUsageWebhookEvent(pro, 92, 5)).toEqual({ type: 'usage.threshold_reached', thresholdPercent: 90 });
+	});
+
+	it('reports the highest threshold a large request crossed', () => {
+		expect(getUsageWebhookEvent(tier(100, [50, 90]), 95, 50)).toEqual({
+			type: 'usage.threshold_reached',
+			thresholdPercent: 90,
+		});
+	});
+
+	it('fires usage.limit_reached even without alerts', () => {
+		const quiet = tier(10, []);
+
+		expect(getUsageWebhookEvent(quiet, 8)).toBeNull();
+		expect(getUsageWebhookEvent(quiet, 10, 3)).toEqual({ type: 'usage.limit_reached' });
+	});
+
+	it('never fires for unlimited tiers', () => {
+		expect(getUsageWebhookEvent(tier(Infinity, []), 1000)).toBeNull();
+	});
+});
@@ -59,16 +59,20 @@
 import { Routes, Route, Navigate } from 'react-router-dom'
 import { SignedIn, SignedOut } from '@clerk/clerk-react'
 import { ConfigProvider } from './contexts/ConfigContext'
+import { EntitlementsProvider } from './contexts/EntitlementsContext'
 import Landing from './pages/Landing'
 import Dashboard from './pages/Dashboard'
 import SignInPage from './pages/SignInPage'
 import SignUpPage from './pages/SignUpPage'
 import CheckoutPage from './pages/CheckoutPage'
 import ChoosePlanPage from './pages/ChoosePlanPage'
+import BillingPage from './pages/BillingPage'
+import ApiKeysPage from './pages/ApiKeysPage'
 
 function App() {
   return (
     <ConfigProvider>
+      <EntitlementsProvider>
       <Routes>
       {/* ================================================================
           PUBLIC ROUTES - No authentication required
@@ -121,7 +125,34 @@ function App() {
           </>
         }
       />
+      <Route
+        path="/billing"
+        element={
+          <>
+            <SignedIn>
+              <BillingPage />
+            </SignedIn>
+            <SignedOut>
+              <Navigate to="/sign-in" replace />
+            </SignedOut>
+          </>
+        }
+      />
+      <Route
+        path="/settings/api-keys"
+        element={
+          <>
+            <SignedIn>
+              <ApiKeysPage />
+            </SignedIn>
+            <SignedOut>
+              <Navigate to="/sign-in" replace />
+            </SignedOut>
+          </>
+        }
+      />
       </Routes>
+      </EntitlementsProvider>
     </ConfigProvider>
   )
 }
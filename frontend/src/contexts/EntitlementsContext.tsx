@@ -0,0 +1,86 @@
+/**
+ * ENTITLEMENTS CONTEXT - The current plan's feature flags and caps
+ * Loads GET /api/entitlements once for the whole app (refetched when the
+ * plan or active organization changes) - read it with useEntitlement()
+ */
+
+import { useAuth } from '@clerk/clerk-react';
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import { useConfig } from './ConfigContext';
+import { useBillingAccount } from '../hooks/useBillingAccount';
+import type { EntitlementsContextType, EntitlementUpgrade, EntitlementValue } from './entitlements-context.types';
+
+interface EntitlementsResponse {
+  plan: string;
+  entitlements: Record<string, EntitlementValue>;
+  upgrades: Record<string, EntitlementUpgrade | null>;
+}
+
+const EntitlementsContext = createContext<EntitlementsContextType | undefined>(undefined);
+
+export function EntitlementsProvider({ children }: { children: ReactNode }) {
+  const { getToken, isSignedIn } = useAuth();
+  const billing = useBillingAccount();
+  const { config } = useConfig();
+  const [data, setData] = useState<EntitlementsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const API_URL = config?.apiUrl || import.meta.env.VITE_API_URL || 'http://localhost:8787';
+  const plan = (billing.metadata.plan as string) || 'free';
+  const organizationId = billing.organization?.id;
+
+  useEffect(() => {
+    if (!isSignedIn) return;
+    let cancelled = false;
+
+    (async () => {
+      setLoading(true);
+      try {
+        const headers: Record<string, string> = {};
+
+        // Send platform user ID for multi-tenant config lookup
+        if (config?.userId) {
+          headers['X-Platform-User-Id'] = config.userId;
+        }
+
+        const token = await getToken({ template: 'pan-api' });
+        headers['Authorization'] = `Bearer ${token}`;
+
+        const response = await fetch(`${API_URL}/api/entitlements`, { headers });
+        if (!response.ok) throw new Error(`Failed to load entitlements: ${response.status}`);
+        const result: EntitlementsResponse = await response.json();
+        if (!cancelled) setData(result);
+      } catch (error) {
+        console.error('[EntitlementsContext] Failed to fetch entitlements:', error);
+        if (!cancelled) setData(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isSignedIn, getToken, API_URL, config?.userId, plan, organizationId]);
+
+  const value: EntitlementsContextType = {
+    loading,
+    plan: data?.plan ?? plan,
+    entitlements: data?.entitlements ?? {},
+    upgrades: data?.upgrades ?? {},
+  };
+
+  return (
+    <EntitlementsContext.Provider value={value}>
+      {children}
+    </EntitlementsContext.Provider>
+  );
+}
+
+export function useEntitlements(): EntitlementsContextType {
+  const context = useContext(EntitlementsContext);
+  if (context === undefined) {
+    throw new Error('useEntitlements must be used within an EntitlementsProvider');
+  }
+  return context;
+}
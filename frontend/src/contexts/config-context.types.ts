@@ -1,12 +1,18 @@
 
+export type UsagePeriod = 'week' | 'month' | 'quarter' | 'year';
+
 export interface Tier {
   name: string;
   displayName: string;
   price: number;
+  yearlyPrice?: number | null; // Annual price (absent/null = monthly only)
   limit: number | 'unlimited' | null;
+  usagePeriod?: UsagePeriod; // When the limit resets (absent = month)
   features: string | string[]; // Can be string (comma-separated) or array
   popular: boolean;
   stripePriceId: string | null;
+  yearlyStripePriceId?: string | null;
+  trialDays?: number | null; // Free trial for first-time subscribers
 }
 
 export interface Branding {
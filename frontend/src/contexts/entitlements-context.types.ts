@@ -0,0 +1,14 @@
+export type EntitlementValue = boolean | number | 'unlimited';
+
+export interface EntitlementUpgrade {
+  id: string;
+  name: string;
+  price: number;
+}
+
+export interface EntitlementsContextType {
+  loading: boolean;
+  plan: string;
+  entitlements: Record<string, EntitlementValue>;
+  upgrades: Record<string, EntitlementUpgrade | null>;
+}
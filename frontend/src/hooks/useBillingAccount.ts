@@ -0,0 +1,38 @@
+/**
+ * BILLING ACCOUNT HOOK - Whose plan the signed-in user is on
+ *
+ * Mirrors the API's plan resolution (api/src/services/organizations.ts):
+ * - Active organization with a plan → the organization's billing metadata
+ * - Otherwise                       → the user's own billing metadata
+ *
+ * Billing metadata (plan, billingStatus, subscriptionId, seats, ...) is
+ * written by the Stripe webhook to the owner's publicMetadata.
+ */
+
+import { useOrganization, useUser } from '@clerk/clerk-react';
+
+export function useBillingAccount() {
+  const { user } = useUser();
+  const { organization, membership } = useOrganization();
+
+  const isOrg = !!organization?.publicMetadata?.plan;
+  const metadata = (isOrg ? organization?.publicMetadata : user?.publicMetadata) || {};
+
+  // Team billing is managed by org owners/admins only (same rule as the API)
+  const role = membership?.role;
+  const canManageOrg = role === 'org:owner' || role === 'org:admin';
+
+  return {
+    type: isOrg ? ('org' as const) : ('user' as const),
+    metadata,
+    organization: organization || null,
+    canManageBilling: isOrg ? canManageOrg : true,
+    // Active org without a plan yet: checkout subscribes the org if allowed
+    canSubscribeOrg: !!organization && canManageOrg,
+    seats: isOrg ? (metadata.seats as number | undefined) ?? null : null,
+    // Refresh after a billing change (the webhook updates publicMetadata)
+    reload: async () => {
+      await (isOrg ? organization?.reload() : user?.reload());
+    },
+  };
+}
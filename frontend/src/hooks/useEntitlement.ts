@@ -0,0 +1,50 @@
+/**
+ * ENTITLEMENT HOOKS - Gate UI on the plan's feature flags and caps
+ *
+ * Read from EntitlementsProvider (contexts/EntitlementsContext.tsx), which
+ * loads GET /api/entitlements (api/src/routes/entitlements.ts) once for the
+ * signed-in user's plan - or the active organization's team plan - and
+ * refetches when that plan changes. Any number of components can call these
+ * hooks without extra requests.
+ *
+ * The API enforces entitlements anyway; these hooks only decide what to show.
+ *
+ * USAGE:
+ *   const csv = useEntitlement('export_csv');
+ *   {csv.allowed ? <ExportButton /> : <Link to="/choose-plan">Upgrade to {csv.upgradeTo?.name}</Link>}
+ *
+ *   const upload = useEntitlement('max_file_mb', fileSizeMb);  // caps: allowed if within the cap
+ */
+
+import { useEntitlements } from '../contexts/EntitlementsContext';
+
+export { useEntitlements };
+export type { EntitlementUpgrade, EntitlementValue } from '../contexts/entitlements-context.types';
+
+/**
+ * One entitlement of the current plan
+ *
+ * @param key - Entitlement key (e.g. "export_csv", "max_file_mb")
+ * @param amount - For caps: the amount needed (omit = any amount above 0)
+ * @returns allowed (false while loading), the raw value and the cheapest
+ *   plan that unlocks it
+ */
+export function useEntitlement(key: string, amount?: number) {
+  const { loading, entitlements, upgrades } = useEntitlements();
+  const value = entitlements[key];
+
+  let allowed = false;
+  if (value === true || value === 'unlimited') {
+    allowed = true;
+  } else if (typeof value === 'number') {
+    allowed = amount === undefined ? value > 0 : amount <= value;
+  }
+
+  return {
+    loading,
+    allowed,
+    value: value ?? null,
+    // Only known for entitlements the plan lacks entirely
+    upgradeTo: upgrades[key] ?? null,
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * ============================================================================
+ * API KEYS PAGE - SETTINGS (Protected Route)
+ * ============================================================================
+ *
+ * CONFIGURABLE DESIGN - Reads branding from config.json
+ * App name and primary color come from ConfigContext (same as Dashboard)
+ *
+ * PURPOSE:
+ * API keys let scripts and CI call the API without a browser session:
+ *   Authorization: Bearer sk_live_...
+ * Same plan, usage counting and rate limits as the Dashboard.
+ *
+ * SECTIONS:
+ * - Create: Name a key, the secret is shown ONCE with a copy button
+ * - Keys: Prefix, name, created, last used, revoke (with confirmation)
+ *
+ * API (Clerk JWT - keys can't manage keys):
+ * - GET /api/keys, POST /api/keys, DELETE /api/keys/:id
+ *
+ * ✅ AI CAN MODIFY: Text, colors, layout, table styling
+ * ❌ DON'T TOUCH: Auth logic, API calls
+ *
+ * ============================================================================
+ */
+
+import { useAuth, UserButton } from '@clerk/clerk-react';
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useConfig } from '../contexts/ConfigContext';
+
+// GET /api/keys
+interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  createdAt: string; // ISO timestamp
+  lastUsedAt: string | null; // ISO timestamp
+}
+
+function formatDateTime(date: string) {
+  return new Date(date).toLocaleString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+export default function ApiKeysPage() {
+  const { getToken } = useAuth();
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [confirmRevoke, setConfirmRevoke] = useState<string | null>(null);
+  const [revoking, setRevoking] = useState(false);
+
+  const { config } = useConfig();
+  const API_URL = config?.apiUrl || import.meta.env.VITE_API_URL || 'http://localhost:8787';
+  const appName = config?.branding?.appName || 'YourApp';
+  const primaryColor = config?.branding?.primaryColor || '#0f172a';
+
+  const getHeaders = useCallback(async () => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    // Send platform user ID for multi-tenant config lookup
+    if (config?.userId) {
+      headers['X-Platform-User-Id'] = config.userId;
+    }
+
+    const token = await getToken({ template: 'pan-api' });
+    headers['Authorization'] = `Bearer ${token}`;
+    return headers;
+  }, [getToken, config]);
+
+  const fetchKeys = useCallback(async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/keys`, { headers: await getHeaders() });
+      const data = await response.json();
+      if (response.ok) setKeys(data.keys || []);
+      else setError(data.error || 'Failed to load API keys');
+    } catch (err) {
+      console.error('Failed to load API keys:', err);
+      setError('Failed to load API keys. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [API_URL, getHeaders]);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const response = await fetch(`${API_URL}/api/keys`, {
+        method: 'POST',
+        headers: await getHeaders(),
+        body: JSON.stringify({ name: name.trim() }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || data.error || 'Failed to create API key');
+        return;
+      }
+      setNewSecret(data.secret); // Only time the full key is available
+      setCopied(false);
+      setName('');
+      setKeys((prev) => [...prev, data.key]);
+    } catch (err) {
+      console.error('Failed to create API key:', err);
+      setError('Failed to create API key. Please try again.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newSecret) return;
+    try {
+      await navigator.clipboard.writeText(newSecret);
+      setCopied(true);
+    } catch (err) {
+      console.error('Copy failed:', err);
+    }
+  };
+
+  const handleRevoke = async (keyId: string) => {
+    setRevoking(true);
+    setError(null);
+    try {
+      const response = await fetch(`${API_URL}/api/keys/${encodeURIComponent(keyId)}`, {
+        method: 'DELETE',
+        headers: await getHeaders(),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || data.error || 'Failed to revoke API key');
+        return;
+      }
+      setKeys((prev) => prev.filter((k) => k.id !== keyId));
+    } catch (err) {
+      console.error('Failed to revoke API key:', err);
+      setError('Failed to revoke API key. Please try again.');
+    } finally {
+      setRevoking(false);
+      setConfirmRevoke(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Navigation - App name from config */}
+      <nav className="bg-white border-b border-gray-200 px-8 py-4 flex justify-between items-center">
+        <Link to="/" className="no-underline text-slate-900 text-2xl font-bold hover:text-slate-700">
+          {appName}
+        </Link>
+        <div className="flex gap-4 items-center">
+          <Link to="/dashboard" className="text-slate-600 hover:text-slate-900 no-underline font-medium text-sm">
+            ← Back to Dashboard
+          </Link>
+          <UserButton />
+        </div>
+      </nav>
+
+      <div className="max-w-5xl mx-auto px-8 py-12">
+        <h1 className="text-4xl mb-2 text-slate-900 font-bold">API Keys</h1>
+        <p className="text-slate-600 text-lg mb-8">
+          Call the API from scripts and CI with <code className="px-1 bg-slate-100 rounded">Authorization: Bearer sk_live_...</code>.
+          Requests count against your plan like any other.
+        </p>
+
+        {error && (
+          <div className="mb-8 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="m-0 text-red-800">{error}</p>
+          </div>
+        )}
+
+        {/* New key secret - shown once */}
+        {newSecret && (
+          <div className="mb-8 bg-emerald-50 border border-emerald-200 rounded-xl p-6">
+            <p className="m-0 mb-3 text-emerald-900 font-semibold">
+              Copy your new API key now. You won't be able to see it again.
+            </p>
+            <div className="flex gap-3 items-center">
+              <code className="flex-1 px-3 py-2 bg-white border border-emerald-200 rounded-lg text-sm break-all">{newSecret}</code>
+              <button
+                onClick={handleCopy}
+                className="px-4 py-2 text-white border-none rounded-lg cursor-pointer font-semibold text-sm transition-opacity hover:opacity-90"
+                style={{ backgroundColor: primaryColor }}
+              >
+                {copied ? 'Copied!' : 'Copy'}
+              </button>
+            </div>
+            <button
+              onClick={() => setNewSecret(null)}
+              className="mt-4 px-0 bg-transparent border-none text-emerald-800 hover:text-emerald-950 cursor-pointer text-sm font-medium"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
+        {/* Create */}
+        <form onSubmit={handleCreate} className="mb-8 bg-white p-6 rounded-xl border border-gray-200 flex flex-wrap gap-3 items-center">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={64}
+            placeholder="Key name, e.g. CI pipeline"
+            className="flex-1 min-w-[200px] px-4 py-2 border border-slate-300 rounded-lg text-sm"
+          />
+          <button
+            type="submit"
+            disabled={creating || !name.trim()}
+            className="px-6 py-2 text-white border-none rounded-lg cursor-pointer font-semibold text-sm transition-opacity hover:opacity-90 disabled:opacity-50"
+            style={{ backgroundColor: primaryColor }}
+          >
+            {creating ? 'Creating...' : 'Create key'}
+          </button>
+        </form>
+
+        {/* Keys */}
+        <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+          {loading ? (
+            <p className="px-6 py-8 text-slate-500 m-0">Loading API keys...</p>
+          ) : keys.length === 0 ? (
+            <p className="px-6 py-8 text-slate-500 m-0">No API keys yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-500 text-left">
+                <tr>
+                  <th className="px-6 py-3 font-semibold">Name</th>
+                  <th className="px-6 py-3 font-semibold">Key</th>
+                  <th className="px-6 py-3 font-semibold">Created</th>
+                  <th className="px-6 py-3 font-semibold">Last used</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {keys.map((key) => (
+                  <tr key={key.id} className="border-t border-gray-100">
+                    <td className="px-6 py-3 text-slate-900 font-medium">{key.name}</td>
+                    <td className="px-6 py-3"><code className="text-slate-600">{key.prefix}…</code></td>
+                    <td className="px-6 py-3 text-slate-600">{formatDateTime(key.createdAt)}</td>
+                    <td className="px-6 py-3 text-slate-600">{key.lastUsedAt ? formatDateTime(key.lastUsedAt) : 'Never'}</td>
+                    <td className="px-6 py-3 text-right whitespace-nowrap">
+                      {confirmRevoke === key.id ? (
+                        <>
+                          <span className="mr-3 text-slate-600">Revoke? Scripts using it stop working.</span>
+                          <button
+                            onClick={() => setConfirmRevoke(null)}
+                            disabled={revoking}
+                            className="mr-2 px-3 py-1 bg-white hover:bg-slate-50 text-slate-700 border border-slate-300 rounded-lg cursor-pointer font-semibold text-xs"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => handleRevoke(key.id)}
+                            disabled={revoking}
+                            className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white border-none rounded-lg cursor-pointer font-semibold text-xs disabled:opacity-50"
+                          >
+                            {revoking ? 'Revoking...' : 'Revoke'}
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => setConfirmRevoke(key.id)}
+                          className="px-3 py-1 bg-white hover:bg-red-50 text-red-700 border border-red-200 rounded-lg cursor-pointer font-semibold text-xs"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,352 @@
+/**
+ * ============================================================================
+ * BILLING PAGE - INVOICES AND PAYMENT METHOD (Protected Route)
+ * ============================================================================
+ *
+ * CONFIGURABLE DESIGN - Reads branding from config.json
+ * App name and primary color come from ConfigContext (same as Dashboard)
+ *
+ * SECTIONS:
+ * - Plan: Current plan + billing status (team plans: seats, with a seat editor)
+ * - Payment method: Card brand + last4, "Update" opens the Stripe portal
+ * - Invoices: Date, number, amount, status, view/PDF links ("Load more")
+ *
+ * API:
+ * - GET /api/billing/payment-method
+ * - GET /api/billing/invoices?startingAfter=<invoice id>
+ * - POST /api/customer-portal (update card)
+ * - POST /api/subscription/seats (team plans)
+ *
+ * ✅ AI CAN MODIFY: Text, colors, layout, table styling
+ * ❌ DON'T TOUCH: Auth logic, API calls
+ *
+ * ============================================================================
+ */
+
+import { useAuth, UserButton } from '@clerk/clerk-react';
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useConfig } from '../contexts/ConfigContext';
+import { useBillingAccount } from '../hooks/useBillingAccount';
+
+// GET /api/billing/invoices
+interface Invoice {
+  id: string;
+  number: string | null;
+  date: string; // ISO timestamp
+  amount: number; // cents
+  amountPaid: number; // cents
+  currency: string;
+  status: string | null;
+  hostedInvoiceUrl: string | null;
+  pdfUrl: string | null;
+}
+
+// GET /api/billing/payment-method
+interface PaymentMethod {
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+}
+
+function formatAmount(cents: number, currency: string) {
+  return (cents / 100).toLocaleString(undefined, { style: 'currency', currency: currency.toUpperCase() });
+}
+
+/**
+ * Status badge colors (Stripe invoice statuses)
+ */
+function getStatusClass(status: string | null) {
+  if (status === 'paid') return 'bg-emerald-100 text-emerald-800';
+  if (status === 'open') return 'bg-amber-100 text-amber-800';
+  if (status === 'uncollectible') return 'bg-red-100 text-red-800';
+  return 'bg-slate-100 text-slate-700';
+}
+
+export default function BillingPage() {
+  const { getToken } = useAuth();
+  const billing = useBillingAccount();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [seats, setSeats] = useState('');
+  const [savingSeats, setSavingSeats] = useState(false);
+
+  const { config } = useConfig();
+  const API_URL = config?.apiUrl || import.meta.env.VITE_API_URL || 'http://localhost:8787';
+  const appName = config?.branding?.appName || 'YourApp';
+  const primaryColor = config?.branding?.primaryColor || '#0f172a';
+
+  // Personal plan, or the active organization's team plan
+  const plan = (billing.metadata.plan as string) || 'free';
+  const billingStatus = billing.metadata.billingStatus as string | undefined;
+  const currentPeriodEnd = billing.metadata.currentPeriodEnd as string | undefined;
+  const cancelAtPeriodEnd = !!billing.metadata.cancelAtPeriodEnd;
+
+  const getHeaders = useCallback(async () => {
+    const headers: Record<string, string> = {};
+
+    // Send platform user ID for multi-tenant config lookup
+    if (config?.userId) {
+      headers['X-Platform-User-Id'] = config.userId;
+    }
+
+    const token = await getToken({ template: 'pan-api' });
+    headers['Authorization'] = `Bearer ${token}`;
+    return headers;
+  }, [getToken, config]);
+
+  const fetchInvoices = useCallback(async (startingAfter?: string) => {
+    const query = startingAfter ? `?startingAfter=${encodeURIComponent(startingAfter)}` : '';
+    const response = await fetch(`${API_URL}/api/billing/invoices${query}`, { headers: await getHeaders() });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to load invoices');
+    return data as { invoices: Invoice[]; hasMore: boolean };
+  }, [API_URL, getHeaders]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [invoiceData, methodResponse] = await Promise.all([
+          fetchInvoices(),
+          fetch(`${API_URL}/api/billing/payment-method`, { headers: await getHeaders() }),
+        ]);
+        setInvoices(invoiceData.invoices);
+        setHasMore(invoiceData.hasMore);
+        if (methodResponse.ok) setPaymentMethod((await methodResponse.json()).paymentMethod);
+      } catch (err) {
+        console.error('Failed to load billing:', err);
+        setError('Failed to load billing details. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [API_URL, fetchInvoices, getHeaders]);
+
+  const handleLoadMore = async () => {
+    if (invoices.length === 0) return;
+    setLoadingMore(true);
+    try {
+      const data = await fetchInvoices(invoices[invoices.length - 1].id);
+      setInvoices((prev) => [...prev, ...data.invoices]);
+      setHasMore(data.hasMore);
+    } catch (err) {
+      console.error('Failed to load more invoices:', err);
+      setError('Failed to load more invoices.');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Card updates happen in the Stripe portal
+  const handleUpdatePaymentMethod = async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/customer-portal`, {
+        method: 'POST',
+        headers: { ...(await getHeaders()), 'Content-Type': 'application/json' },
+      });
+      const data = await response.json();
+      if (response.ok && data.url) window.location.href = data.url;
+      else alert(data.error || 'Failed to open billing portal');
+    } catch (err) {
+      console.error('Billing portal error:', err);
+      alert('Failed to open billing portal');
+    }
+  };
+
+  // Team plans: seats can't go below the organization's member count (checked by the API)
+  const handleSaveSeats = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingSeats(true);
+    setError(null);
+    try {
+      const response = await fetch(`${API_URL}/api/subscription/seats`, {
+        method: 'POST',
+        headers: { ...(await getHeaders()), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ seats: Number(seats) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.message || data.error || 'Failed to change seats');
+        return;
+      }
+      setSeats('');
+      await billing.reload();
+    } catch (err) {
+      console.error('Seat change error:', err);
+      setError('Failed to change seats. Please try again.');
+    } finally {
+      setSavingSeats(false);
+    }
+  };
+
+  if (!billing.canManageBilling) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex flex-col items-center justify-center gap-4">
+        <p className="text-slate-600 m-0">Your team's billing is managed by its owners and admins.</p>
+        <Link to="/dashboard" className="text-slate-600 hover:text-slate-900 font-medium text-sm">
+          ← Back to Dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Navigation - App name from config */}
+      <nav className="bg-white border-b border-gray-200 px-8 py-4 flex justify-between items-center">
+        <Link to="/" className="no-underline text-slate-900 text-2xl font-bold hover:text-slate-700">
+          {appName}
+        </Link>
+        <div className="flex gap-4 items-center">
+          <Link to="/dashboard" className="text-slate-600 hover:text-slate-900 no-underline font-medium text-sm">
+            ← Back to Dashboard
+          </Link>
+          <UserButton />
+        </div>
+      </nav>
+
+      <div className="max-w-5xl mx-auto px-8 py-12">
+        <h1 className="text-4xl mb-8 text-slate-900 font-bold">Billing</h1>
+
+        {error && (
+          <div className="mb-8 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="m-0 text-red-800">{error}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+          {/* Plan */}
+          <div className="bg-white p-6 rounded-xl border border-gray-200">
+            <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wide mb-3">Plan</h2>
+            <p className="text-2xl font-bold text-slate-900 mb-1">{plan.toUpperCase()}</p>
+            <p className="text-sm text-slate-600 m-0">
+              {billingStatus === 'past_due' || billingStatus === 'unpaid'
+                ? 'Payment failed - update your payment method'
+                : cancelAtPeriodEnd && currentPeriodEnd
+                ? `Ends on ${new Date(currentPeriodEnd).toLocaleDateString()}`
+                : currentPeriodEnd
+                ? `Renews on ${new Date(currentPeriodEnd).toLocaleDateString()}`
+                : 'No active subscription'}
+            </p>
+            {billing.type === 'org' && (
+              <form onSubmit={handleSaveSeats} className="mt-4 flex gap-2 items-center text-sm">
+                <span className="text-slate-600">
+                  {billing.organization?.name} · {billing.seats ?? '-'} seats
+                </span>
+                <input
+                  type="number"
+                  min={1}
+                  value={seats}
+                  onChange={(e) => setSeats(e.target.value)}
+                  placeholder="Seats"
+                  className="w-20 px-2 py-1 border border-slate-300 rounded-lg text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={savingSeats || !seats}
+                  className="px-3 py-1 text-white border-none rounded-lg cursor-pointer font-semibold text-xs transition-opacity hover:opacity-90 disabled:opacity-50"
+                  style={{ backgroundColor: primaryColor }}
+                >
+                  {savingSeats ? 'Saving...' : 'Change seats'}
+                </button>
+              </form>
+            )}
+          </div>
+
+          {/* Payment method */}
+          <div className="bg-white p-6 rounded-xl border border-gray-200">
+            <h2 className="text-sm font-semibold text-slate-500 uppercase tracking-wide mb-3">Payment method</h2>
+            {loading ? (
+              <p className="text-slate-500 m-0">Loading...</p>
+            ) : paymentMethod ? (
+              <div className="flex justify-between items-center gap-4">
+                <div>
+                  <p className="text-lg font-semibold text-slate-900 m-0 capitalize">
+                    {paymentMethod.brand} •••• {paymentMethod.last4}
+                  </p>
+                  <p className="text-sm text-slate-600 m-0">
+                    Expires {String(paymentMethod.expMonth).padStart(2, '0')}/{paymentMethod.expYear}
+                  </p>
+                </div>
+                <button
+                  onClick={handleUpdatePaymentMethod}
+                  className="px-4 py-2 text-white border-none rounded-lg cursor-pointer font-semibold text-sm transition-opacity hover:opacity-90"
+                  style={{ backgroundColor: primaryColor }}
+                >
+                  Update
+                </button>
+              </div>
+            ) : (
+              <p className="text-slate-500 m-0">No payment method on file</p>
+            )}
+          </div>
+        </div>
+
+        {/* Invoices */}
+        <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+          <h2 className="text-lg font-semibold text-slate-900 px-6 py-4 m-0 border-b border-gray-200">Invoices</h2>
+          {loading ? (
+            <p className="px-6 py-8 text-slate-500 m-0">Loading invoices...</p>
+          ) : invoices.length === 0 ? (
+            <p className="px-6 py-8 text-slate-500 m-0">No invoices yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-500 text-left">
+                <tr>
+                  <th className="px-6 py-3 font-semibold">Date</th>
+                  <th className="px-6 py-3 font-semibold">Number</th>
+                  <th className="px-6 py-3 font-semibold">Amount</th>
+                  <th className="px-6 py-3 font-semibold">Status</th>
+                  <th className="px-6 py-3 font-semibold text-right">Invoice</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invoices.map((invoice) => (
+                  <tr key={invoice.id} className="border-t border-gray-100">
+                    <td className="px-6 py-3 text-slate-900">{new Date(invoice.date).toLocaleDateString()}</td>
+                    <td className="px-6 py-3 text-slate-600">{invoice.number || '—'}</td>
+                    <td className="px-6 py-3 text-slate-900">{formatAmount(invoice.amount, invoice.currency)}</td>
+                    <td className="px-6 py-3">
+                      <span className={`px-2 py-1 rounded text-xs font-semibold capitalize ${getStatusClass(invoice.status)}`}>
+                        {invoice.status || 'unknown'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-3 text-right whitespace-nowrap">
+                      {invoice.hostedInvoiceUrl && (
+                        <a href={invoice.hostedInvoiceUrl} target="_blank" rel="noreferrer" className="text-slate-700 hover:text-slate-900 font-medium">
+                          View
+                        </a>
+                      )}
+                      {invoice.pdfUrl && (
+                        <a href={invoice.pdfUrl} target="_blank" rel="noreferrer" className="ml-4 text-slate-700 hover:text-slate-900 font-medium">
+                          PDF
+                        </a>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {hasMore && (
+            <div className="px-6 py-4 border-t border-gray-200 text-center">
+              <button
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+                className="px-4 py-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-300 rounded-lg cursor-pointer font-semibold text-sm disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
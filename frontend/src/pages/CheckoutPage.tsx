@@ -8,7 +8,7 @@
  * User never really "sees" this page - it's a loading state.
  *
  * FLOW:
- * 1. User signs up with ?plan=pro in URL
+ * 1. User signs up with ?plan=pro in URL (optional &interval=year)
  * 2. Clerk redirects here after signup
  * 3. This page calls /api/create-checkout
  * 4. Immediately redirects to Stripe
@@ -48,6 +48,7 @@ export default function CheckoutPage() {
       }
 
       const plan = searchParams.get('plan');
+      const interval = searchParams.get('interval') === 'year' ? 'year' : 'month';
 
       // If no plan or free plan, go to dashboard
       if (!plan || plan === 'free') {
@@ -55,7 +56,7 @@ export default function CheckoutPage() {
         return;
       }
 
-      console.log(`Initiating checkout for ${plan} tier...`);
+      console.log(`Initiating checkout for ${plan} tier (${interval})...`);
 
       try {
         const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8787';
@@ -73,7 +74,7 @@ export default function CheckoutPage() {
         const response = await fetch(`${API_URL}/api/create-checkout`, {
           method: 'POST',
           headers,
-          body: JSON.stringify({ tier: plan }),
+          body: JSON.stringify({ tier: plan, interval }),
         });
 
         const data = await response.json();
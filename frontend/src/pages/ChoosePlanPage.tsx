@@ -10,9 +10,19 @@
  * FLOW:
  * 1. User clicks "Upgrade" from dashboard
  * 2. This page shows all tiers
- * 3. User selects paid tier → Stripe Checkout
+ * 3. User picks monthly or annual billing (if a tier has a yearly price)
+ *    and selects a paid tier:
+ *    - No subscription yet → Stripe Checkout (optional promo code, free
+ *      trial for first-time subscribers if the tier has trialDays)
+ *    - Existing subscriber → proration preview ("charged $X today") and
+ *      confirm in place (upgrades and monthly → annual apply now,
+ *      downgrades and annual → monthly at period end)
  * 4. After payment → redirected to dashboard with success message
  *
+ * TEAMS: With an organization active (Clerk org switcher), owners/admins can
+ * subscribe the organization instead - billed per seat (one per member),
+ * usage shared by the team. Members of a team plan can't change it.
+ *
  * ✅ AI CAN MODIFY: Text, colors, layout, card styling
  * ❌ DON'T TOUCH: Auth logic, API calls, Stripe checkout flow
  *
@@ -20,36 +30,94 @@
  */
 
 import { useEffect, useState } from 'react';
-import { useAuth, useUser } from '@clerk/clerk-react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useAuth } from '@clerk/clerk-react';
+import { useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { useConfig } from '../contexts/ConfigContext';
-import type { Tier as ConfigTier } from '../contexts/config-context.types'; // Import Tier from types file
+import type { Tier as ConfigTier, UsagePeriod } from '../contexts/config-context.types'; // Import Tier from types file
+import { useBillingAccount } from '../hooks/useBillingAccount';
 
 interface Tier {
   id: string;
   name: string;
   price: number;
+  yearlyPrice: number | null;
+  trialDays: number | null;
   limit: number | 'unlimited';
+  usagePeriod: UsagePeriod;
   features: string[];
   hasPriceId: boolean;
   stripePriceId: string | null; // Added stripePriceId to local Tier interface
 }
 
+// POST /api/subscription/preview response
+interface PlanPreview {
+  tier: string;
+  interval: BillingInterval;
+  upgrade: boolean;
+  amountDue: number; // cents, charged today
+  currency: string;
+  effectiveAt: string | null;
+  prorationDate: number;
+}
+
+type BillingInterval = 'month' | 'year';
+
+// Annual discount vs. 12 monthly payments (whole percent)
+function getYearlySavings(tier: Tier) {
+  if (!tier.yearlyPrice || tier.price <= 0) return 0;
+  return Math.round((1 - tier.yearlyPrice / (tier.price * 12)) * 100);
+}
+
+function formatAmount(cents: number, currency: string) {
+  return (cents / 100).toLocaleString(undefined, { style: 'currency', currency: currency.toUpperCase() });
+}
+
 export default function ChoosePlanPage() {
   const { getToken } = useAuth();
-  const { user } = useUser();
+  const billing = useBillingAccount();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [tiers, setTiers] = useState<Tier[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [upgrading, setUpgrading] = useState<string | null>(null);
+  const [preview, setPreview] = useState<PlanPreview | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [promoCode, setPromoCode] = useState('');
+  const [personal, setPersonal] = useState(false);
 
   // Load configuration for primary color
   const { config } = useConfig();
   const primaryColor = config?.branding?.primaryColor || '#0f172a';
 
   const API_URL = config?.apiUrl || import.meta.env.VITE_API_URL || 'http://localhost:8787';
-  const currentPlan = (user?.publicMetadata?.plan as string) || 'free';
+  // Active organization without a plan: subscribe it (team plan) unless "Personal" is picked
+  const teamCheckout = billing.type === 'user' && billing.canSubscribeOrg && !personal;
+  const currentPlan = teamCheckout ? 'free' : (billing.metadata.plan as string) || 'free';
+  const hasSubscription = !teamCheckout && !!billing.metadata.subscriptionId;
+  const trialEligible = teamCheckout || !billing.metadata.stripeCustomerId; // Trials are for first-time subscribers
+  const currentInterval = (billing.metadata.billingInterval as BillingInterval) || 'month';
+  const [annual, setAnnual] = useState(
+    searchParams.get('interval') === 'year' || (hasSubscription && currentInterval === 'year')
+  );
+
+  // Tiers without a yearly price are always billed monthly
+  const getInterval = (tier: Tier): BillingInterval => (annual && tier.yearlyPrice ? 'year' : 'month');
+  const hasAnnual = tiers.some((tier) => tier.yearlyPrice);
+  const maxSavings = Math.max(0, ...tiers.map(getYearlySavings));
+
+  const getHeaders = async () => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    // Send platform user ID for multi-tenant config lookup
+    if (config?.userId) {
+      headers['X-Platform-User-Id'] = config.userId;
+    }
+
+    const token = await getToken({ template: 'pan-api' });
+    headers['Authorization'] = `Bearer ${token}`;
+    return headers;
+  };
 
   // Load tiers from config.json (has price IDs baked in!)
   useEffect(() => {
@@ -58,7 +126,10 @@ export default function ChoosePlanPage() {
         id: tier.name,
         name: tier.displayName,
         price: tier.price,
+        yearlyPrice: tier.yearlyPrice ?? null,
+        trialDays: tier.trialDays ?? null,
         limit: tier.limit === null ? 'unlimited' : tier.limit,
+        usagePeriod: tier.usagePeriod ?? 'month',
         features: Array.isArray(tier.features) ? tier.features : (typeof tier.features === 'string' ? tier.features.split(',').map((f: string) => f.trim()) : []), // Ensure features is an array of strings
         hasPriceId: !!tier.stripePriceId,
         stripePriceId: tier.stripePriceId,
@@ -71,6 +142,7 @@ export default function ChoosePlanPage() {
   /**
    * handleSelectPlan: Initiates upgrade/downgrade
    * - Free tier: Just go to dashboard
+   * - Existing subscriber: Preview the plan change (confirmed below)
    * - Paid tier: Create Stripe checkout session
    */
   const handleSelectPlan = async (tierId: string) => {
@@ -79,10 +151,34 @@ export default function ChoosePlanPage() {
       return;
     }
 
+    setError(null);
+    setNotice(null);
+    const selectedTier = tiers.find(t => t.id === tierId);
+    const interval = selectedTier ? getInterval(selectedTier) : 'month';
+
+    if (hasSubscription) {
+      setUpgrading(tierId);
+      try {
+        const response = await fetch(`${API_URL}/api/subscription/preview`, {
+          method: 'POST',
+          headers: await getHeaders(),
+          body: JSON.stringify({ tier: tierId, interval }),
+        });
+        const data = await response.json();
+        if (response.ok) setPreview(data);
+        else setError(data.message || data.error || 'Failed to preview plan change');
+      } catch (err) {
+        console.error('Plan preview error:', err);
+        setError('Something went wrong. Please try again.');
+      } finally {
+        setUpgrading(null);
+      }
+      return;
+    }
+
     setUpgrading(tierId);
     try {
       // Find the tier to get its priceId
-      const selectedTier = tiers.find(t => t.id === tierId);
       const priceId = selectedTier?.stripePriceId;
 
       const headers: Record<string, string> = { 'Content-Type': 'application/json' };
@@ -98,7 +194,13 @@ export default function ChoosePlanPage() {
       const response = await fetch(`${API_URL}/api/create-checkout`, {
         method: 'POST',
         headers,
-        body: JSON.stringify({ tier: tierId, priceId }),
+        body: JSON.stringify({
+          tier: tierId,
+          interval,
+          priceId,
+          promoCode: promoCode.trim() || undefined,
+          account: teamCheckout ? 'org' : 'personal',
+        }),
       });
 
       const data = await response.json();
@@ -106,7 +208,7 @@ export default function ChoosePlanPage() {
       if (response.ok && data.url) {
         window.location.href = data.url; // Redirect to Stripe
       } else {
-        setError('Failed to create checkout session');
+        setError(data.error === 'Invalid promo code' || response.status === 403 ? data.message || data.error : 'Failed to create checkout session');
         setUpgrading(null);
       }
     } catch (err) {
@@ -116,6 +218,40 @@ export default function ChoosePlanPage() {
     }
   };
 
+  /**
+   * handleConfirmChange: Applies the previewed plan change
+   * - Upgrade: charged now, refresh plan on the dashboard
+   * - Downgrade: scheduled for the end of the period
+   */
+  const handleConfirmChange = async () => {
+    if (!preview) return;
+    setUpgrading(preview.tier);
+    try {
+      const response = await fetch(`${API_URL}/api/subscription/change`, {
+        method: 'POST',
+        headers: await getHeaders(),
+        body: JSON.stringify({ tier: preview.tier, interval: preview.interval, prorationDate: preview.prorationDate }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.message || data.error || 'Failed to change plan');
+      } else if (data.scheduled) {
+        const tierName = tiers.find(t => t.id === data.tier)?.name || data.tier;
+        const billing = data.interval === 'year' ? 'annual' : 'monthly';
+        setNotice(`Your plan switches to ${tierName} (${billing} billing) on ${new Date(data.effectiveAt).toLocaleDateString()}.`);
+      } else {
+        navigate('/dashboard?success=true'); // Dashboard refreshes the JWT (new plan)
+      }
+    } catch (err) {
+      console.error('Plan change error:', err);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setPreview(null);
+      setUpgrading(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-slate-50 flex items-center justify-center">
@@ -141,8 +277,55 @@ export default function ChoosePlanPage() {
           {currentPlan && (
             <p className="mt-2 text-sm text-slate-500">
               Current plan: <span className="font-semibold">{currentPlan.toUpperCase()}</span>
+              {hasSubscription && ` (billed ${currentInterval === 'year' ? 'annually' : 'monthly'})`}
+              {billing.type === 'org' && ` for ${billing.organization?.name}${billing.seats ? ` · ${billing.seats} seats` : ''}`}
+            </p>
+          )}
+
+          {/* Team plan members: only owners/admins manage billing */}
+          {!billing.canManageBilling && (
+            <p className="mt-2 text-sm text-amber-700">
+              Your team's plan is managed by its owners and admins.
             </p>
           )}
+
+          {/* Personal vs. team checkout (active organization without a plan) */}
+          {billing.type === 'user' && billing.canSubscribeOrg && (
+            <div className="mt-6 flex justify-center">
+              <div className="inline-flex items-center gap-1 p-1 bg-white border border-gray-200 rounded-lg">
+                <button
+                  onClick={() => { setPersonal(false); setPreview(null); }}
+                  className={`px-4 py-2 rounded-md text-sm font-semibold ${personal ? 'text-slate-600' : 'bg-slate-900 text-white'}`}
+                >
+                  {billing.organization?.name} (per seat)
+                </button>
+                <button
+                  onClick={() => { setPersonal(true); setPreview(null); }}
+                  className={`px-4 py-2 rounded-md text-sm font-semibold ${personal ? 'bg-slate-900 text-white' : 'text-slate-600'}`}
+                >
+                  Personal
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Monthly / Annual toggle (only if a tier has a yearly price) */}
+          {hasAnnual && (
+            <div className="mt-6 inline-flex items-center gap-1 p-1 bg-white border border-gray-200 rounded-lg">
+              <button
+                onClick={() => { setAnnual(false); setPreview(null); }}
+                className={`px-4 py-2 rounded-md text-sm font-semibold ${annual ? 'text-slate-600' : 'bg-slate-900 text-white'}`}
+              >
+                Monthly
+              </button>
+              <button
+                onClick={() => { setAnnual(true); setPreview(null); }}
+                className={`px-4 py-2 rounded-md text-sm font-semibold ${annual ? 'bg-slate-900 text-white' : 'text-slate-600'}`}
+              >
+                Annual{maxSavings > 0 && ` (save up to ${maxSavings}%)`}
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Error Message */}
@@ -152,10 +335,63 @@ export default function ChoosePlanPage() {
           </div>
         )}
 
+        {/* Notice (scheduled downgrade) */}
+        {notice && (
+          <div className="mb-8 max-w-2xl mx-auto bg-slate-100 border border-slate-200 rounded-lg p-4">
+            <p className="text-slate-800 text-center">{notice}</p>
+          </div>
+        )}
+
+        {/* Plan change confirmation (existing subscribers) */}
+        {preview && (
+          <div className="mb-8 max-w-2xl mx-auto bg-white border-2 border-slate-900 rounded-lg p-6 text-center">
+            <p className="text-slate-900 font-semibold mb-2">
+              Switch to {tiers.find(t => t.id === preview.tier)?.name || preview.tier}
+              {preview.interval === 'year' ? ' (annual)' : ' (monthly)'}?
+            </p>
+            <p className="text-slate-600 mb-4">
+              {preview.upgrade
+                ? `You'll be charged ${formatAmount(preview.amountDue, preview.currency)} today (prorated for the rest of this period).`
+                : `No charge today. Your plan switches on ${preview.effectiveAt ? new Date(preview.effectiveAt).toLocaleDateString() : 'your next billing date'}.`}
+            </p>
+            <div className="flex gap-4 justify-center">
+              <button
+                onClick={() => setPreview(null)}
+                disabled={!!upgrading}
+                className="px-6 py-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-300 rounded-lg cursor-pointer font-semibold text-sm"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmChange}
+                disabled={!!upgrading}
+                className="px-6 py-2 text-white border-none rounded-lg cursor-pointer font-semibold text-sm transition-opacity hover:opacity-90 disabled:opacity-50"
+                style={{ backgroundColor: primaryColor }}
+              >
+                {upgrading ? 'Processing...' : 'Confirm'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Promo code (new subscriptions only - applied at checkout) */}
+        {!hasSubscription && (
+          <div className="mb-8 max-w-sm mx-auto flex gap-2">
+            <input
+              type="text"
+              value={promoCode}
+              onChange={(e) => setPromoCode(e.target.value)}
+              placeholder="Promo code (optional)"
+              className="flex-1 px-4 py-2 border border-slate-300 rounded-lg text-sm"
+            />
+          </div>
+        )}
+
         {/* Pricing Cards */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
           {tiers.map((tier) => {
-            const isCurrentPlan = tier.id === currentPlan;
+            // Same tier on the other interval is a plan change, not the current plan
+            const isCurrentPlan = tier.id === currentPlan && (!hasSubscription || getInterval(tier) === currentInterval);
             const isUpgrading = upgrading === tier.id;
 
             return (
@@ -179,19 +415,36 @@ export default function ChoosePlanPage() {
 
                 {/* Price */}
                 <div className="mb-6">
-                  <span className="text-5xl font-bold text-slate-900">${tier.price}</span>
-                  <span className="text-slate-600">/month</span>
+                  {getInterval(tier) === 'year' ? (
+                    <>
+                      <span className="text-5xl font-bold text-slate-900">${tier.yearlyPrice}</span>
+                      <span className="text-slate-600">/year</span>
+                      {getYearlySavings(tier) > 0 && (
+                        <p className="mt-1 text-sm font-semibold text-green-700">Save {getYearlySavings(tier)}%</p>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      <span className="text-5xl font-bold text-slate-900">${tier.price}</span>
+                      <span className="text-slate-600">/month</span>
+                    </>
+                  )}
                 </div>
 
+                {/* Free trial (first-time subscribers) */}
+                {tier.trialDays && trialEligible && !hasSubscription && (
+                  <p className="-mt-4 mb-6 text-sm font-semibold text-sky-700">{tier.trialDays}-day free trial</p>
+                )}
+
                 {/* Limit */}
                 <p className="text-slate-600 mb-6 text-lg">
-                  {tier.limit === 'unlimited' ? 'Unlimited requests' : `${tier.limit} requests/month`}
+                  {tier.limit === 'unlimited' ? 'Unlimited requests' : `${tier.limit} requests/${tier.usagePeriod}`}
                 </p>
 
                 {/* CTA Button - Primary color for paid tiers */}
                 <button
                   onClick={() => handleSelectPlan(tier.id)}
-                  disabled={isCurrentPlan || isUpgrading}
+                  disabled={isCurrentPlan || isUpgrading || !billing.canManageBilling}
                   className={`w-full py-3 rounded-lg font-semibold transition-opacity ${
                     isCurrentPlan
                       ? 'bg-slate-200 text-slate-600 cursor-not-allowed'
@@ -209,6 +462,10 @@ export default function ChoosePlanPage() {
                     ? 'Processing...'
                     : tier.id === 'free'
                     ? 'Select Free'
+                    : hasSubscription && tier.id === currentPlan
+                    ? (getInterval(tier) === 'year' ? 'Switch to Annual' : 'Switch to Monthly')
+                    : hasSubscription && tier.price < (tiers.find(t => t.id === currentPlan)?.price ?? 0)
+                    ? 'Downgrade'
                     : 'Upgrade'}
                 </button>
 
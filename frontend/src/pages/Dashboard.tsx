@@ -7,9 +7,15 @@
  * App name, colors, and description come from ConfigContext
  *
  * LAYOUT:
- * - Nav: Logo (config.branding.appName) + Upgrade + Billing + User menu
- * - Sidebar: Usage stats (subtle)
- * - Main Area: YOUR PRODUCT GOES HERE
+ * - Nav: Logo (config.branding.appName) + Upgrade + Billing + API Keys +
+ *   Organization switcher (personal or team plan) + User menu
+ * - Banner: Failed payment warning with "Fix payment" (past_due/unpaid only)
+ * - Banner: Free trial end date (trialing only)
+ * - Banner: "Your plan ends on <date>" with Resume (canceled at period end)
+ * - Cancel panel: optional reason + feedback, cancels at period end
+ * - Sidebar: Usage stats in credits (progress bar, reset date) + plan entitlements
+ * - Main Area: YOUR PRODUCT GOES HERE (operation + size picker shows the credit cost)
+ * - Usage History: Daily chart for the current period + previous periods
  * - Footer: Upgrade CTA (free tier only, uses primary color)
  *
  * ✅ WHAT'S CONFIGURABLE:
@@ -22,35 +28,121 @@
  * ============================================================================
  */
 
-import { useAuth, useUser, UserButton } from '@clerk/clerk-react';
+import { OrganizationSwitcher, useAuth, useUser, UserButton } from '@clerk/clerk-react';
 import { useEffect, useState, useCallback } from 'react'; // Added useCallback
 import { Link, useSearchParams, useNavigate } from 'react-router-dom';
 import { useConfig } from '../contexts/ConfigContext';
+import { useBillingAccount } from '../hooks/useBillingAccount';
+import { useEntitlements } from '../hooks/useEntitlement';
+
+// Operation catalog entry (credits per unit of size)
+interface Operation {
+  id: string;
+  name: string;
+  credits: number;
+  maxSize: number;
+}
 
 interface UsageData {
   userId: string;
   plan: string;
-  usageCount: number;
-  limit: number | string;
+  usageCount: number;     // Credits used this period
+  limit: number | string; // Credits per period
   remaining: number | string;
+  operations?: Operation[];
+  periodStart?: string; // YYYY-MM-DD
+  periodEnd?: string;   // YYYY-MM-DD (last day of the period, inclusive)
+  overage?: number;     // Metered tiers only
+  billingStatus?: string; // Failed payments only (past_due / unpaid)
+  graceEndsAt?: string;   // ISO timestamp - free-tier limits after this
+  downgraded?: boolean;   // Grace period expired
+}
+
+// GET /api/usage/history responses
+interface DailyUsage {
+  date: string;
+  count: number;
+}
+
+interface UsagePeriod {
+  periodStart: string;
+  periodEnd: string;
+  usageCount: number;
+  plan: string;
+  current: boolean;
+}
+
+/**
+ * Format a YYYY-MM-DD date (periods are UTC dates, so format in UTC)
+ */
+function formatDate(date: string, options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' }) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { ...options, timeZone: 'UTC' });
+}
+
+/**
+ * Day after the last day of the period = the day usage resets
+ */
+function getResetDate(periodEnd: string) {
+  const next = new Date(`${periodEnd}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split('T')[0];
 }
 
+/**
+ * Progress bar color: green → amber (70%) → red (90%)
+ */
+function getUsageColor(percent: number) {
+  if (percent >= 90) return 'bg-red-500';
+  if (percent >= 70) return 'bg-amber-500';
+  return 'bg-emerald-500';
+}
+
+// Stripe's cancellation feedback values (POST /api/subscription/cancel)
+const CANCEL_REASONS: { value: string; label: string }[] = [
+  { value: 'too_expensive', label: 'Too expensive' },
+  { value: 'missing_features', label: 'Missing features' },
+  { value: 'unused', label: "I don't use it enough" },
+  { value: 'switched_service', label: 'Switched to another service' },
+  { value: 'too_complex', label: 'Too complicated' },
+  { value: 'low_quality', label: 'Quality issues' },
+  { value: 'customer_service', label: 'Customer service' },
+  { value: 'other', label: 'Other' },
+];
+
+// Product route envelope (POST /api/data and other product handlers)
 interface ApiResponse {
   success: boolean;
   data?: { message?: string }; // Changed 'any' to a more specific type
-  usage?: { count: number; limit: number | string; plan: string };
+  usage?: {
+    count: number;
+    limit: number | string;
+    plan: string;
+    charged?: { operation: string; credits: number };
+  };
   error?: string;
   message?: string;
+  details?: Record<string, unknown>; // Failures only (e.g. refunded credits)
 }
 
 export default function Dashboard() {
   const { getToken } = useAuth();
   const { user, isLoaded } = useUser();
+  const billing = useBillingAccount();
+  const { entitlements } = useEntitlements();
+  const organizationId = billing.organization?.id;
   const navigate = useNavigate();
   const [usage, setUsage] = useState<UsageData | null>(null);
+  const [dailyUsage, setDailyUsage] = useState<DailyUsage[]>([]);
+  const [pastPeriods, setPastPeriods] = useState<UsagePeriod[]>([]);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState('');
+  const [operationId, setOperationId] = useState('');
+  const [size, setSize] = useState(1);
   const [searchParams] = useSearchParams();
+  const [showCancel, setShowCancel] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+  const [cancelFeedback, setCancelFeedback] = useState('');
+  const [updatingSubscription, setUpdatingSubscription] = useState(false);
 
   // ============================================================================
   // LOAD CONFIGURATION
@@ -83,6 +175,19 @@ export default function Dashboard() {
       });
       const data = await response.json();
       setUsage(data);
+
+      // Usage history: daily buckets for the current period + previous periods
+      if (response.ok && data.periodStart && data.periodEnd) {
+        const [daily, periods] = await Promise.all([
+          fetch(`${API_URL}/api/usage/history?granularity=day&from=${data.periodStart}&to=${data.periodEnd}`, { headers }),
+          fetch(`${API_URL}/api/usage/history?granularity=period`, { headers }),
+        ]);
+        if (daily.ok) setDailyUsage((await daily.json()).buckets || []);
+        if (periods.ok) {
+          const history: UsagePeriod[] = (await periods.json()).periods || [];
+          setPastPeriods(history.filter(p => !p.current).reverse()); // Newest first
+        }
+      }
     } catch (error) {
       console.error('Failed to fetch usage:', error);
     }
@@ -103,17 +208,21 @@ export default function Dashboard() {
       const token = await getToken({ template: 'pan-api' });
       headers['Authorization'] = `Bearer ${token}`;
 
-      const response = await fetch(`${API_URL}/api/data`, {
-        method: 'POST',
-        headers,
-      });
+      // One key per click: a retry replays the first response instead of counting twice
+      headers['Idempotency-Key'] = crypto.randomUUID();
+
+      const body = JSON.stringify({ ...(operation && { operation: operation.id }), size });
+      const send = () => fetch(`${API_URL}/api/data`, { method: 'POST', headers, body });
+      // Retry once on a network error (the request may have reached the API)
+      const response = await send().catch(() => send());
       const data: ApiResponse = await response.json();
 
       if (response.ok) {
-        setMessage(`✓ ${data.data?.message || 'Success!'}`);
+        const charged = data.usage?.charged;
+        setMessage(`✓ ${data.data?.message || 'Success!'}${charged ? ` (${charged.credits} credits)` : ''}`);
         await fetchUsage();
       } else {
-        setMessage(`✗ ${data.error || 'Failed'}`);
+        setMessage(`✗ ${data.message || data.error || 'Failed'}`);
       }
     } catch (error) {
       setMessage('✗ Request failed');
@@ -150,6 +259,48 @@ export default function Dashboard() {
     }
   };
 
+  /**
+   * Cancel at period end (reason/feedback optional) or resume a pending
+   * cancellation, then reload the billing owner so the banner reflects it
+   */
+  const updateSubscription = async (action: 'cancel' | 'resume') => {
+    setUpdatingSubscription(true);
+    try {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+      // Send platform user ID for multi-tenant config lookup
+      if (config?.userId) {
+        headers['X-Platform-User-Id'] = config.userId;
+      }
+
+      const token = await getToken({ template: 'pan-api' });
+      headers['Authorization'] = `Bearer ${token}`;
+
+      const response = await fetch(`${API_URL}/api/subscription/${action}`, {
+        method: 'POST',
+        headers,
+        body: action === 'cancel'
+          ? JSON.stringify({ reason: cancelReason || undefined, feedback: cancelFeedback || undefined })
+          : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.message || data.error || `Failed to ${action} subscription`);
+        return;
+      }
+
+      setShowCancel(false);
+      setCancelReason('');
+      setCancelFeedback('');
+      await billing.reload();
+    } catch (error) {
+      console.error(`Subscription ${action} error:`, error);
+      alert(`Failed to ${action} subscription`);
+    } finally {
+      setUpdatingSubscription(false);
+    }
+  };
+
   useEffect(() => {
     const success = searchParams.get('success');
     if (success === 'true') {
@@ -167,15 +318,32 @@ export default function Dashboard() {
       const timer = setTimeout(refresh, 2000);
       return () => clearTimeout(timer);
     } else if (isLoaded && user) {
-      fetchUsage();
+      fetchUsage(); // Also refetched when switching organization (team usage is pooled)
     }
-  }, [isLoaded, user, searchParams, getToken, fetchUsage]); // Added fetchUsage to dependencies
+  }, [isLoaded, user, organizationId, searchParams, getToken, fetchUsage]); // Added fetchUsage to dependencies
 
-  const plan = (user?.publicMetadata?.plan as string) || 'free';
+  // Personal plan, or the active organization's team plan
+  const plan = (billing.metadata.plan as string) || 'free';
+  const billingStatus = billing.metadata.billingStatus as string | undefined;
+  const paymentFailed = billingStatus === 'past_due' || billingStatus === 'unpaid';
+  const trialEndsAt = billingStatus === 'trialing' ? billing.metadata.trialEndsAt as string | undefined : undefined;
+  const hasSubscription = !!billing.metadata.subscriptionId;
+  const cancelAtPeriodEnd = hasSubscription && !!billing.metadata.cancelAtPeriodEnd;
+  const currentPeriodEnd = billing.metadata.currentPeriodEnd as string | undefined;
 
   // Derive the limit from config.json based on the current plan
   const currentTier = config?.tiers.find(t => t.name.toLowerCase() === plan.toLowerCase());
   const derivedLimit = currentTier?.limit || usage?.limit || 'unlimited';
+  const numericLimit = typeof derivedLimit === 'number' ? derivedLimit : Number(derivedLimit);
+  const usagePercent = usage && numericLimit > 0
+    ? Math.min(100, Math.round((usage.usageCount / numericLimit) * 100))
+    : 0;
+  const maxDaily = Math.max(1, ...dailyUsage.map(d => d.count));
+
+  // Operation picked for the demo request (first one by default) and its cost
+  const operations = usage?.operations || [];
+  const operation = operations.find(op => op.id === operationId) || operations[0];
+  const cost = operation ? operation.credits * size : null;
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -192,15 +360,135 @@ export default function Dashboard() {
           >
             {plan === 'free' ? 'Upgrade' : 'Change Plan'}
           </button>
-          {plan !== 'free' && (
-            <button onClick={handleManageBilling} className="px-6 py-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-300 rounded-lg cursor-pointer font-semibold text-sm transition-colors">
-              Manage Billing
+          {billing.canManageBilling && (plan !== 'free' || !!billing.metadata.stripeCustomerId) && (
+            <button onClick={() => navigate('/billing')} className="px-6 py-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-300 rounded-lg cursor-pointer font-semibold text-sm transition-colors">
+              Billing
+            </button>
+          )}
+          <Link to="/settings/api-keys" className="text-slate-600 hover:text-slate-900 no-underline font-medium text-sm">
+            API Keys
+          </Link>
+          {billing.canManageBilling && hasSubscription && !cancelAtPeriodEnd && (
+            <button
+              onClick={() => setShowCancel(true)}
+              className="px-2 py-2 bg-transparent text-slate-500 hover:text-slate-700 border-none cursor-pointer text-sm"
+            >
+              Cancel plan
             </button>
           )}
+          <OrganizationSwitcher />
           <UserButton />
         </div>
       </nav>
 
+      {/* Failed payment banner - opens the Stripe portal to update the card */}
+      {paymentFailed && (
+        <div className={`px-8 py-3 border-b flex flex-wrap gap-4 justify-between items-center ${
+          usage?.downgraded ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'
+        }`}>
+          <p className="m-0 text-sm font-medium">
+            {usage?.downgraded
+              ? 'Your last payment failed and your plan is limited to free-tier usage until it is paid.'
+              : `Your last payment failed.${usage?.graceEndsAt
+                  ? ` Update your payment method by ${new Date(usage.graceEndsAt).toLocaleDateString()} to keep your ${plan} plan.`
+                  : ' Update your payment method to keep your plan.'}`}
+          </p>
+          {billing.canManageBilling && (
+            <button
+              onClick={handleManageBilling}
+              className="px-4 py-2 text-white border-none rounded-lg cursor-pointer font-semibold text-sm transition-opacity hover:opacity-90"
+              style={{ backgroundColor: primaryColor }}
+            >
+              Fix payment
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Pending cancellation banner - plan stays active until the period ends */}
+      {cancelAtPeriodEnd && (
+        <div className="px-8 py-3 border-b bg-amber-50 border-amber-200 text-amber-800 flex flex-wrap gap-4 justify-between items-center">
+          <p className="m-0 text-sm font-medium">
+            {currentPeriodEnd
+              ? `Your plan ends on ${new Date(currentPeriodEnd).toLocaleDateString()}. You'll move to the free plan after that.`
+              : 'Your plan ends at the end of the current billing period.'}
+          </p>
+          {billing.canManageBilling && (
+            <button
+              onClick={() => updateSubscription('resume')}
+              disabled={updatingSubscription}
+              className="px-4 py-2 text-white border-none rounded-lg cursor-pointer font-semibold text-sm transition-opacity hover:opacity-90 disabled:opacity-50"
+              style={{ backgroundColor: primaryColor }}
+            >
+              {updatingSubscription ? 'Resuming...' : 'Resume plan'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Cancel panel - optional reason, plan stays active until the period ends */}
+      {showCancel && (
+        <div className="px-8 py-6 border-b bg-white border-gray-200">
+          <div className="max-w-xl">
+            <h2 className="text-lg font-semibold text-slate-900 mb-1">Cancel your {plan} plan?</h2>
+            <p className="text-sm text-slate-600 mb-4">
+              You keep your plan until {currentPeriodEnd ? new Date(currentPeriodEnd).toLocaleDateString() : 'the end of the billing period'}, then move to the free plan. You can resume any time before then.
+            </p>
+            <select
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              className="w-full mb-3 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+            >
+              <option value="">Why are you canceling? (optional)</option>
+              {CANCEL_REASONS.map((reason) => (
+                <option key={reason.value} value={reason.value}>{reason.label}</option>
+              ))}
+            </select>
+            <textarea
+              value={cancelFeedback}
+              onChange={(e) => setCancelFeedback(e.target.value)}
+              maxLength={1000}
+              rows={3}
+              placeholder="Anything we could do better? (optional)"
+              className="w-full mb-4 px-3 py-2 border border-slate-300 rounded-lg text-sm"
+            />
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowCancel(false)}
+                disabled={updatingSubscription}
+                className="px-4 py-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-300 rounded-lg cursor-pointer font-semibold text-sm"
+              >
+                Keep plan
+              </button>
+              <button
+                onClick={() => updateSubscription('cancel')}
+                disabled={updatingSubscription}
+                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white border-none rounded-lg cursor-pointer font-semibold text-sm disabled:opacity-50"
+              >
+                {updatingSubscription ? 'Canceling...' : 'Cancel plan'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Free trial banner - first charge happens when the trial ends */}
+      {billingStatus === 'trialing' && !cancelAtPeriodEnd && (
+        <div className="px-8 py-3 border-b bg-sky-50 border-sky-200 text-sky-800 flex flex-wrap gap-4 justify-between items-center">
+          <p className="m-0 text-sm font-medium">
+            {trialEndsAt
+              ? `Your free trial of the ${plan} plan ends on ${new Date(trialEndsAt).toLocaleDateString()}. Your first payment is taken then.`
+              : `You're on a free trial of the ${plan} plan.`}
+          </p>
+          <button
+            onClick={handleManageBilling}
+            className="px-4 py-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-300 rounded-lg cursor-pointer font-semibold text-sm transition-colors"
+          >
+            Manage billing
+          </button>
+        </div>
+      )}
+
       <div className="max-w-7xl mx-auto px-8 py-12">
         {/* Header - Description from config */}
         <div className="mb-12">
@@ -219,17 +507,48 @@ export default function Dashboard() {
                   {usage.usageCount}
                   {derivedLimit !== 'unlimited' && <span className="text-lg text-slate-400"> / {derivedLimit}</span>}
                 </div>
-                <p className="text-slate-600 text-sm">requests</p>
+                <p className="text-slate-600 text-sm">credits</p>
               </div>
+              {derivedLimit !== 'unlimited' && (
+                <div className="mb-4">
+                  <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full transition-all ${getUsageColor(usagePercent)}`}
+                      style={{ width: `${usagePercent}%` }}
+                    />
+                  </div>
+                  <p className="text-slate-500 text-xs mt-1">{usagePercent}% used</p>
+                </div>
+              )}
               <div className="p-3 bg-slate-100 rounded-lg border border-slate-200">
                 <p className="m-0 text-slate-700 text-sm font-medium">
-                  {derivedLimit === 'unlimited' ? 'Unlimited' : `${usage.remaining} remaining`}
+                  {derivedLimit === 'unlimited' ? 'Unlimited' : `${usage.remaining} credits remaining`}
                 </p>
+                {!!usage.overage && (
+                  <p className="m-0 mt-1 text-slate-500 text-xs">+{usage.overage} overage (billed per credit)</p>
+                )}
               </div>
+              {usage.periodEnd && (
+                <p className="mt-3 mb-0 text-slate-500 text-xs">
+                  {derivedLimit === 'unlimited' ? 'Period ends' : 'Resets on'} {formatDate(getResetDate(usage.periodEnd))}
+                </p>
+              )}
               <div className="mt-6 pt-6 border-t border-gray-200">
                 <div className="inline-block px-3 py-1 rounded text-xs font-bold tracking-wider bg-slate-900 text-white">
                   {plan.toUpperCase()}
                 </div>
+                {Object.keys(entitlements).length > 0 && (
+                  <ul className="list-none m-0 mt-4 p-0 space-y-1 text-xs text-slate-600">
+                    {Object.entries(entitlements).map(([key, value]) => (
+                      <li key={key} className="flex justify-between gap-2">
+                        <span>{key.replace(/_/g, ' ')}</span>
+                        <span className="font-semibold text-slate-900">
+                          {value === true ? '✓' : value === false ? '—' : value}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             </div>
           )}
@@ -244,6 +563,39 @@ export default function Dashboard() {
             <h2 className="text-2xl mb-3 text-slate-900 font-bold">Your Feature</h2>
             <p className="text-slate-600 mb-6">Describe what your product does. Usage tracking is handled.</p>
 
+            {operations.length > 1 || (operation && operation.maxSize > 1) ? (
+              <div className="flex flex-wrap gap-4 mb-6">
+                <label className="text-sm text-slate-700">
+                  Operation
+                  <select
+                    value={operation?.id || ''}
+                    onChange={e => {
+                      setOperationId(e.target.value);
+                      setSize(1);
+                    }}
+                    className="block mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {operations.map(op => (
+                      <option key={op.id} value={op.id}>
+                        {op.name} ({op.credits} {op.credits === 1 ? 'credit' : 'credits'} each)
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-sm text-slate-700">
+                  Size
+                  <input
+                    type="number"
+                    min={1}
+                    max={operation?.maxSize}
+                    value={size}
+                    onChange={e => setSize(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                    className="block mt-1 w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+              </div>
+            ) : null}
+
             <button
               onClick={makeRequest}
               disabled={loading}
@@ -252,7 +604,7 @@ export default function Dashboard() {
               }`}
               style={!loading ? { backgroundColor: primaryColor } : undefined}
             >
-              {loading ? 'Processing...' : 'Try Demo'}
+              {loading ? 'Processing...' : cost !== null ? `Try Demo · ${cost} ${cost === 1 ? 'credit' : 'credits'}` : 'Try Demo'}
             </button>
 
             {message && (
@@ -267,6 +619,55 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Usage History - Daily chart (current period) + previous periods */}
+        {usage && dailyUsage.length > 0 && (
+          <div className="bg-white p-8 rounded-xl border border-gray-200 mb-8 grid grid-cols-1 lg:grid-cols-[1fr,280px] gap-8">
+            <div>
+              <h2 className="text-xs mb-4 text-slate-500 font-semibold uppercase tracking-wider">
+                Daily usage · {usage.periodStart && formatDate(usage.periodStart, { month: 'short', day: 'numeric' })}
+                {' – '}
+                {usage.periodEnd && formatDate(usage.periodEnd, { month: 'short', day: 'numeric' })}
+              </h2>
+              <div className="flex items-end gap-px h-32">
+                {dailyUsage.map(day => (
+                  <div key={day.date} className="flex-1 h-full flex items-end" title={`${formatDate(day.date)}: ${day.count} credits`}>
+                    <div
+                      className="w-full rounded-t"
+                      style={{
+                        height: `${(day.count / maxDaily) * 100}%`,
+                        minHeight: day.count > 0 ? '2px' : 0,
+                        backgroundColor: primaryColor,
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-slate-400 mt-2">
+                <span>{formatDate(dailyUsage[0].date, { month: 'short', day: 'numeric' })}</span>
+                <span>{formatDate(dailyUsage[dailyUsage.length - 1].date, { month: 'short', day: 'numeric' })}</span>
+              </div>
+            </div>
+
+            <div>
+              <h2 className="text-xs mb-4 text-slate-500 font-semibold uppercase tracking-wider">Previous periods</h2>
+              {pastPeriods.length === 0 ? (
+                <p className="text-slate-500 text-sm">No previous periods yet</p>
+              ) : (
+                <ul className="list-none m-0 p-0 divide-y divide-gray-200">
+                  {pastPeriods.map(period => (
+                    <li key={period.periodStart} className="py-2 flex justify-between text-sm">
+                      <span className="text-slate-600">
+                        {formatDate(period.periodStart, { month: 'short', day: 'numeric' })} – {formatDate(period.periodEnd)}
+                      </span>
+                      <span className="text-slate-900 font-semibold">{period.usageCount}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Upgrade CTA (free only) - Uses primary color */}
         {plan === 'free' && (
           <div className="p-12 rounded-2xl text-white text-center" style={{ backgroundColor: primaryColor }}>
@@ -26,21 +26,31 @@ import { SignedIn, SignedOut, useUser, UserButton } from '@clerk/clerk-react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useEffect, useState } from 'react';
 import { useConfig } from '../contexts/ConfigContext';
-import type { Tier as ConfigTier } from '../contexts/config-context.types'; // Type-only import
+import type { Tier as ConfigTier, UsagePeriod } from '../contexts/config-context.types'; // Type-only import
 
 interface Tier {
   id: string;
   name: string;
   price: number;
+  yearlyPrice: number | null;
+  trialDays: number | null;
   limit: number | 'unlimited';
+  usagePeriod: UsagePeriod;
   hasPriceId: boolean;
   features: string[]; // Added features to local Tier interface
 }
 
+// Annual discount vs. 12 monthly payments (whole percent)
+function getYearlySavings(tier: Tier) {
+  if (!tier.yearlyPrice || tier.price <= 0) return 0;
+  return Math.round((1 - tier.yearlyPrice / (tier.price * 12)) * 100);
+}
+
 export default function Landing() {
   const { user } = useUser();
   const navigate = useNavigate();
   const [tiers, setTiers] = useState<Tier[]>([]);
+  const [annual, setAnnual] = useState(false);
 
   // ============================================================================
   // LOAD CONFIGURATION
@@ -65,7 +75,10 @@ export default function Landing() {
         id: tier.name,
         name: tier.displayName,
         price: tier.price,
+        yearlyPrice: tier.yearlyPrice ?? null,
+        trialDays: tier.trialDays ?? null,
         limit: (tier.limit === null || tier.limit === undefined) ? 'unlimited' : tier.limit as number | 'unlimited',
+        usagePeriod: tier.usagePeriod ?? 'month',
         hasPriceId: !!tier.stripePriceId,
         features: Array.isArray(tier.features) ? tier.features : [], // Features already an array from GitHub Action
       }));
@@ -73,12 +86,16 @@ export default function Landing() {
     }
   }, [config]);
 
+  // Annual billing is offered if any paid tier has a yearly price
+  const hasAnnual = tiers.some((tier) => tier.yearlyPrice);
+  const maxSavings = Math.max(0, ...tiers.map(getYearlySavings));
+
   const handleGetStarted = (tierId: string) => {
     if (user) {
       if (tierId === 'free' || tierId === plan) {
         navigate('/dashboard');
       } else {
-        navigate('/choose-plan');
+        navigate(annual ? '/choose-plan?interval=year' : '/choose-plan');
       }
     } else {
       navigate('/sign-up');
@@ -247,6 +264,24 @@ export default function Landing() {
         <div className="text-center mb-16">
           <h2 className="text-4xl font-bold text-slate-900 mb-4">Simple, Transparent Pricing</h2>
           <p className="text-xl text-slate-600">Choose the plan that fits your needs</p>
+
+          {/* Monthly / Annual toggle (only if a tier has a yearly price) */}
+          {hasAnnual && (
+            <div className="mt-8 inline-flex items-center gap-1 p-1 bg-white border border-gray-200 rounded-lg">
+              <button
+                onClick={() => setAnnual(false)}
+                className={`px-4 py-2 rounded-md text-sm font-semibold ${annual ? 'text-slate-600' : 'bg-slate-900 text-white'}`}
+              >
+                Monthly
+              </button>
+              <button
+                onClick={() => setAnnual(true)}
+                className={`px-4 py-2 rounded-md text-sm font-semibold ${annual ? 'bg-slate-900 text-white' : 'text-slate-600'}`}
+              >
+                Annual{maxSavings > 0 && ` (save up to ${maxSavings}%)`}
+              </button>
+            </div>
+          )}
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8 max-w-6xl mx-auto">
@@ -257,13 +292,30 @@ export default function Landing() {
 
               {/* Price */}
               <div className="mb-6">
-                <span className="text-5xl font-bold text-slate-900">${tier.price}</span>
-                <span className="text-slate-600">/month</span>
+                {annual && tier.yearlyPrice ? (
+                  <>
+                    <span className="text-5xl font-bold text-slate-900">${tier.yearlyPrice}</span>
+                    <span className="text-slate-600">/year</span>
+                    {getYearlySavings(tier) > 0 && (
+                      <p className="mt-1 text-sm font-semibold text-green-700">Save {getYearlySavings(tier)}%</p>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <span className="text-5xl font-bold text-slate-900">${tier.price}</span>
+                    <span className="text-slate-600">/month</span>
+                  </>
+                )}
               </div>
 
+              {/* Free trial */}
+              {tier.trialDays && (
+                <p className="-mt-4 mb-6 text-sm font-semibold text-sky-700">{tier.trialDays}-day free trial</p>
+              )}
+
               {/* Main Feature */}
               <p className="text-slate-600 mb-6 text-lg font-medium">
-                {tier.limit === 'unlimited' ? 'Unlimited requests' : `${tier.limit} requests/month`}
+                {tier.limit === 'unlimited' ? 'Unlimited requests' : `${tier.limit} requests/${tier.usagePeriod}`}
               </p>
 
               {/* CTA Button - Primary color for paid tiers */}